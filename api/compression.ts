@@ -0,0 +1,171 @@
+import { assertEquals } from '../deps/std.ts';
+
+import type { SlimRequestStub, SlimRouteHandler } from './types.ts';
+import { json, negotiate, text } from './util.ts';
+
+/** The content types which are worth compressing by default */
+const compressible = /^(text\/|application\/(.+\+)?(json|xml|javascript|graphql)|image\/svg\+xml)/i;
+
+/**
+ * Check whether or not the runtime's `CompressionStream` supports an encoding (i.e. brotli)
+ * @param {string} encoding The encoding
+ * @returns {boolean} Whether or not it is supported
+ */
+function supports(encoding: string): boolean {
+  try {
+    new CompressionStream(encoding as CompressionFormat);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Make a middleware which compresses response bodies via `CompressionStream`, using the best
+ * encoding the request `Accept`s (brotli, if the runtime supports it, then gzip, then deflate).
+ *
+ * Responses which are small, already encoded, marked `no-transform`, or not of a compressible type
+ * are left alone.
+ *
+ * @param options (optional) The minimum size (in bytes) to compress (if known via `Content-Length`),
+ * and which content types to compress
+ * @returns {SlimRouteHandler} Compression Middleware
+ */
+export function compress<R extends SlimRequestStub & { readonly headers?: Headers }>(options: {
+  threshold?: number;
+  types?: RegExp;
+} = { }): SlimRouteHandler<R> {
+  const threshold = options.threshold ?? 1024;
+  const types = options.types ?? compressible;
+
+  const encodings = ['br', 'gzip', 'deflate'].filter(supports);
+
+  return async (req, next) => {
+    const res = await next();
+
+    const length = res.headers.get('Content-Length');
+
+    if(!res.body || req.method === 'HEAD' || res.status === 204 || res.status === 304 ||
+      res.headers.has('Content-Encoding') ||
+      /\bno-transform\b/i.test(res.headers.get('Cache-Control') ?? '') ||
+      !types.test(res.headers.get('Content-Type') ?? '') ||
+      (length && Number(length) < threshold))
+      return res;
+
+    // no header means anything goes, but it is safer to not assume
+    const accept = req.headers?.get('Accept-Encoding');
+    const encoding = accept ? negotiate(accept, [...encodings, 'identity']) : 'identity';
+
+    const headers = new Headers(res.headers);
+    headers.append('Vary', 'Accept-Encoding');
+
+    if(!encoding || encoding === 'identity')
+      return new Response(res.body, { status: res.status, statusText: res.statusText, headers });
+
+    headers.set('Content-Encoding', encoding);
+    headers.delete('Content-Length');
+
+    return new Response(res.body.pipeThrough(new CompressionStream(encoding as CompressionFormat)), {
+      status: res.status,
+      statusText: res.statusText,
+      headers
+    });
+  };
+}
+
+/**
+ * Check whether or not an `If-None-Match` header matches an ETag (via weak comparison)
+ * @param {string} header The `If-None-Match` header
+ * @param {string} tag The ETag
+ * @returns {boolean} Whether or not it matches
+ */
+function matchesETag(header: string, tag: string): boolean {
+  if(header.trim() === '*')
+    return true;
+
+  const opaque = (t: string) => t.trim().replace(/^W\//, '');
+
+  return header.split(',').some(t => opaque(t) === opaque(tag));
+}
+
+/**
+ * Make a middleware which gives successful JSON `GET` responses a weak ETag (from a hash of
+ * the body), and answers a matching `If-None-Match` with a 304.
+ *
+ * Mount it inside of `compress`, so that the tag is computed from the uncompressed body.
+ *
+ * @returns {SlimRouteHandler} Conditional GET Middleware
+ */
+export function etag<R extends SlimRequestStub & { readonly headers?: Headers }>(): SlimRouteHandler<R> {
+  return async (req, next) => {
+    const res = await next();
+
+    if((req.method !== 'GET' && req.method !== 'HEAD') || res.status !== 200 || !res.body ||
+      !/\bjson\b/i.test(res.headers.get('Content-Type') ?? ''))
+      return res;
+
+    const body = await res.arrayBuffer();
+    const headers = new Headers(res.headers);
+
+    if(!headers.has('ETag')) {
+      const hash = new Uint8Array(await crypto.subtle.digest('SHA-1', body));
+      headers.set('ETag', `W/"${btoa(String.fromCharCode(...hash)).replace(/=+$/, '')}"`);
+    }
+
+    const ifNoneMatch = req.headers?.get('If-None-Match');
+
+    if(ifNoneMatch && matchesETag(ifNoneMatch, headers.get('ETag')!)) {
+      headers.delete('Content-Type');
+      headers.delete('Content-Length');
+
+      return new Response(undefined, { status: 304, headers });
+    }
+
+    return new Response(body, { status: res.status, statusText: res.statusText, headers });
+  };
+}
+
+Deno.test(async function TestCompress() {
+  const middleware = compress({ threshold: 16 });
+  const data = { text: 'neat '.repeat(100) };
+
+  const makeRequest = (encoding?: string) => new Request('http://localhost/', encoding ? { headers: { 'Accept-Encoding': encoding } } : { });
+
+  let res = await middleware(makeRequest('gzip;q=1, deflate;q=0.5'), () => json(data));
+  assertEquals(res.headers.get('Content-Encoding'), 'gzip');
+  assertEquals(res.headers.get('Vary'), 'Accept-Encoding');
+  assertEquals(await new Response(res.body!.pipeThrough(new DecompressionStream('gzip'))).json(), data);
+
+  // not without asking for it
+  res = await middleware(makeRequest(), () => json(data));
+  assertEquals(res.headers.has('Content-Encoding'), false);
+  assertEquals(await res.json(), data);
+
+  // nor for small or incompressible responses
+  res = await middleware(makeRequest('gzip'), () => text('small', { headers: { 'Content-Length': '5' } }));
+  assertEquals(res.headers.has('Content-Encoding'), false);
+  res = await middleware(makeRequest('gzip'), () => new Response(data.text, { headers: { 'Content-Type': 'image/png' } }));
+  assertEquals(res.headers.has('Content-Encoding'), false);
+});
+
+Deno.test(async function TestETag() {
+  const middleware = etag();
+  const handler = () => json({ neat: true });
+
+  const first = await middleware(new Request('http://localhost/'), handler);
+  const tag = first.headers.get('ETag')!;
+  assertEquals(first.status, 200);
+  assertEquals(/^W\/".+"$/.test(tag), true);
+  assertEquals(await first.json(), { neat: true });
+
+  // a matching tag (weakly) gets a 304
+  const second = await middleware(new Request('http://localhost/', { headers: { 'If-None-Match': `"other", ${tag.slice(2)}` } }), handler);
+  assertEquals(second.status, 304);
+  assertEquals(second.headers.get('ETag'), tag);
+  assertEquals(second.body, null);
+
+  // only for GET and HEAD
+  const post = await middleware(new Request('http://localhost/', { method: 'POST', headers: { 'If-None-Match': tag } }), handler);
+  assertEquals(post.status, 200);
+  assertEquals(post.headers.has('ETag'), false);
+});
@@ -0,0 +1,160 @@
+import { assertEquals } from '../deps/std.ts';
+
+import type { SlimRequestStub, SlimRouteHandler } from './types.ts';
+import Router from './router.ts';
+
+/**
+ * The options of the CORS middleware
+ */
+export interface CorsOptions<R extends SlimRequestStub = SlimRequestStub> {
+  /**
+   * The origins which are allowed; either `'*'` (the default), a list of origins (e.x. `https://app.co`),
+   * or a function to check the origin with.
+   */
+  origin?: '*' | readonly string[] | ((origin: string, req: R) => boolean | Promise<boolean>);
+  /** Whether or not to allow credentials (cookies, etc); the origin is always echoed back if so */
+  credentials?: boolean;
+  /** The headers the client is allowed to send; defaults to whatever the preflight asks for */
+  allowedHeaders?: readonly string[];
+  /** The headers the client is allowed to read */
+  exposedHeaders?: readonly string[];
+  /** How long (in seconds) the client can cache a preflight for */
+  maxAge?: number;
+  /**
+   * The router to find the allowed methods of a route with (via `parseOptions`) when answering
+   * a preflight. Otherwise, the requested method is allowed.
+   */
+  // deno-lint-ignore no-explicit-any
+  router?: Router<any>;
+}
+
+/**
+ * Set headers on a response, copying it if its headers are immutable (e.x. `Response.redirect`)
+ * @param {Response} res The response
+ * @param {Record<string, string>} headers The headers to set
+ * @returns {Response} The response (or its copy)
+ */
+function setHeaders(res: Response, headers: Record<string, string>): Response {
+  try {
+    for(const [key, value] of Object.entries(headers))
+      key === 'Vary' ? res.headers.append(key, value) : res.headers.set(key, value);
+
+    return res;
+
+  } catch {
+    const copy = new Response(res.body, res);
+
+    for(const [key, value] of Object.entries(headers))
+      key === 'Vary' ? copy.headers.append(key, value) : copy.headers.set(key, value);
+
+    return copy;
+  }
+}
+
+/**
+ * Make a CORS middleware, which answers preflight requests and adds the CORS headers onto
+ * the responses of allowed origins. Requests without an `Origin` are passed through untouched.
+ *
+ * @example
+ * ```typescript
+ * router.use(cors({ origin: ['https://app.co'], router }));
+ * ```
+ * @param {CorsOptions} options The options
+ * @returns {SlimRouteHandler} CORS Middleware
+ */
+export function cors<R extends SlimRequestStub & { readonly headers?: Headers }>(options: CorsOptions<R> = { }): SlimRouteHandler<R> {
+  const originOption = options.origin ?? '*';
+  const wildcard = originOption === '*' && !options.credentials;
+
+  const isAllowed = (origin: string, req: R): boolean | Promise<boolean> => {
+    if(originOption === '*')
+      return true;
+
+    if(typeof originOption === 'function')
+      return originOption(origin, req);
+
+    return originOption.includes(origin);
+  };
+
+  return async (req, next) => {
+    const origin = req.headers?.get('Origin');
+
+    if(!origin)
+      return next();
+
+    const preflight = req.method === 'OPTIONS' && req.headers!.has('Access-Control-Request-Method');
+    const allowed = await isAllowed(origin, req);
+
+    const headers: Record<string, string> = { };
+
+    if(allowed) {
+      headers['Access-Control-Allow-Origin'] = wildcard ? '*' : origin;
+
+      if(options.credentials)
+        headers['Access-Control-Allow-Credentials'] = 'true';
+    }
+
+    if(!wildcard)
+      headers['Vary'] = 'Origin';
+
+    if(!preflight) {
+      if(allowed && options.exposedHeaders?.length)
+        headers['Access-Control-Expose-Headers'] = options.exposedHeaders.join(', ');
+
+      return setHeaders(await next(), headers);
+    }
+
+    if(allowed) {
+      headers['Access-Control-Allow-Methods'] = options.router
+        ? options.router.parseOptions(req).methods
+        : req.headers!.get('Access-Control-Request-Method')!;
+
+      const allowedHeaders = options.allowedHeaders?.join(', ') ?? req.headers!.get('Access-Control-Request-Headers');
+      if(allowedHeaders)
+        headers['Access-Control-Allow-Headers'] = allowedHeaders;
+
+      if(options.maxAge != null)
+        headers['Access-Control-Max-Age'] = String(options.maxAge);
+    }
+
+    // preflights always succeed; the browser enforces the (lack of) headers
+    return new Response(undefined, { status: 204, headers });
+  };
+}
+
+export default cors;
+
+Deno.test(async function TestCors() {
+  const ok = () => new Response('ok');
+  const router = new Router().get('/items', ok).post('/items', ok);
+  const middleware = cors({ origin: ['https://app.co'], credentials: true, exposedHeaders: ['ETag'], maxAge: 600, router });
+
+  const makeRequest = (method: string, headers: Record<string, string> = { }) => new Request('http://localhost/items', { method, headers });
+  const preflight = { 'Access-Control-Request-Method': 'POST', 'Access-Control-Request-Headers': 'Authorization' };
+
+  // preflights are answered for any origin, but only allowed ones get the headers
+  let res = await middleware(makeRequest('OPTIONS', { Origin: 'https://app.co', ...preflight }), ok);
+  assertEquals(res.status, 204);
+  assertEquals(Object.fromEntries(res.headers), {
+    'access-control-allow-credentials': 'true',
+    'access-control-allow-headers': 'Authorization',
+    'access-control-allow-methods': 'GET, POST, OPTIONS',
+    'access-control-allow-origin': 'https://app.co',
+    'access-control-max-age': '600',
+    'vary': 'Origin'
+  });
+
+  res = await middleware(makeRequest('OPTIONS', { Origin: 'https://evil.co', ...preflight }), ok);
+  assertEquals(res.status, 204);
+  assertEquals(Object.fromEntries(res.headers), { 'vary': 'Origin' });
+
+  res = await middleware(makeRequest('GET', { Origin: 'https://app.co' }), ok);
+  assertEquals(await res.text(), 'ok');
+  assertEquals(res.headers.get('Access-Control-Allow-Origin'), 'https://app.co');
+  assertEquals(res.headers.get('Access-Control-Expose-Headers'), 'ETag');
+
+  // requests without an origin are untouched
+  res = await middleware(makeRequest('GET'), ok);
+  assertEquals(res.headers.has('Access-Control-Allow-Origin'), false);
+  assertEquals(res.headers.has('Vary'), false);
+});
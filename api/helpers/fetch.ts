@@ -0,0 +1,94 @@
+import { assertEquals } from '../../deps/std.ts';
+
+import Router from '../router.ts';
+import type { SlimRouteHandler } from '../types.ts';
+import { text } from '../util.ts';
+
+/** A standard `fetch` handler, as used by `Deno.serve`, std's `Server`, Fresh, Cloudflare Workers, etc */
+export type FetchHandler = (req: Request, info?: { readonly remoteAddr?: unknown }) => Promise<Response>;
+
+/**
+ * Make a standard `fetch` handler out of a Tiny Router.
+ *
+ * - Preflight (CORS) requests are given to the router, so that a `cors` middleware can answer them
+ * - Other `OPTIONS` requests are answered with the `Allow`ed methods of the route
+ * - Unhandled requests are given a 404
+ * - The connection's `remoteAddr` (if given) is put on the request, e.x. for rate limiting
+ *
+ * @example
+ * ```typescript
+ * Deno.serve(makeFetchHandler(router, { middleware: [handleError('root')] }));
+ * ```
+ * @param {Router} router The Tiny Router to process requests with
+ * @param options (optional) The base url of the router, and any middleware to wrap
+ * every request with (outermost first, e.x. `cors` or `handleError`)
+ * @returns {FetchHandler} The fetch handler
+ */
+// deno-lint-ignore no-explicit-any
+export function makeFetchHandler(router: Router<any>, options: {
+  base?: string;
+  middleware?: readonly SlimRouteHandler<Request>[];
+} = { }): FetchHandler {
+  const base = options.base ?? '';
+  const middleware = options.middleware ?? [];
+
+  const handle = async (req: Request): Promise<Response> => {
+    const preflight = req.method === 'OPTIONS' && req.headers.has('Access-Control-Request-Method');
+
+    if(req.method === 'OPTIONS' && !preflight)
+      return new Response(undefined, { status: 204, headers: { allow: router.parseOptions(req, base).methods } });
+
+    const res = await router.process(req, base);
+
+    if(!res && preflight)
+      return new Response(undefined, { status: 204, headers: { allow: router.parseOptions(req, base).methods } });
+
+    return res || text('Not Found', { status: 404 });
+  };
+
+  return async (req, info) => {
+    if(info?.remoteAddr)
+      Object.assign(req, { remoteAddr: info.remoteAddr });
+
+    const run = (i: number): Promise<Response> | Response => i < middleware.length
+      ? middleware[i](req, () => run(i + 1))
+      : handle(req);
+
+    try {
+      return await run(0);
+    } catch(err) {
+      console.error('Error handling request:', err);
+
+      return text('Failed to handle request.', { status: 500 });
+    }
+  };
+}
+
+Deno.test(async function TestMakeFetchHandler() {
+  const seen: string[] = [];
+
+  const router = new Router()
+    .get('/items', req => text('items from ' + (req as { remoteAddr?: { hostname: string } }).remoteAddr?.hostname))
+    .post('/items', () => { throw new Error('Failed!'); });
+
+  const handler = makeFetchHandler(router, {
+    base: '/api',
+    middleware: [
+      async (_, next) => { seen.push('outer'); return await next(); },
+      async (_, next) => { seen.push('inner'); return await next(); }
+    ]
+  });
+
+  const res = await handler(new Request('http://localhost/api/items'), { remoteAddr: { hostname: '127.0.0.1' } });
+  assertEquals(await res.text(), 'items from 127.0.0.1');
+  assertEquals(seen, ['outer', 'inner']);
+
+  assertEquals((await handler(new Request('http://localhost/api/other'))).status, 404);
+
+  const options = await handler(new Request('http://localhost/api/items', { method: 'OPTIONS' }));
+  assertEquals(options.status, 204);
+  assertEquals(options.headers.get('Allow'), 'GET, POST, OPTIONS');
+
+  // errors which aren't handled by the middleware are still answered
+  assertEquals((await handler(new Request('http://localhost/api/items', { method: 'POST' }))).status, 500);
+});
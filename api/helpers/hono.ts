@@ -0,0 +1,116 @@
+import { assertEquals } from '../../deps/std.ts';
+
+import Router from '../router.ts';
+import type { RouteHandler } from '../types.ts';
+import { parseQuery } from '../util.ts';
+
+/** Stub declaration of a Hono Context */
+interface HonoContextStub {
+  req: {
+    readonly raw: Request;
+    readonly url: string;
+    param(): Record<string, string>;
+  };
+
+  res: Response;
+}
+
+/** Stub declaration of a Hono Middleware */
+type HonoMiddlewareStub = (c: HonoContextStub, next: () => Promise<void>) => Promise<Response | void>;
+
+/** Stub declaration of a Hono app (or Hono router) */
+interface HonoStub {
+  use(path: string, ...middleware: HonoMiddlewareStub[]): unknown;
+}
+
+/*
+// Type checks
+
+import type { Hono, Context as HonoContext, MiddlewareHandler as HonoMiddleware } from 'https://deno.land/x/hono/mod.ts';
+
+declare const realCtx: HonoContext;
+declare const stubMiddleware: HonoMiddlewareStub;
+declare const realApp: Hono;
+
+declare let realMiddleware: HonoMiddleware;
+declare let stubCtx: HonoContextStub;
+declare let stubApp: HonoStub;
+
+realMiddleware = stubMiddleware;
+stubCtx = realCtx;
+stubApp = realApp;
+// */
+
+/**
+ * Map a Tiny Request Handler to a Hono Middleware. Unlike Oak, Tiny's `next` gives back
+ * the response from further down the chain, so that it can be modified.
+ *
+ * @param handler the Tiny Request Handler
+ * @returns a wrapped Hono Middleware
+ */
+export function mapHandlerToHono(handler: RouteHandler): HonoMiddlewareStub {
+  return async (c, next) => {
+
+    // Map the request to be compatible
+
+    const req = Object.assign(c.req.raw, {
+      stream: c.req.raw.body,
+      query: parseQuery(c.req.url),
+      params: c.req.param(),
+      context: { }
+    });
+
+    // Run the handler, going "next" whenever it does
+
+    return await handler(req, async () => {
+      await next();
+      return c.res;
+    });
+  };
+}
+
+/**
+ * Mount a Tiny Router onto the given Hono app. The Tiny Router does its own matching, so
+ * every request under the base is given to it, and then passed on if it is not handled.
+ *
+ * @param {TinyRouter} router The Tiny Router to mount
+ * @param {Hono} app The Hono app (or router) to mount to
+ * @param {string} base (optional) The Base URL to mount the router under
+ */
+export function appendRouterToHono(router: Router, app: HonoStub, base?: string): void {
+  base = base ?? '';
+
+  if(base)
+    base = '/' + base.replace(/^\/+|\/+$/g, '');
+
+  app.use(base ? base + '/*' : '*', async (c, next) => {
+    const req = Object.assign(c.req.raw, { stream: c.req.raw.body });
+
+    const res = await router.process(req, base);
+
+    if(!res)
+      return await next();
+
+    return res;
+  });
+}
+
+Deno.test(async function TestAppendRouterToHono() {
+  const mounted: { path: string; middleware: HonoMiddlewareStub }[] = [];
+  const app: HonoStub = { use: (path, middleware) => mounted.push({ path, middleware }) };
+
+  const router = new Router().get('/items/:id', req => new Response('item ' + req.params.id));
+  appendRouterToHono(router, app, '/api/');
+
+  assertEquals(mounted.map(m => m.path), ['/api/*']);
+
+  const request = async (url: string) => {
+    const c = { req: { raw: new Request(url), url, param: () => ({ }) }, res: new Response('from hono') };
+    // as hono does, if the middleware doesn't return a response
+    return await mounted[0].middleware(c, async () => { c.res = new Response('next'); }) ?? c.res;
+  };
+
+  assertEquals(await (await request('http://localhost/api/items/1')).text(), 'item 1');
+  // unhandled requests are passed on
+  assertEquals(await (await request('http://localhost/api/other')).text(), 'next');
+});
@@ -2,3 +2,7 @@ export * from './util.ts';
 export * from './types.ts';
 export * from './router.ts';
 export *  from './graphql.ts';
+export * from './validate.ts';
+export * from './cors.ts';
+export * from './compression.ts';
+export * from './openapi.ts';
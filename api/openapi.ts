@@ -0,0 +1,350 @@
+import { assertEquals } from '../deps/std.ts';
+
+import type { RequestStub, RouteMeta, Schema } from './types.ts';
+import { Router, describe, type RouteInfo } from './router.ts';
+
+/**
+ * An OpenAPI 3 parameter object
+ */
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: Schema;
+}
+
+/**
+ * An OpenAPI 3 operation object
+ */
+export interface OpenApiOperation {
+  summary?: string;
+  description?: string;
+  tags?: readonly string[];
+  deprecated?: boolean;
+
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    description?: string;
+    required: boolean;
+    content: Record<string, { schema?: Schema }>;
+  };
+  responses: Record<string, {
+    description: string;
+    content?: Record<string, { schema?: Schema }>;
+  }>;
+  security?: Record<string, string[]>[];
+  /** The permissions a session (other than a user's) needs */
+  'x-permissions'?: readonly string[];
+}
+
+/**
+ * An OpenAPI 3 document
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string }[];
+  paths: Record<string, Partial<Record<Lowercase<RouteInfo['type']>, OpenApiOperation>>>;
+  components: {
+    securitySchemes: Record<string, Record<string, string>>;
+  };
+}
+
+/**
+ * A part of a route, as parsed by `parseRoute`
+ */
+type RoutePart = { literal: string } | { name: string; regex?: string; optional: boolean; prefix: string };
+
+/**
+ * Parse a URLPattern pathname into literal and parameter parts. Only covers what
+ * our routes use (named and unnamed groups, custom regexes and modifiers).
+ *
+ * @param {string} route The route
+ * @returns {Array<RoutePart>} The parts of the route
+ */
+function parseRoute(route: string): RoutePart[] {
+  const parts: RoutePart[] = [];
+  let literal = '';
+  let unnamed = 0;
+
+  const pushParam = (name: string, regex: string | undefined, i: number): number => {
+    const modifier = route[i];
+    const optional = modifier === '?' || modifier === '*';
+
+    // URLPattern treats a `/` before a group as part of it
+    const prefix = literal.endsWith('/') ? '/' : '';
+    literal = literal.slice(0, literal.length - prefix.length);
+
+    if(literal)
+      parts.push({ literal });
+    literal = '';
+
+    parts.push({ name, regex, optional, prefix });
+
+    return modifier === '?' || modifier === '*' || modifier === '+' ? i + 1 : i;
+  };
+
+  const readRegex = (i: number): [string, number] => {
+    let depth = 0;
+    let regex = '';
+
+    for(; i < route.length; i++) {
+      const c = route[i];
+
+      if(c === '\\') {
+        regex += c + (route[++i] ?? '');
+        continue;
+      }
+
+      if(c === '(' && depth++ === 0)
+        continue;
+
+      if(c === ')' && --depth === 0)
+        return [regex, i + 1];
+
+      regex += c;
+    }
+
+    return [regex, i];
+  };
+
+  for(let i = 0; i < route.length;) {
+    const c = route[i];
+
+    if(c === '\\') {
+      literal += route[i + 1] ?? '';
+      i += 2;
+
+    } else if(c === ':') {
+      const name = /^[A-Za-z_$][\w$]*/.exec(route.slice(i + 1))?.[0] ?? '';
+      i += 1 + name.length;
+
+      let regex: string | undefined;
+      if(route[i] === '(')
+        [regex, i] = readRegex(i);
+
+      i = pushParam(name, regex, i);
+
+    } else if(c === '(') {
+      let regex: string;
+      [regex, i] = readRegex(i);
+      i = pushParam(String(unnamed++), regex, i);
+
+    } else if(c === '*') {
+      i = pushParam(String(unnamed++), '.*', i + 1);
+
+    } else if(c === '{' || c === '}') {
+      i++;
+
+    } else {
+      literal += c;
+      i++;
+    }
+  }
+
+  if(literal)
+    parts.push({ literal });
+
+  return parts;
+}
+
+/**
+ * Make the schema for a route parameter from its regex
+ * @param {string} regex The regex of the parameter
+ * @returns {Schema} The schema
+ */
+function paramSchema(regex?: string): Schema {
+  if(!regex)
+    return { type: 'string' };
+
+  if(regex === '.*' || regex === '.+')
+    return { type: 'string', description: 'May contain slashes.' };
+
+  if(/^[\w\-.~]+(\|[\w\-.~]+)*$/.test(regex))
+    return { type: 'string', enum: regex.split('|') };
+
+  return { type: 'string', pattern: `^(?:${regex})$` };
+}
+
+/**
+ * Convert a route to its OpenAPI path templates; optional parameters create
+ * a template with and without them.
+ *
+ * @param {string} route The route
+ * @returns {Array<{ path: string; params: Array<{ name: string; regex?: string }> }>} The path templates
+ */
+function convertRoute(route: string): { path: string; params: { name: string; regex?: string }[] }[] {
+  let variants: { path: string; params: { name: string; regex?: string }[] }[] = [{ path: '', params: [] }];
+
+  for(const part of parseRoute(route)) {
+    if('literal' in part) {
+      variants.forEach(v => v.path += part.literal);
+      continue;
+    }
+
+    const withParam = variants.map(v => ({
+      path: `${v.path}${part.prefix}{${part.name}}`,
+      params: [...v.params, { name: part.name, regex: part.regex }]
+    }));
+
+    variants = part.optional ? [...variants.map(v => ({ ...v, params: v.params.slice() })), ...withParam] : withParam;
+  }
+
+  return variants.map(v => ({ ...v, path: v.path || '/' }));
+}
+
+/**
+ * Make the security requirements for a route
+ * @param {RouteMeta['auth']} auth Whether or not the route requires authentication
+ * @returns {Array | undefined} The security requirements
+ */
+function makeSecurity(auth: RouteMeta['auth']): Record<string, string[]>[] | undefined {
+  if(!auth)
+    return undefined;
+
+  const security: Record<string, string[]>[] = [{ session: [] }, { sid: [] }];
+
+  return auth === 'optional' ? [{ }, ...security] : security;
+}
+
+/**
+ * Generate an OpenAPI 3 document from a Router (and its sub-routers), using the
+ * metadata given to routes via `describe`.
+ *
+ * @param {Router} router The router
+ * @param {{ title: string; version: string; description?: string }} info The info of the document
+ * @param {{ base?: string; servers?: string[] }} options (optional) the base url of the router, and the servers it runs on
+ * @returns {OpenApiDocument} The OpenAPI document
+ */
+export function generateOpenApi<R extends RequestStub>(router: Router<R>,
+  info: { title: string; version: string; description?: string },
+  options?: { base?: string; servers?: string[] }): OpenApiDocument {
+
+  const doc: OpenApiDocument = {
+    openapi: '3.0.3',
+    info: { ...info },
+    paths: { },
+    components: {
+      securitySchemes: {
+        session: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        sid: { type: 'apiKey', in: 'query', name: 'sid' }
+      }
+    }
+  };
+
+  if(options?.servers?.length)
+    doc.servers = options.servers.map(url => ({ url }));
+
+  for(const { route, type, meta } of router.routes(options?.base)) {
+    for(const { path, params } of convertRoute(route)) {
+      const method = type.toLowerCase() as Lowercase<RouteInfo['type']>;
+      const item = doc.paths[path] ??= { };
+
+      // the first route registered is the one that is documented
+      if(item[method])
+        continue;
+
+      const parameters: OpenApiParameter[] = params.map(p => ({
+        name: p.name,
+        in: 'path',
+        required: true,
+        schema: { ...paramSchema(p.regex), ...meta.params?.properties?.[p.name] }
+      }));
+
+      for(const [name, schema] of Object.entries(meta.query?.properties ?? { })) {
+        parameters.push({
+          name,
+          in: 'query',
+          required: Boolean(meta.query?.required?.includes(name)),
+          description: schema.description,
+          schema
+        });
+      }
+
+      const responses: OpenApiOperation['responses'] = { };
+
+      for(const [status, res] of Object.entries(meta.responses ?? { })) {
+        responses[status] = { description: res.description };
+
+        if(res.type || res.schema)
+          responses[status].content = { [res.type ?? 'application/json']: { schema: res.schema } };
+      }
+
+      if(!Object.keys(responses).length)
+        responses.default = { description: 'The response.' };
+
+      const operation: OpenApiOperation = {
+        summary: meta.summary,
+        description: meta.description,
+        tags: meta.tags,
+        deprecated: meta.deprecated,
+        parameters: parameters.length ? parameters : undefined,
+        requestBody: meta.body ? {
+          description: meta.body.description,
+          required: true,
+          content: { [meta.body.type ?? 'application/json']: { schema: meta.body.schema } }
+        } : undefined,
+        responses,
+        security: makeSecurity(meta.auth),
+        'x-permissions': meta.permissions
+      };
+
+      // strip the undefined values so the document is clean
+      for(const key of Object.keys(operation) as (keyof OpenApiOperation)[])
+        if(operation[key] === undefined)
+          delete operation[key];
+
+      item[method] = operation;
+    }
+  }
+
+  return doc;
+}
+
+export default generateOpenApi;
+
+Deno.test(function TestGenerateOpenApi() {
+  const ok = () => new Response();
+
+  const items = new Router()
+    .get('/:id(\\d+)', describe({ summary: 'Get an item', responses: { 200: { description: 'The item.', schema: { type: 'object' } } } }), ok)
+    .delete('/:id/:force?', ok);
+
+  const router = new Router()
+    .use(describe({ tags: ['Items'], auth: true }))
+    .use('/items', items)
+    .get('/search', describe({
+      auth: 'optional',
+      query: { type: 'object', properties: { q: { type: 'string' }, limit: { type: 'integer' } }, required: ['q'] }
+    }), ok)
+    .get('/files/:root(public|private)/:path(.*)', describe({ permissions: ['files:read'] }), ok);
+
+  const doc = generateOpenApi(router, { title: 'Test', version: '1.0.0' }, { servers: ['https://node.example'] });
+
+  assertEquals(doc.servers, [{ url: 'https://node.example' }]);
+  // optional parameters make a path with and without them
+  assertEquals(Object.keys(doc.paths), ['/items/{id}', '/items/{id}/{force}', '/search', '/files/{root}/{path}']);
+
+  assertEquals(doc.paths['/items/{id}']!.get, {
+    summary: 'Get an item',
+    tags: ['Items'],
+    parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string', pattern: '^(?:\\d+)$' } }],
+    responses: { 200: { description: 'The item.', content: { 'application/json': { schema: { type: 'object' } } } } },
+    security: [{ session: [] }, { sid: [] }]
+  });
+  assertEquals(doc.paths['/items/{id}']!.delete!.parameters!.map(p => p.name), ['id']);
+  assertEquals(doc.paths['/items/{id}/{force}']!.delete!.parameters!.map(p => p.name), ['id', 'force']);
+
+  assertEquals(doc.paths['/search']!.get!.parameters, [
+    { name: 'q', in: 'query', required: true, description: undefined, schema: { type: 'string' } },
+    { name: 'limit', in: 'query', required: false, description: undefined, schema: { type: 'integer' } }
+  ]);
+  assertEquals(doc.paths['/search']!.get!.security, [{ }, { session: [] }, { sid: [] }]);
+
+  assertEquals(doc.paths['/files/{root}/{path}']!.get!.parameters!.map(p => p.schema), [
+    { type: 'string', enum: ['public', 'private'] },
+    { type: 'string', description: 'May contain slashes.' }
+  ]);
+  assertEquals(doc.paths['/files/{root}/{path}']!.get!['x-permissions'], ['files:read']);
+});
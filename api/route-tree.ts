@@ -0,0 +1,115 @@
+/**
+ * A node in the route tree
+ */
+interface RouteTreeNode<T> {
+  /** The (compressed) static text this node adds onto its parent */
+  label: string;
+  /** The entries whose static prefix ends at this node */
+  entries: { index: number; value: T }[];
+  /** Child nodes, keyed by the first character of their label */
+  children: Map<string, RouteTreeNode<T>>;
+}
+
+/**
+ * Get the static (literal) prefix of a URLPattern pathname, stopping at the first
+ * character which could make it dynamic or which URLPattern would canonicalize differently.
+ *
+ * Every pathname the pattern matches is guaranteed to start with the returned string.
+ *
+ * @param {string} pattern The URLPattern pathname
+ * @returns {string} The static prefix
+ */
+export function staticPrefix(pattern: string): string {
+  const match = /^[\w\-.~!$&@,;=/]*/.exec(pattern)?.[0] ?? '';
+
+  // dot segments are resolved by the URL parser (and can climb), so don't trust anything
+  if(/\/\.\.?(?=\/|$)/.test(match))
+    return '';
+
+  return match;
+}
+
+/**
+ * A radix tree which stores values by static route prefixes, so that we can quickly
+ * find every value whose prefix a given pathname starts with (in insertion order).
+ */
+export class RouteTree<T> {
+
+  readonly #root: RouteTreeNode<T> = { label: '', entries: [], children: new Map() };
+  #count = 0;
+
+  /**
+   * Insert a value into the tree
+   * @param {string} prefix The static prefix of the value
+   * @param {T} value The value
+   * @returns {this} this
+   */
+  insert(prefix: string, value: T): this {
+    const entry = { index: this.#count++, value };
+
+    let node = this.#root;
+    let rest = prefix;
+
+    while(rest) {
+      const child = node.children.get(rest[0]);
+
+      if(!child) {
+        const leaf: RouteTreeNode<T> = { label: rest, entries: [], children: new Map() };
+        node.children.set(rest[0], leaf);
+        node = leaf;
+        break;
+      }
+
+      // find how much of the label we share
+      let i = 1;
+      while(i < child.label.length && i < rest.length && child.label[i] === rest[i])
+        i++;
+
+      // split the child if we only share part of it
+      if(i < child.label.length) {
+        const split: RouteTreeNode<T> = { label: child.label.slice(0, i), entries: [], children: new Map() };
+
+        child.label = child.label.slice(i);
+        split.children.set(child.label[0], child);
+        node.children.set(split.label[0], split);
+
+        node = split;
+      } else
+        node = child;
+
+      rest = rest.slice(i);
+    }
+
+    node.entries.push(entry);
+
+    return this;
+  }
+
+  /**
+   * Find every value whose prefix the given path starts with
+   * @param {string} path The (canonicalized) pathname
+   * @returns {Array<T>} The values, in the order they were inserted
+   */
+  match(path: string): T[] {
+    const found = this.#root.entries.slice();
+
+    let node = this.#root;
+    let rest = path;
+
+    while(rest) {
+      const child = node.children.get(rest[0]);
+
+      if(!child || !rest.startsWith(child.label))
+        break;
+
+      found.push(...child.entries);
+
+      node = child;
+      rest = rest.slice(child.label.length);
+    }
+
+    return found.sort((a, b) => a.index - b.index).map(e => e.value);
+  }
+}
+
+export default RouteTree;
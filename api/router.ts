@@ -1,5 +1,6 @@
-import { SlimRequestStub, RequestStub, RouteHandler } from './types.ts';
-import { parseQuery, parseParams } from './util.ts';
+import { SlimRequestStub, RequestStub, RouteHandler, RouteMeta } from './types.ts';
+import { parseQuery, compileParams } from './util.ts';
+import { RouteTree, staticPrefix } from './route-tree.ts';
 
 /**
  * A step on the path of the router
@@ -11,6 +12,126 @@ interface RouteStep<Req extends RequestStub = RequestStub> {
   type?: 'HEAD' | 'OPTIONS' | 'GET' | 'POST' | 'PUT' | 'DELETE';
   /** The route handler (or router) */
   handler: Router<Req> | RouteHandler<Req>;
+  /** Metadata describing the step, if any was given via `describe` */
+  meta?: RouteMeta;
+}
+
+/**
+ * A route of the router (or one of its sub-routers), flattened for introspection
+ */
+export interface RouteInfo {
+  /** The full route (pathname) */
+  route: string;
+  /** The request method */
+  type: NonNullable<RouteStep['type']>;
+  /** The metadata of the route, merged with that of any `use` steps it is under */
+  meta: RouteMeta;
+}
+
+/** The metadata of handlers made via `describe` or `annotate` */
+const metas = new WeakMap<RouteHandler<never>, RouteMeta>();
+/** The pass-through handlers made via `describe`, which never need to be called */
+const passThroughs = new WeakSet<RouteHandler<never>>();
+/** The responses given to the end of the chain by `Router.process`, for when nothing handles the request */
+const unhandled = new WeakSet<Response>();
+
+/**
+ * Merge route metadata together, with the latter taking precedence (except for tags and permissions, which are combined)
+ * @param {Array<RouteMeta | undefined>} list The metadata to merge
+ * @returns {RouteMeta} The merged metadata
+ */
+function mergeMeta(...list: (RouteMeta | undefined)[]): RouteMeta {
+  const ret: RouteMeta = { };
+
+  for(const meta of list) {
+    if(!meta)
+      continue;
+
+    const { tags, permissions } = ret;
+    Object.assign(ret, meta);
+
+    if(tags && meta.tags)
+      ret.tags = Array.from(new Set([...tags, ...meta.tags]));
+    else
+      ret.tags = meta.tags ?? tags;
+
+    if(permissions && meta.permissions)
+      ret.permissions = Array.from(new Set([...permissions, ...meta.permissions]));
+    else
+      ret.permissions = meta.permissions ?? permissions;
+  }
+
+  if(!ret.tags)
+    delete ret.tags;
+  if(!ret.permissions)
+    delete ret.permissions;
+
+  return ret;
+}
+
+/**
+ * Make a pass-through handler which describes the route it is given to, for introspection.
+ *
+ * @example
+ * ```typescript
+ * router.post('/login', describe({ summary: 'Login', body: { schema: loginSchema } }), req => ...);
+ * ```
+ * @param {RouteMeta} meta The metadata
+ * @returns {RouteHandler} A handler which just calls `next()`
+ */
+export function describe<R extends RequestStub = RequestStub>(meta: RouteMeta): RouteHandler<R> {
+  const handler: RouteHandler<R> = (_, next) => next();
+  metas.set(handler, meta);
+  passThroughs.add(handler);
+
+  return handler;
+}
+
+/**
+ * Attach metadata to an existing handler, so that the route it is given to is described
+ * by it (e.x. a validation middleware describing the body it expects).
+ *
+ * @param {RouteHandler} handler The handler
+ * @param {RouteMeta} meta The metadata
+ * @returns {RouteHandler} The same handler
+ */
+export function annotate<H extends RouteHandler<never>>(handler: H, meta: RouteMeta): H {
+  metas.set(handler, meta);
+
+  return handler;
+}
+
+/**
+ * Get the metadata of a handler made via `describe` or `annotate`
+ * @param {RouteHandler} handler The handler
+ * @returns {RouteMeta | undefined} The metadata, if it has any
+ */
+export function getMeta<R extends RequestStub = RequestStub>(handler: RouteHandler<R>): RouteMeta | undefined {
+  return metas.get(handler);
+}
+
+/**
+ * Check whether a response is the one given to the end of the chain by `Router.process`, i.e.
+ * nothing handled the request (yet), and the router will give back undefined
+ * @param {Response} res The response
+ * @returns {boolean} Whether or not it is unhandled
+ */
+export function isUnhandled(res: Response): boolean {
+  return unhandled.has(res);
+}
+
+/**
+ * A step which has been compiled against a base url, ready to be matched
+ */
+interface CompiledStep<Req extends RequestStub = RequestStub> {
+  /** The full route (base + route) */
+  route: string;
+  /** What request method to limit to; empty for USE */
+  type?: RouteStep['type'];
+  /** Test whether or not the step matches the request url */
+  test: (url: string) => boolean;
+  /** The sub-router, or the route handler (wrapped to parse params) */
+  handler: Router<Req> | RouteHandler<Req>;
 }
 
 export class Router<Req extends RequestStub = RequestStub> {
@@ -20,6 +141,12 @@ export class Router<Req extends RequestStub = RequestStub> {
    */// deno-lint-ignore no-explicit-any
   readonly #steps: RouteStep<any>[] = [];
 
+  /**
+   * The compiled steps for every base url we have been asked to match against;
+   * cleared whenever the steps change
+   */// deno-lint-ignore no-explicit-any
+  readonly #compiled = new Map<string, RouteTree<CompiledStep<any>>>();
+
   /**
    * Condense many RouterHandlers into one (chaining via `next()`)
    * @param {readonly RouteHandler[]} handlers The handlers to condense
@@ -48,6 +175,43 @@ export class Router<Req extends RequestStub = RequestStub> {
     return this.#steps.map((v) => callbackfn(v));
   }
 
+  /**
+   * Flatten the routes of the router (and its sub-routers) for introspection. The metadata
+   * of `use` steps (e.x. `router.use('/sessions', describe({ auth: true }))`) is merged into
+   * every route after and under them.
+   *
+   * @param {string?} base The base url to append to the routes
+   * @returns {Array<RouteInfo>} The routes
+   */
+  routes(base = ''): RouteInfo[] {
+    return this.#routes(base, []);
+  }
+
+  #routes(base: string, inherited: readonly { route: string; meta: RouteMeta }[]): RouteInfo[] {
+    // enforce `/{route}` with no trailing `/`'s
+    if(base)
+      base = '/' + base.replace(/^\/+|\/+$/g, '');
+
+    const uses = inherited.slice();
+    const ret: RouteInfo[] = [];
+
+    for(const step of this.#steps) {
+      const route = (base + step.route).replace(/\/+$/g, '');
+
+      if(step.handler instanceof Router)
+        ret.push(...step.handler.#routes(route, uses));
+      else if(!step.type) {
+        if(step.meta)
+          uses.push({ route, meta: step.meta });
+      } else {
+        const meta = mergeMeta(...uses.filter(u => (route || '/').startsWith(u.route || '/')).map(u => u.meta), step.meta);
+        ret.push({ route: route || '/', type: step.type, meta });
+      }
+    }
+
+    return ret;
+  }
+
   /**
    * Use a route handler or a router for a particular route, regardless of the request method
    * @param {string} route The route to use the handler/router on
@@ -72,10 +236,13 @@ export class Router<Req extends RequestStub = RequestStub> {
     for(const handler of handlers) {
       this.#steps.push({
         route,
-        handler
+        handler,
+        meta: handler instanceof Router ? undefined : metas.get(handler)
       });
     }
 
+    this.#compiled.clear();
+
     return this;
   }
 
@@ -90,11 +257,17 @@ export class Router<Req extends RequestStub = RequestStub> {
     // enforce `/{route}` with no trailing `/`'s
     route = '/' + route.replace(/^\/+|\/+$/g, '');
 
+    const described = handlers.filter(h => metas.has(h));
+
     this.#steps.push({
       route,
       type,
-      handler: this.#condense(handlers)
+      // no need to call the pass-through handlers
+      handler: this.#condense(handlers.filter(h => !passThroughs.has(h))),
+      meta: described.length ? mergeMeta(...described.map(h => metas.get(h))) : undefined
     });
+
+    this.#compiled.clear();
   }
 
   /**
@@ -176,39 +349,110 @@ export class Router<Req extends RequestStub = RequestStub> {
   }
 
   /**
-   * Match a route to the request url
-   * @param {string} url The request url
+   * Make a function to match a route to the request url. The URLPattern is created lazily
+   * and then kept, so it is only built once per route.
    * @param {string} route The route
-   * @param {string?} type The route type -- if undefined (for USE), it also matches any sub-routes
-   * @returns {boolean} Whether or not it matches
+   * @param {boolean} matchExtra Whether or not to also match any sub-routes (for USE)
+   * @returns {(url: string) => boolean} The matching function
    */
-  #matchRoute(url: string, route: string, matchExtra?: boolean): boolean {
-    let pattern = new URLPattern({ pathname: route });
-    let test = pattern.test(url);
+  #compileMatcher(route: string, matchExtra?: boolean): (url: string) => boolean {
+    let pattern: URLPattern | undefined;
+    let extraPattern: URLPattern | undefined;
+
+    return url => {
+      pattern ??= new URLPattern({ pathname: route });
 
-    if(!matchExtra || test)
-      return test;
+      if(pattern.test(url))
+        return true;
 
-    pattern = new URLPattern({ pathname: route + '(.*)' });
-    test = pattern.test(url);
+      if(!matchExtra)
+        return false;
 
-    return test;
+      extraPattern ??= new URLPattern({ pathname: route + '(.*)' });
+
+      return extraPattern.test(url);
+    };
   }
 
   /**
-   * Find a path through the step list
+   * Compile the step list against a base url into a route tree, or get the cached one
+   * @param {string} base The (normalized) base url to append to the routes
+   * @returns {RouteTree} The compiled steps, indexed by their static prefix
+   */
+  #compile<R extends Req = Req>(base: string): RouteTree<CompiledStep<R>> {
+    let tree = this.#compiled.get(base);
+    if(tree)
+      return tree;
+
+    tree = new RouteTree<CompiledStep<R>>();
+
+    for(const step of this.#steps) {
+      // append the base to the route and remove any trailing `/`'s for the proper route to match against
+      const route = (base + step.route).replace(/\/+$/g, '');
+      const handler = step.handler;
+
+      const compiled: CompiledStep<R> = { type: step.type, route, test: this.#compileMatcher(route, !step.type), handler };
+
+      if(!(handler instanceof Router)) {
+        let params: ((url: string) => Record<string, string>) | undefined;
+        const type = step.type;
+
+        compiled.handler = (req, next) => {
+          // match the route params for utility reasons
+          req.params = (params ??= compileParams(route))(req.url);
+
+          if(type)
+            req.route = route || '/';
+
+          return handler(req, next);
+        };
+      }
+
+      tree.insert(staticPrefix(route), compiled);
+    }
+
+    this.#compiled.set(base, tree);
+
+    return tree;
+  }
+
+  /**
+   * Walk through the compiled step list, adding the matching handlers to the path
    * @param {Request} req The request
-   * @param {string?} base The base url to append to the routes we are matching; used for sub-routers
-   * @returns {Array<RouteHandler>} The path through the step list -- should be iterated through to process
+   * @param {string} pathname The (parsed) pathname of the request url
+   * @param {string} base The base url to append to the routes we are matching
+   * @param {boolean} matchType Whether or not to match the request method
+   * @param {Array} path The path to add to
    */
-  #pathfind<R extends Req = Req>(req: Partial<R> & SlimRequestStub, options?: { base?: string; matchType?: boolean }): { type: RouteStep['type']; route: string; handler: RouteHandler<R> }[] {
-    let base = options?.base ?? '';
-    const matchType = options?.matchType !== false;
+  #walk<R extends Req = Req>(req: Partial<R> & SlimRequestStub,
+    pathname: string,
+    base: string,
+    matchType: boolean,
+    path: { type: RouteStep['type']; route: string; handler: RouteHandler<R> }[]): void {
 
     // enforce `/{route}` with no trailing `/`'s
     if(base)
       base = '/' + base.replace(/^\/+|\/+$/g, '');
 
+    for(const step of this.#compile<R>(base).match(pathname)) {
+      if( (matchType && step.type && req.method !== step.type) ||
+          !step.test(req.url) )
+        continue;
+
+      if(step.handler instanceof Router)
+        (step.handler as Router<R>).#walk(req, pathname, step.route, matchType, path);
+      else
+        path.push({ type: step.type, route: step.route, handler: step.handler });
+    }
+  }
+
+  /**
+   * Find a path through the step list
+   * @param {Request} req The request
+   * @param {string?} base The base url to append to the routes we are matching; used for sub-routers
+   * @returns {Array<RouteHandler>} The path through the step list -- should be iterated through to process
+   */
+  #pathfind<R extends Req = Req>(req: Partial<R> & SlimRequestStub, options?: { base?: string; matchType?: boolean }): { type: RouteStep['type']; route: string; handler: RouteHandler<R> }[] {
     const path: {
       // for options checking
       type: RouteStep['type'];
@@ -217,35 +461,24 @@ export class Router<Req extends RequestStub = RequestStub> {
       handler: RouteHandler<R>
     }[] = [];
 
-    for(const step of this.#steps) {
-      // append the base to the route and remove any trailing `/`'s for the proper route to match against
-      const route = (base + step.route).replace(/\/+$/g, '');
-
-      if( (matchType && step.type && req.method !== step.type) ||
-          !this.#matchRoute(req.url, route, !step.type) )
-        continue;
-
-      // move the handler into a variable in case it changes while it is being processed
-      const handler = step.handler;
+    let pathname: string;
 
-      if(handler instanceof Router)
-        path.push(...(handler as Router<R>).#pathfind(req, { base: route, matchType }));
-      else {
-        path.push({ type: step.type, route, handler: (req, next) => {
-          // match the route params for utility reasons
-          req.params = parseParams(route, req.url);
-          return handler(req, next);
-        } });
-      }
+    try {
+      pathname = new URL(req.url).pathname;
+    } catch {
+      // URLPattern can't match what it can't parse either
+      return path;
     }
 
+    this.#walk(req, pathname, options?.base ?? '', options?.matchType !== false, path);
+
     return path;
   }
 
   /**
    * Process a request.
    *
-   * **Note:** `req` is modified to add `query` and `params` onto it during processing,
+   * **Note:** `req` is modified to add `query`, `params` and `route` onto it during processing,
    * and then reset after. If these are functions, it could go awry if you just assume things.
    *
    * @param {Request} req The request
@@ -265,6 +498,7 @@ export class Router<Req extends RequestStub = RequestStub> {
     const query = req.query;
     const params = req.params;
     const context = req.context;
+    const route = req.route;
 
     // generate the query object for utility reasons
     req.query = parseQuery(req.url);
@@ -272,6 +506,7 @@ export class Router<Req extends RequestStub = RequestStub> {
 
     // used to check if the chain never finished and we got "ghosted"
     const nextResponse = new Response();
+    unhandled.add(nextResponse);
 
     const res = await this.#condense(path.map(p => p.handler))(req as R, () => nextResponse);
 
@@ -280,6 +515,7 @@ export class Router<Req extends RequestStub = RequestStub> {
     req.query = query;
     req.params = params;
     req.context = context;
+    req.route = route;
 
     if(!res || res === nextResponse)
       return undefined;
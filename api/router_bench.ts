@@ -0,0 +1,85 @@
+import { text } from './util.ts';
+import Router from './router.ts';
+import { legacyPathfind } from './router_test.ts';
+
+import type AuthDb from '../auth/auth-db.ts';
+import AuthApi from '../auth/auth-api.ts';
+import CoreApi from '../auth/core-api.ts';
+import type TinyDb from '../db/tiny-db.ts';
+import TinyDbApi from '../db/tiny-db-api.ts';
+import type FileDb from '../file/file-db.ts';
+import type FileStore from '../common/file-store.ts';
+import FileApi from '../file/file-api.ts';
+import type KeyValueStore from '../common/key-value-store.ts';
+import WebFingerApi from '../extensions/web-finger/web-finger-api.ts';
+
+/**
+ * Make a router about the size of a Home node, with every core Api mounted.
+ */
+// deno-lint-ignore no-explicit-any
+function makeHomeRouter(): Router<any> {
+  // deno-lint-ignore no-explicit-any
+  const router = new Router<any>();
+
+  // the apis don't touch their databases until they handle a request
+  new CoreApi({ } as AuthDb, 'home').compile(router);
+  router.use('/auth', new AuthApi({ } as AuthDb).compile());
+  router.use('/:context/:identifier/db', new TinyDbApi({ } as TinyDb).compile());
+  router.use('/:context/:identifier/files', new FileApi({ } as FileDb, { } as FileStore).compile());
+  router.use(new WebFingerApi({ } as KeyValueStore, () => Promise.resolve(null), (_, next) => next()).compile());
+
+  for(let i = 0; i < 50; i++) {
+    const ext = new Router();
+
+    ext.get('/items', () => text('items'));
+    ext.get('/items/:id', () => text('item'));
+    ext.put('/items/:id', () => text('item'));
+    ext.delete('/items/:id', () => text('item'));
+
+    router.use(`/extension-${i}`, ext);
+  }
+
+  router.get('/:path(.*)', () => text('frontend'));
+
+  return router;
+}
+
+const homeUrls = [
+  ['GET', 'http://localhost/type'],
+  ['POST', 'http://localhost/auth/login'],
+  ['GET', 'http://localhost/auth/handshake/abc/approve'],
+  ['DELETE', 'http://localhost/auth/sessions/123'],
+  ['GET', 'http://localhost/user/bob/files/public/some/deep/file.json?sid=abc'],
+  ['PUT', 'http://localhost/cool.app/bob/db/key-value/store/foo'],
+  ['POST', 'http://localhost/~/~/db/dynamic/graphql'],
+  ['GET', 'http://localhost/.well-known/webfinger?resource=acct:bob@localhost'],
+  ['GET', 'http://localhost/extension-42/items/7'],
+  ['GET', 'http://localhost/some/frontend/page'],
+] as const;
+
+Deno.bench({
+  name: 'Router (compiled)',
+  group: 'home-router',
+  baseline: true,
+  fn: (() => {
+    const router = makeHomeRouter();
+
+    return () => {
+      for(const [method, url] of homeUrls)
+        router.parseOptions({ method, url });
+    };
+  })()
+});
+
+Deno.bench({
+  name: 'Router (legacy)',
+  group: 'home-router',
+  fn: (() => {
+    const router = makeHomeRouter();
+
+    return () => {
+      for(const [method, url] of homeUrls)
+        legacyPathfind(router, { method, url }, '', false);
+    };
+  })()
+});
@@ -0,0 +1,120 @@
+import { assertEquals } from '../deps/std.ts';
+
+import type { RequestStub, RouteHandler, SlimRequestStub } from './types.ts';
+import Router from './router.ts';
+
+/**
+ * The previous (uncompiled) path-finding implementation of the Router, kept
+ * to compare against.
+ */
+export function legacyPathfind(router: Router, req: SlimRequestStub, base = '', matchType = true): { type?: string; route: string; handler: RouteHandler }[] {
+  if(base)
+    base = '/' + base.replace(/^\/+|\/+$/g, '');
+
+  const matchRoute = (url: string, route: string, matchExtra?: boolean): boolean => {
+    const test = new URLPattern({ pathname: route }).test(url);
+
+    if(!matchExtra || test)
+      return test;
+
+    return new URLPattern({ pathname: route + '(.*)' }).test(url);
+  };
+
+  const path: { type?: string; route: string; handler: RouteHandler }[] = [];
+
+  router.map(step => {
+    const route = (base + step.route).replace(/\/+$/g, '');
+
+    if( (matchType && step.type && req.method !== step.type) ||
+        !matchRoute(req.url, route, !step.type) )
+      return;
+
+    if(step.handler instanceof Router)
+      path.push(...legacyPathfind(step.handler, req, route, matchType));
+    else
+      path.push({ type: step.type, route, handler: step.handler });
+  });
+
+  return path;
+}
+
+Deno.test({
+  name: 'Router path-finding matches the legacy implementation',
+  async fn(): Promise<void> {
+    const seen: string[] = [];
+
+    // each handler records itself and passes through
+    const record = (label: string): RouteHandler => (_, next) => { seen.push(label); return next(); };
+
+    const sub = new Router()
+      .use(record('sub use'))
+      .get('', record('sub get root'))
+      .get('/:id(\\d+)', record('sub get numeric'))
+      .get('/:id', record('sub get id'))
+      .post('/:id/:action?', record('sub post action'));
+
+    const router = new Router()
+      .use(record('root use'))
+      .use('/auth', record('use /auth'))
+      .get('/auth/login/', record('get /auth/login'))
+      .use('/items', sub)
+      .use('/:context/:identifier/files', new Router().get('/:root(public|private)/:path(.*)', record('get file')))
+      .get('/.well-known/webfinger', record('get webfinger'))
+      .get('/a/../b', record('get dot segments'))
+      .get('/:path(.*)', record('get catch-all'));
+
+    const urls = [
+      ['GET', 'http://localhost/'],
+      ['GET', 'http://localhost/auth'],
+      ['GET', 'http://localhost/authx'],
+      ['GET', 'http://localhost/auth/login'],
+      ['GET', 'http://localhost/auth/login/'],
+      ['POST', 'http://localhost/auth/login'],
+      ['GET', 'http://localhost/items'],
+      ['GET', 'http://localhost/items/'],
+      ['GET', 'http://localhost/items/42'],
+      ['GET', 'http://localhost/items/abc'],
+      ['POST', 'http://localhost/items/abc'],
+      ['POST', 'http://localhost/items/abc/star?x=1'],
+      ['GET', 'http://localhost/itemsx/abc'],
+      ['GET', 'http://localhost/user/bob/files/public/a/b.json'],
+      ['GET', 'http://localhost/user/bob/files/secret/a/b.json'],
+      ['GET', 'http://localhost/.well-known/webfinger?resource=a'],
+      ['GET', 'http://localhost/b'],
+      ['GET', 'http://localhost/%61uth/login'],
+      ['GET', 'not a url'],
+    ] as const;
+
+    for(const [method, url] of urls) {
+      const req = { method, url } as RequestStub;
+
+      seen.length = 0;
+      await router.process(req);
+      const current = seen.slice();
+
+      seen.length = 0;
+      for(const step of legacyPathfind(router, req))
+        await step.handler(req, () => new Response());
+      const legacy = seen.slice();
+
+      assertEquals(current, legacy, `${method} ${url}`);
+      assertEquals(router.parseOptions(req), {
+        methods: Array.from(new Set([...legacyPathfind(router, req, '', false).map(p => p.type).filter(Boolean), 'OPTIONS'])).join(', ')
+      }, `OPTIONS ${url}`);
+    }
+
+    // the cache is invalidated when steps are added
+    router.get('/late', record('get late'));
+
+    seen.length = 0;
+    await router.process({ method: 'GET', url: 'http://localhost/late' } as RequestStub);
+    assertEquals(seen, ['root use', 'get catch-all', 'get late']);
+
+    // as well as when sub-routers are changed
+    sub.get('/late/route', record('sub get late'));
+
+    seen.length = 0;
+    await router.process({ method: 'GET', url: 'http://localhost/items/late/route' } as RequestStub);
+    assertEquals(seen, ['root use', 'sub use', 'sub get late', 'get catch-all']);
+  }
+});
@@ -24,6 +24,8 @@ export interface RequestStub<Context = Record<string, unknown>> extends SlimRequ
   params: Record<string, string | undefined>;
   /** Generated via URLSearchParams */
   query: Record<string, string | undefined>;
+  /** The route (pattern) of the last method handler reached, e.x. `/sessions/:id` */
+  route?: string;
 
   // UTILITY
 
@@ -37,3 +39,58 @@ export type RouteHandler<Req extends RequestStub = RequestStub> = (req: Req, nex
 /** A route handler or middleware. Can `await` or just return `next` to continue along the chain, but should otherwise return a Response. */
 export type SlimRouteHandler<Req extends { readonly url: string; readonly method: string; }> = (req: Req, next: () => Promise<Response> | Response) => Promise<Response> | Response;
 
+
+/**
+ * A (subset of a) JSON Schema, as used by OpenAPI 3.
+ */
+export interface Schema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  description?: string;
+  /** Only allow these values */
+  enum?: readonly unknown[];
+  /** A regular expression the (string) value must match */
+  pattern?: string;
+  format?: string;
+  nullable?: boolean;
+
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+
+  /** The schema of each item, if an array */
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+
+  /** The schema of each property, if an object */
+  properties?: Record<string, Schema>;
+  /** The required properties, if an object */
+  required?: readonly string[];
+  additionalProperties?: boolean | Schema;
+}
+
+/**
+ * Metadata describing a route, used for introspection (e.x. generating OpenAPI documents).
+ */
+export interface RouteMeta {
+  summary?: string;
+  description?: string;
+  /** Used to group routes together */
+  tags?: readonly string[];
+  deprecated?: boolean;
+
+  /** Whether or not the route requires an authenticated session, or `'optional'` if it can use one */
+  auth?: boolean | 'optional';
+  /** The permissions a session (other than a user's) needs to use the route, e.x. `files:write` */
+  permissions?: readonly string[];
+
+  /** An object schema describing the route parameters */
+  params?: Schema;
+  /** An object schema describing the query */
+  query?: Schema;
+  /** The request body */
+  body?: { type?: string; description?: string; schema?: Schema };
+  /** The possible responses, by status code */
+  responses?: Record<number, { description: string; type?: string; schema?: Schema }>;
+}
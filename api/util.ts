@@ -21,10 +21,64 @@ export function parseQuery(url: string): Record<string, string> {
  * @returns An object with the parameters from the URL
  */
 export function parseParams(route: string, url: string): Record<string, string> {
-  const params = (new URLPattern({ pathname: route + '/:tiny_else(.*)?' })).exec(url)?.pathname?.groups ?? { };
-  delete params.tiny_else;
+  return compileParams(route)(url);
+}
+
+/**
+ * Compile a URL parameter parser for the given route, so the URLPattern is only created once.
+ * The same caveats as `parseParams` apply.
+ *
+ * @param route The route to use as the template
+ * @returns A function which parses the parameters from a URL
+ */
+export function compileParams(route: string): (url: string) => Record<string, string> {
+  const pattern = new URLPattern({ pathname: route + '/:tiny_else(.*)?' });
+
+  return url => {
+    const params = pattern.exec(url)?.pathname?.groups ?? { };
+    delete params.tiny_else;
+
+    return params;
+  };
+}
+
+/**
+ * Pick the best of the given media types for an `Accept` header (or the like, e.x. `Accept-Encoding`).
+ * Ties go to the type given first, and so does a missing or empty header.
+ *
+ * @param accept The header
+ * @param types The types we can provide, in order of our preference
+ * @returns The best type, or undefined if none are acceptable
+ */
+export function negotiate(accept: string | null | undefined, types: readonly string[]): string | undefined {
+  if(!accept?.trim())
+    return types[0];
+
+  const ranges = accept.split(',').map(part => {
+    const [range, ...params] = part.split(';').map(p => p.trim().toLowerCase());
+    const q = Number(params.find(p => p.startsWith('q='))?.slice(2) ?? 1);
 
-  return params;
+    return { range, q: isNaN(q) ? 1 : q };
+  });
+
+  let best: string | undefined;
+  let bestQ = 0;
+
+  for(const type of types) {
+    const lower = type.toLowerCase();
+
+    // the most specific range wins
+    const match = ranges.find(r => r.range === lower)
+      ?? ranges.find(r => r.range.endsWith('/*') && lower.startsWith(r.range.slice(0, -1)))
+      ?? ranges.find(r => r.range === '*/*' || r.range === '*');
+
+    if(match && match.q > bestQ) {
+      best = type;
+      bestQ = match.q;
+    }
+  }
+
+  return best;
 }
 
 // # Responses
@@ -75,6 +129,27 @@ export function json(body: unknown, init: ResponseInit = { }): Response {
   return new Response(bod, init);
 }
 
+/**
+ * Create an RFC 7807 `application/problem+json` response.
+ * @param {object} body The problem details; `status` is also used as the response status
+ * @param {ResponseInit} init Response options
+ * @returns {Response} The response
+ */
+export function problem(body: {
+  type?: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [key: string]: unknown;
+}, init: ResponseInit = { }): Response {
+  return json({ type: 'about:blank', ...body }, {
+    ...init,
+    headers: { 'Content-Type': 'application/problem+json', ...init.headers },
+    status: init.status ?? body.status
+  });
+}
+
 /**
  * Create a 204 "No Content" response with no body.
  * @param {ResponseInit} init Response options
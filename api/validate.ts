@@ -0,0 +1,186 @@
+import { assertEquals } from '../deps/std.ts';
+
+import type { Schema } from './types.ts';
+
+/**
+ * Get the JSON Schema type of a value
+ * @param {unknown} value The value
+ * @returns {string} The type
+ */
+function typeOf(value: unknown): string {
+  if(value === null)
+    return 'null';
+
+  if(value instanceof Array)
+    return 'array';
+
+  if(typeof value === 'number')
+    return Number.isInteger(value) ? 'integer' : 'number';
+
+  return typeof value;
+}
+
+/**
+ * Parse a string as the given type, for values which can only ever be strings (queries and route parameters)
+ * @param {string} value The value
+ * @param {Schema['type']} type The type to parse as
+ * @returns {unknown} The parsed value, or the same string if it could not be parsed
+ */
+function parseString(value: string, type: Schema['type']): unknown {
+  switch(type) {
+    case 'number':
+    case 'integer':
+      return value.trim() && !isNaN(Number(value)) ? Number(value) : value;
+
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parse the strings in a value as the types the schema gives them, for values which can only ever be strings
+ * (queries and forms); strings which can't be parsed are left as they are, for validation to catch
+ * @param {Schema} schema The schema to parse with
+ * @param {unknown} value The value
+ * @returns {unknown} The parsed value (a copy, if it is an object or array)
+ */
+export function parseStrings(schema: Schema, value: unknown): unknown {
+  if(typeof value === 'string')
+    return parseString(value, schema.type);
+
+  if(value instanceof Array)
+    return schema.items ? value.map(v => parseStrings(schema.items!, v)) : value;
+
+  if(value && typeof value === 'object') {
+    const additional = typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined;
+
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => {
+      const prop = schema.properties?.[key] ?? additional;
+      return [key, prop ? parseStrings(prop, v) : v];
+    }));
+  }
+
+  return value;
+}
+
+/**
+ * Validate a value against a schema, collecting every issue instead of stopping at the first.
+ * Required properties must also not be empty (`null` or `''`).
+ *
+ * @param {Schema} schema The schema to validate against
+ * @param {unknown} value The value to validate
+ * @param {string} path (optional) The path of the value, to prefix the issues with
+ * @param {boolean} strings (optional) Whether the values can only be strings (e.x. queries), in which
+ * case numbers and booleans are parsed before being checked
+ * @returns {Array<string>} The issues found, if any (e.x. `body.username is required`)
+ */
+export function validateSchema(schema: Schema, value: unknown, path = 'value', strings = false): string[] {
+  if(value === undefined)
+    return [];
+
+  if(value === null)
+    return schema.nullable || !schema.type ? [] : [`${path} must not be null`];
+
+  if(strings && typeof value === 'string')
+    value = parseString(value, schema.type);
+
+  const type = typeOf(value);
+
+  if(schema.type && schema.type !== type && !(schema.type === 'number' && type === 'integer'))
+    return [`${path} must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}`];
+
+  if(schema.enum && !schema.enum.includes(value))
+    return [`${path} must be one of: ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`];
+
+  const issues: string[] = [];
+
+  if(typeof value === 'string') {
+    if(schema.minLength != null && value.length < schema.minLength)
+      issues.push(`${path} must be at least ${schema.minLength} characters`);
+
+    if(schema.maxLength != null && value.length > schema.maxLength)
+      issues.push(`${path} must be at most ${schema.maxLength} characters`);
+
+    if(schema.pattern && !new RegExp(schema.pattern).test(value))
+      issues.push(`${path} must match ${schema.pattern}`);
+
+  } else if(typeof value === 'number') {
+    if(schema.minimum != null && value < schema.minimum)
+      issues.push(`${path} must be at least ${schema.minimum}`);
+
+    if(schema.maximum != null && value > schema.maximum)
+      issues.push(`${path} must be at most ${schema.maximum}`);
+
+  } else if(value instanceof Array) {
+    if(schema.minItems != null && value.length < schema.minItems)
+      issues.push(`${path} must have at least ${schema.minItems} items`);
+
+    if(schema.maxItems != null && value.length > schema.maxItems)
+      issues.push(`${path} must have at most ${schema.maxItems} items`);
+
+    if(schema.items)
+      value.forEach((v, i) => issues.push(...validateSchema(schema.items!, v, `${path}[${i}]`, strings)));
+
+  } else if(typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+
+    const missing = (schema.required ?? []).filter(key => obj[key] === undefined || obj[key] === null || obj[key] === '');
+    issues.push(...missing.map(key => `${path}.${key} is required`));
+
+    for(const [key, v] of Object.entries(obj)) {
+      if(missing.includes(key))
+        continue;
+
+      const prop = schema.properties?.[key];
+
+      if(prop)
+        issues.push(...validateSchema(prop, v, `${path}.${key}`, strings));
+      else if(schema.additionalProperties === false)
+        issues.push(`${path}.${key} is not allowed`);
+      else if(typeof schema.additionalProperties === 'object')
+        issues.push(...validateSchema(schema.additionalProperties, v, `${path}.${key}`, strings));
+    }
+  }
+
+  return issues;
+}
+
+export default validateSchema;
+
+Deno.test(function TestValidateSchema() {
+  const schema: Schema = {
+    type: 'object',
+    properties: {
+      username: { type: 'string', minLength: 3, pattern: '^\\w+$' },
+      age: { type: 'integer', minimum: 0 },
+      role: { type: 'string', enum: ['user', 'admin'] },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      note: { type: 'string', nullable: true }
+    },
+    required: ['username'],
+    additionalProperties: { type: 'number' }
+  };
+
+  assertEquals(validateSchema(schema, { username: 'bob', age: 3, tags: ['a'], note: null, extra: 1.5 }), []);
+  // required values must not be empty
+  assertEquals(validateSchema(schema, { username: '' }, 'body'), ['body.username is required']);
+  assertEquals(validateSchema(schema, { username: 'b!', age: 1.5, role: 'root', tags: ['a', 2, 'c'], extra: 'x' }, 'body'), [
+    'body.username must be at least 3 characters',
+    'body.username must match ^\\w+$',
+    'body.age must be an integer',
+    'body.role must be one of: "user", "admin"',
+    'body.tags must have at most 2 items',
+    'body.tags[1] must be a string',
+    'body.extra must be a number'
+  ]);
+
+  // queries are only strings
+  const query: Schema = { type: 'object', properties: { limit: { type: 'integer' }, soft: { type: 'boolean' } } };
+  assertEquals(validateSchema(query, { limit: '10', soft: 'true' }, 'query'), ['query.limit must be an integer', 'query.soft must be a boolean']);
+  assertEquals(validateSchema(query, { limit: '10', soft: 'true' }, 'query', true), []);
+  assertEquals(parseStrings(query, { limit: '10', soft: 'false', other: '1' }), { limit: 10, soft: false, other: '1' });
+  assertEquals(parseStrings(query, { limit: 'ten' }), { limit: 'ten' });
+});
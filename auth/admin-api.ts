@@ -0,0 +1,243 @@
+import { ForbiddenError, NotFoundError } from '../common/errors.ts';
+
+import { Router, Schema, json, noContent, describe } from '../api/mod.ts';
+import { handleError, validate } from '../common/middleware.ts';
+import Api from '../common/api.ts';
+
+import type { AuthUser, AuthRequest } from './auth-types.ts';
+import { validateUserSession, requireAdmin } from './auth-middleware.ts';
+import type AuthApi from './auth-api.ts';
+import AuthDb from './auth-db.ts';
+
+/**
+ * What admins can see of a user
+ */
+export interface AdminUserInfo {
+  id: string;
+  username: string;
+  created: number;
+  admin: boolean;
+  disabled: boolean;
+  resetPass: boolean;
+  /** Whether or not the user has two-factor authentication enabled */
+  totp: boolean;
+  /** The user who invited them, if any */
+  invitedBy: string | null;
+}
+
+const userInfoSchema: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    username: { type: 'string' },
+    created: { type: 'integer' },
+    admin: { type: 'boolean' },
+    disabled: { type: 'boolean' },
+    resetPass: { type: 'boolean', description: 'Whether or not the user must reset their password before logging in.' },
+    totp: { type: 'boolean' },
+    invitedBy: { type: 'string', nullable: true, description: 'The ID of the user who invited them.' }
+  }
+};
+
+const registrationSchema: Schema = {
+  type: 'object',
+  properties: {
+    allow: { type: 'boolean', description: 'Whether or not registrations are open.' },
+    inviteOnly: { type: 'boolean', description: 'Whether or not registering requires an invite.' }
+  }
+};
+
+const listUsersSchema: Schema = {
+  type: 'object',
+  properties: {
+    search: { type: 'string', description: 'A username prefix to search for.' },
+    skip: { type: 'integer', minimum: 0 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, description: 'How many to get (50 by default).' }
+  }
+};
+
+const noContentResponse = { 204: { description: 'Success.' } } as const;
+const notFoundResponse = { 404: { description: 'The user was not found.' } } as const;
+
+/**
+ * The `/admin` routes, for managing users and registrations; only admins can use them (see `requireAdmin`)
+ */
+export class AdminApi extends Api<AuthRequest> {
+
+  readonly #admins: readonly string[];
+
+  /**
+   * @param db The auth database
+   * @param auth The auth api, to revoke sessions with and toggle registrations on
+   * @param config (optional) The usernames of any admins who are not marked as such (e.x. from the command line)
+   */
+  constructor(protected readonly db: AuthDb, protected readonly auth: AuthApi, config: { admins?: readonly string[] } = { }) {
+    super();
+    this.#admins = config.admins?.slice() ?? [];
+  }
+
+  #toInfo(user: AuthUser): AdminUserInfo {
+    return {
+      id: user.id!,
+      username: user.username,
+      created: user.created,
+      admin: Boolean(user.admin) || this.#admins.includes(user.username),
+      disabled: Boolean(user.disabled),
+      resetPass: Boolean(user.resetPass),
+      totp: Boolean(user.totp?.enabled),
+      invitedBy: user.invitedBy ?? null
+    };
+  }
+
+  async #getUser(id: string): Promise<AuthUser> {
+    const user = await this.db.getUser(id);
+    if(!user)
+      throw new NotFoundError('User not found!', { code: 'user_not_found' });
+
+    return user;
+  }
+
+  /** Admins cannot lock themselves out */
+  #notSelf(admin: AuthUser, id: string): void {
+    if(admin.id === id)
+      throw new ForbiddenError('Cannot do this to yourself!', { code: 'cannot_modify_self' });
+  }
+
+  async listUsers(options: { search?: string; skip?: number; limit?: number } = { }): Promise<AdminUserInfo[]> {
+    const users = await this.db.searchUsers({ username: options.search, skip: options.skip, limit: options.limit ?? 50 });
+    return users.map(user => this.#toInfo(user));
+  }
+
+  async getUser(id: string): Promise<AdminUserInfo> {
+    return this.#toInfo(await this.#getUser(id));
+  }
+
+  /**
+   * Disable or enable a user; disabling them revokes all of their sessions
+   */
+  async setDisabled(admin: AuthUser, id: string, disabled: boolean): Promise<void> {
+    this.#notSelf(admin, id);
+
+    const user = await this.#getUser(id);
+    await this.db.putUser(id, Object.assign(user, { disabled }));
+
+    if(disabled)
+      await this.auth.deleteSessions(id);
+  }
+
+  async setAdmin(admin: AuthUser, id: string, isAdmin: boolean): Promise<void> {
+    this.#notSelf(admin, id);
+
+    const user = await this.#getUser(id);
+    await this.db.putUser(id, Object.assign(user, { admin: isAdmin }));
+  }
+
+  /**
+   * Make a user reset their password (via `/auth/reset-pass`) before they can login with it again,
+   * revoking all of their sessions
+   */
+  async forcePasswordReset(admin: AuthUser, id: string): Promise<void> {
+    this.#notSelf(admin, id);
+
+    const user = await this.#getUser(id);
+    await this.db.putUser(id, Object.assign(user, { resetPass: true }));
+    await this.auth.deleteSessions(id);
+  }
+
+  async revokeSessions(id: string): Promise<void> {
+    await this.#getUser(id);
+    await this.auth.deleteSessions(id);
+  }
+
+  /**
+   * Delete a user, and (via `AuthDb.onUserDelete`) their sessions and data
+   */
+  async deleteUser(admin: AuthUser, id: string): Promise<void> {
+    this.#notSelf(admin, id);
+
+    await this.#getUser(id);
+    await this.db.delUser(id);
+  }
+
+  compile(router = new Router<AuthRequest>()): Router<AuthRequest> {
+
+    router.use(describe({ tags: ['Admin'], auth: true }), handleError('Admin'), validateUserSession(this.db), requireAdmin(this.#admins));
+
+    router.get('/users', describe({
+      summary: 'List (or search) the users',
+      responses: { 200: { description: 'The users, sorted by username.', schema: { type: 'array', items: userInfoSchema } } }
+    }), validate<unknown, AuthRequest>({ query: listUsersSchema }), async req => json(await this.listUsers({
+      search: req.query.search,
+      skip: req.query.skip ? Number(req.query.skip) : undefined,
+      limit: req.query.limit ? Number(req.query.limit) : undefined
+    })));
+
+    router.get('/users/:id', describe({
+      summary: 'Get a user',
+      responses: { 200: { description: 'The user.', schema: userInfoSchema }, ...notFoundResponse }
+    }), async req => json(await this.getUser(req.params.id!)));
+
+    router.delete('/users/:id', describe({
+      summary: 'Delete a user and all of their data',
+      responses: { ...noContentResponse, ...notFoundResponse }
+    }), async req => {
+      await this.deleteUser(req.user, req.params.id!);
+      return noContent();
+    });
+
+    router.post('/users/:id/:action(disable|enable)', describe({
+      summary: 'Disable (revoking their sessions) or enable a user',
+      responses: { ...noContentResponse, ...notFoundResponse }
+    }), async req => {
+      await this.setDisabled(req.user, req.params.id!, req.params.action === 'disable');
+      return noContent();
+    });
+
+    router.put('/users/:id/admin', describe({
+      summary: 'Make a user an admin, or not',
+      responses: { ...noContentResponse, ...notFoundResponse }
+    }), validate<{ admin: boolean }, AuthRequest>({
+      body: { type: 'object', properties: { admin: { type: 'boolean' } }, required: ['admin'] }
+    }), async req => {
+      await this.setAdmin(req.user, req.params.id!, req.context.body.admin);
+      return noContent();
+    });
+
+    router.post('/users/:id/reset-pass', describe({
+      summary: 'Make a user reset their password before they can login again, revoking their sessions',
+      responses: { ...noContentResponse, ...notFoundResponse }
+    }), async req => {
+      await this.forcePasswordReset(req.user, req.params.id!);
+      return noContent();
+    });
+
+    router.delete('/users/:id/sessions', describe({
+      summary: 'Revoke every session of a user',
+      responses: { ...noContentResponse, ...notFoundResponse }
+    }), async req => {
+      await this.revokeSessions(req.params.id!);
+      return noContent();
+    });
+
+    router.get('/registration', describe({
+      summary: 'Get whether or not registrations are open, and if they need an invite',
+      responses: { 200: { description: 'The registration settings.', schema: registrationSchema } }
+    }), () => json({ allow: this.auth.allowRegistration, inviteOnly: this.auth.inviteOnly }));
+
+    router.put('/registration', describe({
+      summary: 'Open or close registrations, or make them invite-only (on this node, until it restarts)',
+      responses: noContentResponse
+    }), validate<{ allow?: boolean; inviteOnly?: boolean }, AuthRequest>({ body: registrationSchema }), req => {
+      if(req.context.body.allow !== undefined)
+        this.auth.allowRegistration = req.context.body.allow;
+      if(req.context.body.inviteOnly !== undefined)
+        this.auth.inviteOnly = req.context.body.inviteOnly;
+
+      return noContent();
+    });
+
+    return router;
+  }
+}
+
+export default AdminApi;
@@ -1,47 +1,519 @@
 import jose from '../deps/jose.ts';
-
-import { Router, json, text, noContent, redirect } from '../api/mod.ts';
-import { AuthError, ForbiddenError, MalformedError, NotFoundError } from '../common/errors.ts';
-import { handleError } from '../common/middleware.ts';
+import { Evt, NonPostableEvt } from '../deps/evt.ts';
+
+import { Router, RouteHandler, Schema, json, text, noContent, redirect, describe, negotiate } from '../api/mod.ts';
+import { AuthError, ForbiddenError, MalformedError, NotFoundError, TinyError } from '../common/errors.ts';
+import { handleError, validate } from '../common/middleware.ts';
+import { RateLimiter, rateLimit, getRequestIp } from '../common/rate-limiter.ts';
+import { describePermissions, grantsPermission } from '../common/permissions.ts';
+import type KeyValueStore from '../common/key-value-store.ts';
 import Api from '../common/api.ts';
 
-import { getSalt, hashPassword, importSecret } from './auth-util.ts';
-import { AuthSession, AuthUser, AuthRequest, Handshake, MasterKey } from './auth-types.ts';
+import {
+  getSalt, hashPassword, importSecret,
+  generateTotpSecret, verifyTotp, generateRecoveryCodes, hashRecoveryCode,
+  generateToken, hashToken, makeCodeChallenge, describeDevice, getAppOrigin, isPrivateHost, SigningAlgorithm
+} from './auth-util.ts';
+import {
+  AuthApp, AuthSession, AuthUser, AuthRequest, ClientInfo, Handshake, Invite, LoginChallenge, MasterKey, RemoteKey,
+  SecureAppManifest, SecurityEvent, TotpConfig, WebAuthnCredential
+} from './auth-types.ts';
 import { validateUserSession} from './auth-middleware.ts';
+import {
+  AuthenticatorData, AuthenticatorFlags, supportedAlgorithms,
+  base64UrlEncode, base64UrlDecode, generateChallenge, sha256, concatBytes,
+  parseClientData, parseAttestationObject, parseAuthenticatorData, coseToJwk, verifyAttestation, verifySignature
+} from './webauthn.ts';
 import AuthDb from './auth-db.ts';
 
 
+const credentialsSchema: Schema = {
+  type: 'object',
+  properties: { username: { type: 'string' }, password: { type: 'string' } },
+  required: ['username', 'password']
+};
+
+const registerSchema: Schema = {
+  type: 'object',
+  properties: {
+    username: { type: 'string' },
+    password: { type: 'string' },
+    invite: { type: 'string', description: 'An invite code; required if the node is invite-only.' }
+  },
+  required: ['username', 'password']
+};
+
+const listSchema: Schema = { type: 'array', items: { type: 'string' } };
+
+const codeSchema: Schema = {
+  type: 'object',
+  properties: { code: { type: 'string', description: 'A TOTP code, or a recovery code.' } },
+  required: ['code']
+};
+
+const completeLoginSchema: Schema = {
+  type: 'object',
+  properties: {
+    challenge: { type: 'string', description: 'The challenge given by `/login`.' },
+    code: { type: 'string', description: 'A TOTP code, or a recovery code.' }
+  },
+  required: ['challenge', 'code']
+};
+
+const disableTotpSchema: Schema = {
+  type: 'object',
+  properties: { password: { type: 'string' }, code: { type: 'string', description: 'A TOTP code, or a recovery code.' } },
+  required: ['password', 'code']
+};
+
+const recoverSchema: Schema = {
+  type: 'object',
+  properties: {
+    username: { type: 'string' },
+    key: { type: 'string', description: 'An (account) recovery key.' },
+    newpass: { type: 'string' }
+  },
+  required: ['username', 'key', 'newpass']
+};
+
+const passwordSchema: Schema = {
+  type: 'object',
+  properties: { password: { type: 'string' } },
+  required: ['password']
+};
+
+const recoveryCodesResponse = {
+  200: {
+    description: 'The (single-use) recovery codes; they are only shown once.',
+    schema: { type: 'object', properties: { recoveryCodes: listSchema } }
+  }
+} as const;
+
+/** A `PublicKeyCredential` from `navigator.credentials.create`, with its buffers in base64url */
+interface RegistrationCredential {
+  id: string;
+  response: { clientDataJSON: string; attestationObject: string; transports?: string[] };
+}
+
+/** A `PublicKeyCredential` from `navigator.credentials.get`, with its buffers in base64url */
+interface AssertionCredential {
+  id: string;
+  response: { clientDataJSON: string; authenticatorData: string; signature: string; userHandle?: string | null };
+}
+
+const finishRegistrationSchema: Schema = {
+  type: 'object',
+  properties: {
+    challenge: { type: 'string', description: 'The challenge given by `/webauthn/register/start`.' },
+    name: { type: 'string', description: 'A name for the credential (e.x. the device).' },
+    credential: {
+      type: 'object',
+      description: 'The `PublicKeyCredential`, with its buffers encoded as base64url.',
+      properties: {
+        id: { type: 'string' },
+        response: {
+          type: 'object',
+          properties: { clientDataJSON: { type: 'string' }, attestationObject: { type: 'string' }, transports: listSchema },
+          required: ['clientDataJSON', 'attestationObject']
+        }
+      },
+      required: ['id', 'response']
+    }
+  },
+  required: ['challenge', 'credential']
+};
+
+const finishWebAuthnLoginSchema: Schema = {
+  type: 'object',
+  properties: {
+    challenge: { type: 'string', description: 'The challenge given by `/webauthn/login/start`.' },
+    credential: {
+      type: 'object',
+      description: 'The `PublicKeyCredential`, with its buffers encoded as base64url.',
+      properties: {
+        id: { type: 'string' },
+        response: {
+          type: 'object',
+          properties: {
+            clientDataJSON: { type: 'string' },
+            authenticatorData: { type: 'string' },
+            signature: { type: 'string' },
+            userHandle: { type: 'string', nullable: true }
+          },
+          required: ['clientDataJSON', 'authenticatorData', 'signature']
+        }
+      },
+      required: ['id', 'response']
+    }
+  },
+  required: ['challenge', 'credential']
+};
+
+const webAuthnOptionsResponse = {
+  200: {
+    description: 'The challenge ID, and the options to give to `navigator.credentials` (with buffers in base64url).',
+    schema: { type: 'object', properties: { challenge: { type: 'string' }, options: { type: 'object' } } }
+  }
+} as const;
+
+const changePassSchema: Schema = {
+  type: 'object',
+  properties: { password: { type: 'string' }, newpass: { type: 'string' } },
+  required: ['password', 'newpass']
+};
+
+const resetPassSchema: Schema = {
+  type: 'object',
+  properties: { username: { type: 'string' }, password: { type: 'string' }, newpass: { type: 'string' } },
+  required: ['username', 'password', 'newpass']
+};
+
+const startHandshakeSchema: Schema = {
+  type: 'object',
+  properties: {
+    redirect: { type: 'string', description: 'Where to redirect to once the handshake is approved or cancelled.' },
+    app: { type: 'string', description: 'The app domain, or `secure` for a secure app.' },
+    permissions: { type: 'string', description: 'A comma separated list of permissions (e.x. `[a,b]`).' },
+    collections: { type: 'string', description: 'A comma separated list of collections (e.x. `[a,b]`).' },
+    manifest: { type: 'string', description: 'The manifest of a secure app (which has its permissions and collections).' },
+    username: { type: 'string', description: 'The username to hint at.' }
+  },
+  required: ['redirect', 'app']
+};
+
+const completeHandshakeSchema: Schema = {
+  type: 'object',
+  properties: {
+    code: { type: 'string' },
+    app: { type: 'string' },
+    redirect: { type: 'string' },
+    permissions: listSchema,
+    collections: listSchema,
+    proof: { type: 'string', description: 'For secure apps, a JWT of `{ code }` signed by the app\'s key.' }
+  },
+  required: ['code', 'app', 'redirect']
+};
+
+/** The algorithms secure apps can sign with */
+const secureAppAlgorithms = Object.freeze(['ES256', 'EdDSA']);
+
+const authorizeSchema: Schema = {
+  type: 'object',
+  properties: {
+    response_type: { type: 'string', enum: ['code'] },
+    client_id: { type: 'string', description: 'The app domain.' },
+    redirect_uri: { type: 'string' },
+    scope: { type: 'string', description: 'Space separated permissions, and collections as `collection:<name>`.' },
+    state: { type: 'string' },
+    code_challenge: { type: 'string', minLength: 43, maxLength: 128 },
+    code_challenge_method: { type: 'string', enum: ['S256'] },
+    username: { type: 'string', description: 'The username to hint at.' }
+  },
+  required: ['response_type', 'client_id', 'redirect_uri', 'code_challenge', 'code_challenge_method']
+};
+
+const tokenSchema: Schema = {
+  type: 'object',
+  properties: {
+    grant_type: { type: 'string', enum: ['authorization_code', 'refresh_token'] },
+    code: { type: 'string' },
+    redirect_uri: { type: 'string' },
+    client_id: { type: 'string' },
+    code_verifier: { type: 'string' },
+    refresh_token: { type: 'string' }
+  },
+  required: ['grant_type']
+};
+
+/** An OAuth 2.0 token response */
+export interface TokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  /** How long (in seconds) until the access token expires */
+  expires_in: number;
+  refresh_token: string;
+  scope: string;
+  /** On Home nodes, the sessions made on the user's dedicated nodes (see `generateRemoteSessions`) */
+  nodes?: RemoteSession[];
+}
+
+/** A session made on a dedicated node, with a master key */
+export interface RemoteSession {
+  type: 'file' | 'db';
+  /** The root api url of the dedicated node */
+  url: string;
+  /** The session token (JWT) */
+  token: string;
+}
+
+const generateSessionSchema: Schema = {
+  type: 'object',
+  properties: {
+    context: { type: 'string' },
+    identifier: { type: 'string' },
+    collections: listSchema,
+    permissions: listSchema
+  },
+  required: ['context', 'identifier']
+};
+
+const sessionSchema: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    user: { type: 'string' },
+    context: { type: 'string' },
+    identifier: { type: 'string' },
+    collections: listSchema,
+    permissions: listSchema,
+    created: { type: 'integer' },
+    masterKey: { type: 'string', nullable: true, description: 'The master key which made the session, if any.' },
+    userAgent: { type: 'string', nullable: true },
+    ip: { type: 'string', nullable: true },
+    device: { type: 'string', nullable: true, description: 'A description of the device, e.x. `Firefox on Windows`.' },
+    lastSeen: { type: 'integer', nullable: true, description: 'When the session was last used (to the minute).' }
+  }
+};
+
+const securityEventSchema: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['login', 'app_approved', 'password_changed'] },
+    details: { type: 'object', description: 'E.x. `{ newDevice }` for logins, `{ app, permissions, collections }` for apps, or `{ via }` for passwords.' },
+    userAgent: { type: 'string', nullable: true },
+    ip: { type: 'string', nullable: true },
+    device: { type: 'string', nullable: true },
+    created: { type: 'integer' }
+  }
+};
+
+const listSecurityEventsSchema: Schema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['login', 'app_approved', 'password_changed'] },
+    skip: { type: 'integer', minimum: 0 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, description: 'How many to get (50 by default).' }
+  }
+};
+
+/** A master key, as its owner sees it */
+export interface MasterKeyInfo {
+  id: string;
+  name: string;
+  type: 'file' | 'db';
+  contexts: readonly string[];
+  permissions: readonly string[];
+  created: number;
+  expires: number | null;
+  lastUsed: number | null;
+  /** The key itself (a JWT), to give to a Home node */
+  token: string;
+}
+
+const masterKeySchema: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    type: { type: 'string', enum: ['file', 'db'] },
+    contexts: listSchema,
+    permissions: listSchema,
+    created: { type: 'integer' },
+    expires: { type: 'integer', nullable: true },
+    lastUsed: { type: 'integer', nullable: true },
+    token: { type: 'string', description: 'The key itself (a JWT), to give to a Home node.' }
+  }
+};
+
+/** A remote key, as its owner sees it (without the key itself) */
+export interface RemoteKeyInfo {
+  id: string;
+  name: string;
+  url: string;
+  type: 'file' | 'db';
+  created: number;
+}
+
+const remoteKeySchema: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    url: { type: 'string' },
+    type: { type: 'string', enum: ['file', 'db'] },
+    created: { type: 'integer' }
+  }
+};
+
+const addRemoteKeySchema: Schema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string', description: 'The master key token (JWT) from the dedicated node.' },
+    url: { type: 'string', description: 'The root api url of the dedicated node.' },
+    type: { type: 'string', enum: ['file', 'db'] },
+    name: { type: 'string' }
+  },
+  required: ['key', 'url', 'type']
+};
+
+const appSchema: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    user: { type: 'string' },
+    context: { type: 'string', description: 'The app\'s domain, or `secure`.' },
+    identifier: { type: 'string', description: 'The username, or for secure apps, their hash.' },
+    permissions: listSchema,
+    collections: listSchema,
+    firstUsed: { type: 'integer' },
+    lastUsed: { type: 'integer' },
+    fileNode: { type: 'string', nullable: true, description: '(Home nodes) The dedicated node to store its files on.' },
+    dbNode: { type: 'string', nullable: true, description: '(Home nodes) The dedicated node to store its data on.' }
+  }
+};
+
+const updateAppSchema: Schema = {
+  type: 'object',
+  properties: {
+    fileNode: { type: 'string', nullable: true, description: 'The root api url of one of your dedicated file nodes, or null for any.' },
+    dbNode: { type: 'string', nullable: true, description: 'The root api url of one of your dedicated db nodes, or null for any.' }
+  }
+};
+
+const addMasterKeySchema: Schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    type: { type: 'string', enum: ['file', 'db'], description: 'The type of node this is (and so which permissions it can give).' },
+    contexts: { ...listSchema, description: 'The contexts it can make sessions for (e.x. `app.co` or `secure`), or `*` for any but `user`.' },
+    permissions: { ...listSchema, description: 'The permissions it can give, at most (`files:*` or `db:*` by default).' },
+    expiresIn: { type: 'integer', minimum: 1, description: 'How long (in ms) until the key expires; it never does by default.' }
+  },
+  required: ['type', 'contexts']
+};
+
+const createInviteSchema: Schema = {
+  type: 'object',
+  properties: {
+    uses: { type: 'integer', minimum: 1, maximum: 100, description: 'How many users can register with it (1 by default).' },
+    expiresIn: { type: 'integer', minimum: 60000, maximum: 2592000000, description: 'How long (in ms) until it expires (a week by default).' }
+  }
+};
+
+const inviteSchema: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    maxUses: { type: 'integer' },
+    users: { ...listSchema, description: 'The IDs of the users who registered with it.' },
+    created: { type: 'integer' },
+    expires: { type: 'integer' }
+  }
+};
+
+const tokenResponse = { 200: { description: 'The session token (JWT), or if `application/json` is accepted, a token response with a refresh token as well.', type: 'text/plain', schema: { type: 'string' } } } as const;
+const noContentResponse = { 204: { description: 'Success.' } } as const;
+
 export class AuthApi extends Api {
 
   readonly #whitelist: readonly string[];
-  readonly #allowRegistration: boolean;
+  #allowRegistration: boolean;
+  #inviteOnly: boolean;
+  readonly #allowUserInvites: boolean;
   readonly #allowHandshakes: boolean;
   readonly #allowMasterKeys: boolean;
+  readonly #homeNode: boolean;
   readonly #handshakeExpTime: number;
+  readonly #challengeExpTime: number;
   readonly #sessionExpTime: number;
   readonly #serverName: string;
+  readonly #signingAlg?: SigningAlgorithm;
+  readonly #trustProxy: boolean;
+  readonly #webAuthn?: { readonly rpId: string; readonly rpName: string; readonly origins: readonly string[] };
+
+  /**
+   * Posted when an app is removed along with its data (see `deleteApp`); the file and db features should
+   * delete its data (e.x. with `FileApi.deleteAppData` and `TinyDbApi.deleteAppData`)
+   */
+  readonly onAppDelete: NonPostableEvt<AuthApp> = Evt.asNonPostable(new Evt<AuthApp>());
+
+  /**
+   * Posted when a security event is logged (see `getSecurityEvents`), e.x. to notify the user of a login
+   * from a new device (`details.newDevice`)
+   */
+  readonly onSecurityEvent: NonPostableEvt<SecurityEvent> = Evt.asNonPostable(new Evt<SecurityEvent>());
+
+  /** Limits attempts per IP across the unauthenticated routes */
+  readonly #ipLimiter?: RateLimiter;
+  /** Limits failed login attempts per username (and IP), more strictly */
+  readonly #loginLimiter?: RateLimiter;
 
   constructor(protected readonly db: AuthDb, config: {
       whitelist?: readonly string[];
       allowRegistration?: boolean;
+      /** Whether or not registering requires an invite */
+      inviteOnly?: boolean;
+      /** Whether or not every user can make invites, rather than only admins (true by default) */
+      allowUserInvites?: boolean;
       allowHandshakes?: boolean;
       allowMasterKeys?: boolean;
+      /** Whether or not this is a Home node, which keeps master keys for dedicated nodes (rather than making its own),
+       * and makes sessions on them when apps complete handshakes */
+      homeNode?: boolean;
       handshakeExpTime?: number;
+      challengeExpTime?: number;
       sessionExpTime?: number;
       serverName?: string;
+      /** Sign session tokens with node-wide (rotating) keys of this algorithm, which are published at
+       * `/.well-known/jwks.json`, rather than with each session's own secret */
+      signingAlg?: SigningAlgorithm;
+      /** Where to keep rate limiting state; if not given, requests are not rate limited */
+      rateLimitStore?: KeyValueStore;
+      /** Whether or not to trust `X-Forwarded-For` for the IP when rate limiting */
+      trustProxy?: boolean;
+      /** The relying party for WebAuthn (passkeys), e.x. `{ rpId: 'example.com', origins: ['https://example.com'] }`;
+       * if not given, WebAuthn is disabled */
+      webAuthn?: { rpId: string; rpName?: string; origins: readonly string[] };
     } = { }) {
 
     super();
 
     this.#whitelist = config.whitelist?.slice() ?? [];
     this.#allowRegistration = config.allowRegistration ?? true;
+    this.#inviteOnly = config.inviteOnly ?? false;
+    this.#allowUserInvites = config.allowUserInvites ?? true;
     this.#allowHandshakes = config.allowHandshakes ?? true;
     this.#allowMasterKeys = config.allowMasterKeys ?? true;
+    this.#homeNode = config.homeNode ?? false;
     this.#handshakeExpTime = config.handshakeExpTime ?? 300000; // 5 minutes
+    this.#challengeExpTime = config.challengeExpTime ?? 300000; // 5 minutes
     this.#sessionExpTime = config.sessionExpTime ?? 604800000; // 1 week
     this.#serverName = config.serverName ?? 'tiny';
+    this.#signingAlg = config.signingAlg;
+    this.#trustProxy = config.trustProxy ?? false;
+
+    if(config.webAuthn)
+      this.#webAuthn = {
+        rpId: config.webAuthn.rpId,
+        rpName: config.webAuthn.rpName ?? this.#serverName,
+        origins: config.webAuthn.origins.slice()
+      };
+
+    if(config.rateLimitStore) {
+      this.#ipLimiter = new RateLimiter(config.rateLimitStore, { limit: 30, window: 900000 }); // 30 per 15 minutes
+      this.#loginLimiter = new RateLimiter(config.rateLimitStore, { limit: 5, window: 900000 }); // 5 per 15 minutes
+    }
   }
 
+  /** Whether or not registrations are open; admins can change this at runtime (on this node only) */
+  get allowRegistration(): boolean { return this.#allowRegistration; }
+  set allowRegistration(allow: boolean) { this.#allowRegistration = allow; }
+
+  /** Whether or not registering requires an invite; admins can change this at runtime (on this node only) */
+  get inviteOnly(): boolean { return this.#inviteOnly; }
+  set inviteOnly(inviteOnly: boolean) { this.#inviteOnly = inviteOnly; }
+
   async #createSessionJWT(sess: string): Promise<string | undefined>;
   async #createSessionJWT(sess: AuthSession): Promise<string>;
   async #createSessionJWT(sess: string | AuthSession): Promise<string | undefined>;
@@ -53,13 +525,26 @@ export class AuthApi extends Api {
       return undefined;
 
     const jwt = new jose.SignJWT({ jti: sess.id! })
-      .setProtectedHeader({ alg: 'HS384' })
       .setIssuer(this.#serverName)
       .setSubject(sess.user)
-      .setIssuedAt(Math.floor(sess.created / 1000))
-      .setExpirationTime(Math.floor((sess.created + this.#sessionExpTime) / 1000));
+      .setIssuedAt(Math.floor(sess.created / 1000));
+
+    // sliding sessions have no fixed expiry; it is checked against the db instead
+    if(!this.db.slidingSessions)
+      jwt.setExpirationTime(Math.floor(this.#getSessionExpiry(sess) / 1000));
+
+    if(this.#signingAlg) {
+      const key = await this.db.getActiveSigningKey(this.#signingAlg);
+
+      return await jwt.setProtectedHeader({ alg: key.alg, kid: key.id! })
+        .sign(await jose.importJWK(key.privateKey, key.alg));
+    }
 
-    return await jwt.sign(await importSecret(sess.secret));
+    return await jwt.setProtectedHeader({ alg: 'HS384' }).sign(await importSecret(sess.secret));
+  }
+
+  #getSessionExpiry(sess: AuthSession): number {
+    return this.db.slidingSessions ? this.db.getSessionExpiry(sess) : sess.created + this.#sessionExpTime;
   }
 
   async #createMasterKeyJWT(key: string): Promise<string | undefined>;
@@ -78,55 +563,168 @@ export class AuthApi extends Api {
       .setSubject(key.user)
       .setIssuedAt(Math.floor(key.created / 1000));
 
+    if(key.expires)
+      jwt.setExpirationTime(Math.floor(key.expires / 1000));
+
     return await jwt.sign(await importSecret(key.secret));
   }
 
+  /** Check that a user is allowed to login at all, whichever way they authenticated */
+  #checkCanLogin(user: AuthUser): void {
+    if(this.#whitelist?.length && !this.#whitelist.includes(user.username))
+      throw new AuthError('Whitelist is active.', { code: 'whitelist_active' });
+
+    if(user.disabled)
+      throw new AuthError('User is disabled.', { code: 'user_disabled' });
+
+    if(user.resetPass)
+      throw new ForbiddenError('The password must be reset first.', { code: 'password_reset_required' });
+  }
+
   // #region core
 
-  async login(username: string, password: string): Promise<string> {
+  /**
+   * Login with a username and password, getting a session token; or if the user has two-factor
+   * authentication enabled, a challenge to complete via `completeLogin`.
+   */
+  async login(username: string, password: string): Promise<string | { challenge: string; expires: number }> {
     if(this.#whitelist?.length && !this.#whitelist.includes(username))
-      throw new AuthError('Whitelist is active.');
+      throw new AuthError('Whitelist is active.', { code: 'whitelist_active' });
 
     const user = await this.db.getUserFromUsername(username);
     if(!user)
-      throw new AuthError('Username / password mismatch.');
+      throw new AuthError('Username / password mismatch.', { code: 'credentials_mismatch' });
 
     const pass = await hashPassword(password, user.salt);
     if(user.pass !== pass)
-      throw new AuthError('Username / password mismatch.');
+      throw new AuthError('Username / password mismatch.', { code: 'credentials_mismatch' });
+
+    this.#checkCanLogin(user);
+
+    if(user.totp?.enabled) {
+      const created = Date.now();
+      const challenge = await this.db.addChallenge({ type: 'totp', user: user.id!, attempts: 0, created });
+
+      return { challenge, expires: created + this.#challengeExpTime };
+    }
 
     const sid = await this.db.addSession(user.id!, 'user', username);
     return (await this.#createSessionJWT(sid))!;
   }
 
-  async register(username: string, password: string): Promise<void> {
+  /**
+   * Complete a login challenge with a TOTP or recovery code, getting a session token
+   */
+  async completeLogin(id: string, code: string): Promise<string> {
+    const challenge = await this.db.getChallenge(id);
+    if(!challenge || challenge.type !== 'totp')
+      throw new NotFoundError('Challenge not found!', { code: 'challenge_not_found' });
+
+    if(challenge.created + this.#challengeExpTime < Date.now()) {
+      await this.db.delChallenge(id);
+      throw new NotFoundError('Challenge expired!', { code: 'challenge_expired' });
+    }
+
+    const user = await this.db.getUser(challenge.user!);
+    if(!user)
+      throw new NotFoundError('User not found!', { code: 'user_not_found' });
+
+    this.#checkCanLogin(user);
+
+    if(!await this.#verifySecondFactor(user, code)) {
+      // a challenge is only good for a few guesses
+      if(++challenge.attempts >= 5)
+        await this.db.delChallenge(id);
+      else
+        await this.db.putChallenge(id, challenge);
+
+      throw new AuthError('Invalid code.', { code: 'invalid_code' });
+    }
+
+    await this.db.delChallenge(id);
+
+    const sid = await this.db.addSession(user.id!, 'user', user.username);
+    return (await this.#createSessionJWT(sid))!;
+  }
+
+  /**
+   * Register a user; if the node is invite-only, an invite code is required
+   */
+  async register(username: string, password: string, invite?: string): Promise<void> {
+    if(!this.#allowRegistration)
+      throw new ForbiddenError('Registrations are closed.', { code: 'registration_closed' });
+
     if(this.#whitelist?.length && !this.#whitelist.includes(username))
-      throw new ForbiddenError('Whitelist is active.');
+      throw new ForbiddenError('Whitelist is active.', { code: 'whitelist_active' });
+
+    if(this.#inviteOnly && !invite)
+      throw new ForbiddenError('An invite is required.', { code: 'invite_required' });
 
     if(await this.db.getUserFromUsername(username))
-      throw new ForbiddenError('Username taken!');
+      throw new ForbiddenError('Username taken!', { code: 'username_taken' });
+
+    const inv = invite ? await this.#getValidInvite(invite) : null;
 
     const salt = getSalt();
     const user: AuthUser = {
       username: username,
       salt,
       pass: await hashPassword(password, salt),
-      created: Date.now()
+      created: Date.now(),
+      invitedBy: inv?.creator ?? null
     };
 
-    await this.db.addUser(user);
+    const id = await this.db.addUser(user);
+
+    if(inv) {
+      // other registrations (on any node) may use it at the same time, so only add the user if its users are
+      // still the ones we have, otherwise try again with theirs until it is used up
+      let users = inv.users;
+      while(!await this.db.addInviteUser(inv.id!, users, id)) {
+        const latest = await this.db.getInvite(inv.id!);
+
+        if(!latest || latest.users.length >= latest.maxUses) {
+          await this.db.delUser(id);
+
+          if(!latest)
+            throw new ForbiddenError('Invalid or expired invite.', { code: 'invite_invalid' });
+          throw new ForbiddenError('Invite already used.', { code: 'invite_used' });
+        }
+
+        users = latest.users;
+      }
+    }
   }
 
-  async changePass(user: AuthUser, password: string, newpass: string, keep?: string): Promise<void> {
+  async changePass(user: AuthUser, password: string, newpass: string, keep?: string, client?: ClientInfo): Promise<void> {
     if(await hashPassword(password, user.salt) !== user.pass)
-      throw new ForbiddenError('Password mismatch.');
+      throw new ForbiddenError('Password mismatch.', { code: 'password_mismatch' });
 
     const salt = getSalt();
     const pass = await hashPassword(newpass, salt);
 
     await this.db.putUser(user.id!, Object.assign(user, { salt, pass }));
-    const sids = await this.db.getSessionIdsForUser(user.id!);
-    await this.db.delManySessions(!keep ? sids : sids.filter(sid => sid !== keep));
+    await this.deleteSessions(user.id!, keep);
+    await this.#logSecurityEvent(user.id!, 'password_changed', client, { via: 'change-pass' });
+  }
+
+  /**
+   * Reset the password of a user who has been made to (by an admin), after which they can login again
+   */
+  async resetPass(username: string, password: string, newpass: string, client?: ClientInfo): Promise<void> {
+    const user = await this.db.getUserFromUsername(username);
+    if(!user || await hashPassword(password, user.salt) !== user.pass)
+      throw new AuthError('Username / password mismatch.', { code: 'credentials_mismatch' });
+
+    if(!user.resetPass)
+      throw new ForbiddenError('The password does not need to be reset.', { code: 'password_reset_not_required' });
+
+    if(newpass === password)
+      throw new ForbiddenError('The new password must be different.', { code: 'password_unchanged' });
+
+    const salt = getSalt();
+    await this.db.putUser(user.id!, Object.assign(user, { salt, pass: await hashPassword(newpass, salt), resetPass: false }));
+    await this.#logSecurityEvent(user.id!, 'password_changed', client, { via: 'reset-pass' });
   }
 
   async sessions(user: AuthUser): Promise<Omit<AuthSession, 'secret'> []> {
@@ -137,375 +735,2033 @@ export class AuthApi extends Api {
     const sess = id ? await this.db.getSession(id) : null;
 
     if(!sess || sess.user !== user.id)
-      throw new NotFoundError('No session found!');
+      throw new NotFoundError('No session found!', { code: 'session_not_found' });
 
-    await this.db.delSession(id!);
+    await this.logout(id);
   }
 
+  /**
+   * Revoke every session of a user (but `keep`), along with every refresh token, as those outlive
+   * their sessions and could make new ones
+   */
   async deleteSessions(user: string, keep?: string): Promise<void> {
-    const sids = await this.db.getSessionIdsForUser(user);
-    await this.db.delManySessions(!keep ? sids : sids.filter(sid => sid !== keep));
+    const sids = await this.db.getSessionIdsForUser(user).then(res => !keep ? res : res.filter(sid => sid !== keep));
+
+    await this.db.delManySessions(sids);
+    await this.db.delRefreshTokensForUser(user, keep);
   }
 
   async refresh(session: AuthSession): Promise<string> {
-    const sess = await this.db.addSession(session.user, session.context, session.identifier, session);
+    const sess = await this.db.addSession(session.user, session.context, session.identifier, {
+      collections: session.collections,
+      permissions: session.permissions,
+      masterKey: session.masterKey
+    });
     await this.db.delSession(session.id!);
+
+    if(session.context !== 'user')
+      await this.#recordApp((await this.db.getSession(sess))!);
+
     return sess;
   }
 
   async logout(session: string): Promise<void> {
     await this.db.delSession(session);
+    await this.db.delRefreshTokensForSessions([session]);
   }
 
-  // #endregion core
-
-  // #region handshakes
+  /**
+   * Issue a refresh token alongside a session token which was just given out, e.x. from `login`
+   * @param token The session token (JWT)
+   * @returns {Promise<TokenResponse>} The session and refresh tokens
+   */
+  async issueTokens(token: string): Promise<TokenResponse> {
+    const session = await this.db.getSession(jose.decodeJwt(token).jti!);
+    if(!session)
+      throw new AuthError('No session found!', { code: 'session_not_found' });
+
+    return await this.#createTokenResponse(session);
+  }
 
-  async startHandshake(redirect: string, app: string, extra?: Partial<{
-    permissions: readonly string[];
-    collections: readonly string[];
-  }>, username?: string): Promise<string> {
-    if(app === 'secure')
-      throw new ForbiddenError('App cannot be called "secure".');
+  /**
+   * Exchange a refresh token for new tokens, replacing its session (which may have expired already).
+   * Refresh tokens can only be used once; if a used one is presented again (i.e. it was likely
+   * stolen), its whole family is revoked.
+   */
+  async refreshToken(token: string): Promise<TokenResponse> {
+    const [id, secret] = token.split('.', 2);
+
+    const refresh = id && secret ? await this.db.getRefreshToken(id) : null;
+    if(!refresh || refresh.hash !== await hashToken(secret))
+      throw new MalformedError('Invalid refresh token.', { code: 'invalid_grant' });
+
+    if(refresh.used) {
+      await this.#revokeRefreshFamily(refresh.family);
+      throw new MalformedError('Refresh token reused; its sessions have been revoked.', { code: 'invalid_grant' });
+    }
 
-    const hsId = await this.db.addHandshake({
-      app,
-      redirect,
+    if(this.db.getRefreshTokenExpiry(refresh) < Date.now())
+      throw new MalformedError('Refresh token expired.', { code: 'invalid_grant' });
 
-      permissions: extra?.permissions ?? [],
-      collections: extra?.collections ?? [],
+    const user = await this.db.getUser(refresh.user);
+    if(!user)
+      throw new MalformedError('User not found.', { code: 'invalid_grant' });
 
-      created: Date.now()
-    } as Handshake);
+    // the same checks as logging in, with the reason as the details
+    try {
+      this.#checkCanLogin(user);
+    } catch(e) {
+      throw new MalformedError((e as TinyError).message, { code: 'invalid_grant', details: { reason: (e as TinyError).code } });
+    }
 
-    return `/handshake?handshake=${hsId}${username ? `&username=${username}` : ''}`;
-  }
+    // if it was used since it was read (i.e. by a request at the same time), this is reuse as well
+    if(!await this.db.useRefreshToken(refresh.id!, Date.now())) {
+      await this.#revokeRefreshFamily(refresh.family);
+      throw new MalformedError('Refresh token reused; its sessions have been revoked.', { code: 'invalid_grant' });
+    }
 
-  async completeHandshake(redirect: string, app: string, code: string, extra?: Partial<{
-    permissions: readonly string[];
-    collections: readonly string[];
-  }>): Promise<string> {
-    if(app === 'secure')
-      throw new ForbiddenError('App cannot be called "secure".');
+    await this.db.delSession(refresh.session);
 
-    const handshake = await this.db.getHandshakeFromCode(code);
-    if(!handshake)
-      throw new NotFoundError('Handshake not found with the given code!');
+    const sid = await this.db.addSession(refresh.user, refresh.context, refresh.identifier, refresh);
+    const session = (await this.db.getSession(sid))!;
+    if(session.context !== 'user')
+      await this.#recordApp(session);
 
-    await this.db.delHandshake(handshake.id!);
-    if(handshake.redirect !== redirect)
-      throw new MalformedError('Handshake/body mismatch!');
+    return await this.#createTokenResponse(session, refresh.family);
+  }
 
-    const user = await this.db.getUser(handshake.user!);
-    if(!user)
-      throw new NotFoundError('User not found!');
+  /**
+   * Issue a refresh token for a session, in the given family (or a new one)
+   */
+  async #createTokenResponse(session: AuthSession, family = generateToken()): Promise<TokenResponse> {
+    const secret = generateToken();
+    const id = await this.db.addRefreshToken({
+      family,
+      session: session.id!,
+
+      user: session.user,
+      context: session.context,
+      identifier: session.identifier,
+      collections: session.collections,
+      permissions: session.permissions,
+
+      hash: await hashToken(secret),
+      created: Date.now(),
+      used: null
+    });
 
-    if(handshake.app !== app ||
-      JSON.stringify(extra?.permissions ?? []) !== JSON.stringify(handshake.permissions) ||
-      JSON.stringify(extra?.collections ?? []) !== JSON.stringify(handshake.collections))
-      throw new MalformedError('Handshake/body mismatch!');
+    return {
+      access_token: await this.#createSessionJWT(session),
+      token_type: 'Bearer',
+      expires_in: Math.floor((this.#getSessionExpiry(session) - Date.now()) / 1000),
+      refresh_token: id + '.' + secret,
+      scope: [...session.permissions, ...session.collections.map(c => 'collection:' + c)].join(' ')
+    };
+  }
 
-    const sid = await this.db.addSession(user.id!, handshake.app, user.username);
+  /** Revoke every refresh token in a family, along with their sessions */
+  async #revokeRefreshFamily(family: string): Promise<void> {
+    const tokens = await this.db.getRefreshTokensForFamily(family);
 
-    return (await this.#createSessionJWT(sid))!;
+    await this.db.delManySessions(tokens.map(t => t.session));
+    await this.db.delManyRefreshTokens(tokens.map(t => t.id!));
   }
 
-  async testHandshake(id: string, session: AuthSession): Promise<Handshake> {
-    if(session.context !== 'user')
-      throw new ForbiddenError('Must be a user!');
+  // #endregion core
 
-    const handshake = await this.db.getHandshake(id);
-    if(!handshake || (handshake.user && handshake.user !== session.user))
-      throw new NotFoundError('No handshake found with id "' + id + '"!');
+  // #region invites
 
-    if(handshake.created + this.#handshakeExpTime < Date.now()) {
-      await this.db.delHandshake(id);
-      throw new NotFoundError('Handshake expired!');
-    }
+  /**
+   * Get an invite from its code (`<id>.<secret>`), if it can still be used
+   */
+  async #getValidInvite(code: string): Promise<Invite> {
+    const [id, secret] = code.split('.', 2);
 
-    return handshake;
-  }
+    const invite = id && secret ? await this.db.getInvite(id) : null;
+    if(!invite || invite.hash !== await hashToken(secret) || invite.expires < Date.now())
+      throw new ForbiddenError('Invalid or expired invite.', { code: 'invite_invalid' });
 
-  async approveHandshake(handshake: Handshake, user: AuthUser): Promise<string> {
+    if(invite.users.length >= invite.maxUses)
+      throw new ForbiddenError('Invite already used.', { code: 'invite_used' });
 
-    let code: string;
-    do {
-      code = getSalt().replace(/\+/g, '-');
-    } while(await this.db.getHandshakeFromCode(code) != null);
+    const creator = await this.db.getUser(invite.creator);
+    if(!creator || creator.disabled)
+      throw new ForbiddenError('Invalid or expired invite.', { code: 'invite_invalid' });
 
-    handshake.user = user.id;
-    handshake.code = code;
+    return invite;
+  }
 
-    await this.db.putHandshake(handshake.id!, handshake);
+  /**
+   * Make an invite code, which can be used by `uses` users (1 by default) until it expires (in a week by default)
+   * @returns The invite's ID, code (which is only given out this once), and when it expires
+   */
+  async createInvite(user: AuthUser, options: { uses?: number; expiresIn?: number } = { }): Promise<{ id: string; code: string; expires: number }> {
+    if(!this.#allowUserInvites && !user.admin)
+      throw new ForbiddenError('Only admins can make invites.', { code: 'not_admin' });
+
+    const secret = generateToken();
+    const created = Date.now();
+    const expires = created + (options.expiresIn ?? 604800000);
+
+    const id = await this.db.addInvite({
+      creator: user.id!,
+      hash: await hashToken(secret),
+      maxUses: options.uses ?? 1,
+      users: [],
+      created,
+      expires
+    });
 
-    return handshake.redirect + '?code=' + code;
+    return { id, code: id + '.' + secret, expires };
   }
 
-  async cancelHandshake(handshake: Handshake): Promise<string> {
-    await this.db.delHandshake(handshake.id!);
-    return handshake.redirect + '?error=access_denied';
+  async getInvites(user: AuthUser): Promise<Omit<Invite, 'hash' | 'creator'>[]> {
+    return await this.db.getInvitesForUser(user.id!)
+      .then(res => res.map(({ id, maxUses, users, created, expires }) => ({ id, maxUses, users, created, expires })));
   }
 
-  // #endregion handshakes
+  async deleteInvite(user: AuthUser, id: string): Promise<void> {
+    const invite = await this.db.getInvite(id);
+    if(!invite || invite.creator !== user.id)
+      throw new NotFoundError('Invite not found!', { code: 'invite_not_found' });
 
-  // #region masterkeys
+    await this.db.delInvite(id);
+  }
 
-  async generateSessionFromMasterKey(key: string, context: string, identifier: string, extra?: Partial<Pick<AuthSession, 'collections' | 'permissions'>>): Promise<string> {
+  // #endregion invites
 
-    const masterKey = await this.db.getMasterKey(key);
-    if(!masterKey)
-      throw new NotFoundError('Master key not found!');
+  // #region two-factor
 
-    const user = await this.db.getUser(masterKey.user);
-    if(!user)
-      throw new NotFoundError('User not found!');
+  /**
+   * Verify a TOTP code (which cannot be reused) or a recovery code (which is then used up)
+   * @returns {Promise<boolean>} Whether or not it was valid
+   */
+  async #verifySecondFactor(user: AuthUser, code: string): Promise<boolean> {
+    const totp = user.totp;
+    if(!totp?.enabled)
+      return false;
 
-    const sid = await this.db.addSession(user.id!, context, identifier, extra);
+    code = code.trim();
 
-    return (await this.#createSessionJWT(sid))!;
-  }
+    if(/^\d{6}$/.test(code)) {
+      const step = await verifyTotp(totp.secret, code, totp.last);
+      if(step == null)
+        return false;
 
-  async getMasterKeys(user: string): Promise<{
-    id: string;
-    name?: string;
-    created: number;
-    token: string;
-  }[]> {
-    const keys =  await this.db.getMasterKeysForUser(user);
-
-    const ret: Promise<{
-      id: string;
-      name?: string;
-      created: number;
-      token: string;
-    }>[] = [];
-
-    for(const k of keys) {
-      ret.push(this.#createMasterKeyJWT(k).then(token => ({
-        id: k.id!,
-        name: k.name ?? '',
-        created: k.created,
-        token
-      })));
+      return await this.#putTotp(user, { ...totp, last: step });
     }
 
-    return await Promise.all(ret);
-  }
+    const hash = await hashRecoveryCode(code);
+    if(!totp.recovery.includes(hash))
+      return false;
 
-  async addMasterKey(user: string, name = ''): Promise<string> {
-    return await this.db.addMasterKey(user, name);
+    return await this.#putTotp(user, { ...totp, recovery: totp.recovery.filter(r => r !== hash) });
   }
 
-  async getMasterKey(user: string, id: string): Promise<MasterKey | null> {
-    const key = await this.db.getMasterKey(id);
-
-    if(!key || key.user !== user)
-      return null;
-
-    return key;
-  }
+  /** Update a user's TOTP config, unless another login (on any node) has used a code since it was read */
+  async #putTotp(user: AuthUser, totp: TotpConfig): Promise<boolean> {
+    if(!await this.db.putUserTotp(user.id!, user.totp ?? null, totp))
+      return false;
 
-  async updateMasterKey(key: MasterKey, name: string): Promise<void> {
-    await this.db.putMasterKey(key.id!, { ...key, name });
+    user.totp = totp;
+    return true;
   }
 
-  async deleteMasterKey(key: MasterKey): Promise<void> {
-    await this.db.delMasterKey(key.id!);
+  getTwoFactor(user: AuthUser): { totp: boolean; recoveryCodes: number } {
+    return {
+      totp: Boolean(user.totp?.enabled),
+      recoveryCodes: user.totp?.enabled ? user.totp.recovery.length : 0
+    };
   }
 
-  // #endregion masterkeys
+  /**
+   * Start setting up TOTP, replacing any unconfirmed secret
+   * @returns The secret, and an `otpauth://` URI of it for authenticator apps (i.e. as a QR code)
+   */
+  async setupTotp(user: AuthUser): Promise<{ secret: string; uri: string }> {
+    if(user.totp?.enabled)
+      throw new ForbiddenError('Two-factor authentication is already enabled!', { code: 'totp_enabled' });
 
-  compile(router = new Router<AuthRequest>()): Router<AuthRequest> {
-    const requireUserSession = validateUserSession(this.db);
+    const secret = generateTotpSecret();
+    await this.db.putUser(user.id!, Object.assign(user, { totp: { secret, enabled: false, recovery: [] } }));
 
-    router.use(handleError('Auth'));
+    const issuer = encodeURIComponent(this.#serverName);
+    const uri = `otpauth://totp/${issuer}:${encodeURIComponent(user.username)}?secret=${secret}&issuer=${issuer}&algorithm=SHA1&digits=6&period=30`;
 
-    // #region core
+    return { secret, uri };
+  }
 
-    router.post('/login', async req => {
-      const body: { username: string; password: string } = await req.json();
+  /**
+   * Confirm TOTP with a code from the authenticator app, enabling it
+   * @returns {Promise<string[]>} The recovery codes
+   */
+  async confirmTotp(user: AuthUser, code: string): Promise<string[]> {
+    if(!user.totp)
+      throw new NotFoundError('Two-factor authentication has not been set up!', { code: 'totp_not_setup' });
 
-      if(!body || typeof body !== 'object' || !body.username || !body.password)
-        throw new MalformedError('Must pass a { username, password } object!');
+    if(user.totp.enabled)
+      throw new ForbiddenError('Two-factor authentication is already enabled!', { code: 'totp_enabled' });
 
-      return text(await this.login(body.username, body.password));
-    });
+    const step = await verifyTotp(user.totp.secret, code.trim());
+    if(step == null)
+      throw new AuthError('Invalid code.', { code: 'invalid_code' });
 
-    router.post('/register', async req => {
-      const body: { username: string; password: string } = await req.json();
+    const recoveryCodes = generateRecoveryCodes();
 
-      if(!body || typeof body !== 'object' || !body.username || !body.password)
-        throw new MalformedError('Must pass a { username, password } object!');
+    await this.db.putUser(user.id!, Object.assign(user, { totp: {
+      secret: user.totp.secret,
+      enabled: true,
+      last: step,
+      recovery: await Promise.all(recoveryCodes.map(hashRecoveryCode))
+    } }));
 
-      await this.register(body.username, body.password);
-      return noContent();
-    });
+    return recoveryCodes;
+  }
 
-    router.get('/can-register', () => {
-      if(!this.#allowRegistration)
-        throw new ForbiddenError();
+  async disableTotp(user: AuthUser, password: string, code: string): Promise<void> {
+    if(await hashPassword(password, user.salt) !== user.pass)
+      throw new ForbiddenError('Password mismatch.', { code: 'password_mismatch' });
 
-      return noContent();
-    });
+    if(!user.totp?.enabled)
+      throw new NotFoundError('Two-factor authentication is not enabled!', { code: 'totp_not_enabled' });
 
-    router.post('/change-pass', requireUserSession, async (req: AuthRequest) => {
-      if(req.session!.context !== 'user')
-        throw new ForbiddenError('Must be a user!');
+    if(!await this.#verifySecondFactor(user, code))
+      throw new AuthError('Invalid code.', { code: 'invalid_code' });
 
-      const body: { password: string; newpass: string } = await req.json();
+    await this.db.putUser(user.id!, Object.assign(user, { totp: null }));
+  }
 
-      if(typeof body !== 'object' || !body || !body.password || !body.newpass)
-        throw new MalformedError('Body must have a password and a newpass.');
+  /**
+   * Replace the recovery codes, e.x. if they have been used up
+   * @returns {Promise<string[]>} The new recovery codes
+   */
+  async regenerateRecoveryCodes(user: AuthUser, code: string): Promise<string[]> {
+    if(!user.totp?.enabled)
+      throw new NotFoundError('Two-factor authentication is not enabled!', { code: 'totp_not_enabled' });
 
-      await this.changePass(req.user, body.password, body.newpass, req.session!.id!);
+    if(!await this.#verifySecondFactor(user, code))
+      throw new AuthError('Invalid code.', { code: 'invalid_code' });
 
-      return noContent();
-    });
+    const recoveryCodes = generateRecoveryCodes();
+    await this.db.putUser(user.id!, Object.assign(user, {
+      totp: { ...user.totp, recovery: await Promise.all(recoveryCodes.map(hashRecoveryCode)) }
+    }));
 
-    router.use('/sessions', requireUserSession, (req, next) => {
-      if(req.session?.context !== 'user')
-        throw new ForbiddenError('Must be a user!');
+    return recoveryCodes;
+  }
 
-      return next();
-    });
+  // #endregion two-factor
 
-    router.get('/sessions', async req => json(await this.sessions(req.user)));
+  // #region recovery
 
-    router.delete('/sessions/:id', async req => {
-      await this.deleteSession(req.params.id!, req.user);
+  getRecoveryKeys(user: AuthUser): { recoveryKeys: number } {
+    return { recoveryKeys: user.recoveryKeys?.length ?? 0 };
+  }
 
-      return noContent();
-    });
+  /**
+   * Generate (account) recovery keys, replacing any old ones; each can reset the password once,
+   * via `recover`, if it is forgotten
+   * @returns {Promise<string[]>} The recovery keys
+   */
+  async generateRecoveryKeys(user: AuthUser, password: string): Promise<string[]> {
+    if(await hashPassword(password, user.salt) !== user.pass)
+      throw new ForbiddenError('Password mismatch.', { code: 'password_mismatch' });
 
-    router.delete('/sessions', async req => {
-      await this.deleteSessions(req.user, req.session!.id!);
+    const recoveryKeys = generateRecoveryCodes(5, 4);
+    await this.db.putUser(user.id!, Object.assign(user, { recoveryKeys: await Promise.all(recoveryKeys.map(hashRecoveryCode)) }));
 
-      return noContent();
-    });
+    return recoveryKeys;
+  }
 
-    router.post('/logout', requireUserSession, async req => {
-      if(req.session)
-        await this.logout(req.session!.id!);
+  /**
+   * Reset a forgotten password with a recovery key (which is then used up), revoking every session
+   */
+  async recover(username: string, key: string, newpass: string, client?: ClientInfo): Promise<void> {
+    const user = await this.db.getUserFromUsername(username);
+    const hash = await hashRecoveryCode(key);
 
-      return noContent();
-    });
+    if(!user || !user.recoveryKeys?.includes(hash))
+      throw new AuthError('Invalid recovery key.', { code: 'invalid_recovery_key' });
 
-    router.get('/refresh', requireUserSession, async (req: AuthRequest) => text(await this.refresh(req.session!)));
+    if(user.disabled)
+      throw new AuthError('User is disabled.', { code: 'user_disabled' });
 
-    // #endregion core
+    const salt = getSalt();
+    await this.db.putUser(user.id!, Object.assign(user, {
+      salt,
+      pass: await hashPassword(newpass, salt),
+      resetPass: false,
+      recoveryKeys: user.recoveryKeys.filter(k => k !== hash)
+    }));
 
-    if(this.#allowHandshakes) {
-      const handshakeRouter = new Router<AuthRequest>();
-      handshakeRouter.use(handleError('auth-handshake'));
+    await this.deleteSessions(user.id!);
+    await this.#logSecurityEvent(user.id!, 'password_changed', client, { via: 'recover' });
+  }
 
-      handshakeRouter.get('/start', async req => {
-        if(!req.query?.redirect || !req.query.app)
-          throw new MalformedError('Must have ?redirect={url}&app={app}<&permissions=[]><&collections=[]> query.');
+  // #endregion recovery
 
-        const permissions = req.query.permissions?.replaceAll(/[\[\]]/g, '').split(',') ?? [];
-        const collections = req.query.collections?.replaceAll(/[\[\]]/g, '').split(',') ?? [];
+  // #region webauthn
 
-        return redirect(await this.startHandshake(req.query.redirect, req.query.app, { permissions, collections }, req.query.username));
-      });
+  /**
+   * Get a WebAuthn challenge, which can only be used once
+   */
+  async #useWebAuthnChallenge(id: string, type: LoginChallenge['type']): Promise<LoginChallenge> {
+    const challenge = await this.db.getChallenge(id);
+    if(!challenge || challenge.type !== type || !challenge.nonce)
+      throw new NotFoundError('Challenge not found!', { code: 'challenge_not_found' });
 
-      handshakeRouter.post('/complete', async req => {
-        let body: {
-          code: string;
+    await this.db.delChallenge(id);
 
-          app: string;
-          redirect: string;
+    if(challenge.created + this.#challengeExpTime < Date.now())
+      throw new NotFoundError('Challenge expired!', { code: 'challenge_expired' });
 
-          permissions?: string[];
-          collections?: string[];
-        } | null = null;
+    return challenge;
+  }
 
-        try {
-          body = await req.json();
-        } catch {
-          // do nothing
-        }
+  /**
+   * Verify the client data of a ceremony against its challenge and our origins
+   * @returns {Promise<Uint8Array>} The hash of the client data
+   */
+  async #verifyClientData(clientDataJSON: string, type: 'webauthn.create' | 'webauthn.get', nonce: string): Promise<Uint8Array> {
+    let raw: Uint8Array;
+    let clientData: ReturnType<typeof parseClientData>;
+
+    try {
+      raw = base64UrlDecode(clientDataJSON);
+      clientData = parseClientData(raw);
+    } catch {
+      throw new MalformedError('Invalid client data!', { code: 'invalid_credential' });
+    }
 
-        if(!body || typeof body !== 'object' || !body.redirect || !body.app || !body.code)
-          throw new MalformedError('Body should contain: { redirect, app, code, collections?, permissions? }!');
+    if(clientData.type !== type || clientData.challenge !== nonce)
+      throw new AuthError('Challenge mismatch!', { code: 'challenge_mismatch' });
 
-        return text(await this.completeHandshake(body.redirect, body.app, body.code, { collections: body.collections, permissions: body.permissions }));
-      });
+    if(!this.#webAuthn!.origins.includes(clientData.origin))
+      throw new AuthError('Origin mismatch!', { code: 'origin_mismatch' });
 
-      handshakeRouter.use('/:id', requireUserSession, async (req, next) => {
-        if(req.session!.context !== 'user')
-          throw new ForbiddenError('Must be a user!');
+    return await sha256(raw);
+  }
 
-        req.handshake = await this.testHandshake(req.params.id!, req.session!);
-        return next();
-      });
+  /**
+   * Verify that authenticator data is for us, and that the user was present and verified
+   */
+  async #verifyAuthenticatorData(authData: AuthenticatorData): Promise<void> {
+    if(base64UrlEncode(authData.rpIdHash) !== base64UrlEncode(await sha256(this.#webAuthn!.rpId)))
+      throw new AuthError('Relying party mismatch!', { code: 'rp_id_mismatch' });
 
-      handshakeRouter.get('/:id', req => json({
-        app: req.handshake!.app,
-        redirect: req.handshake!.redirect,
+    if(!(authData.flags & AuthenticatorFlags.UP) || !(authData.flags & AuthenticatorFlags.UV))
+      throw new AuthError('User was not verified!', { code: 'user_not_verified' });
+  }
 
-        permissions: req.handshake!.permissions,
-        collections: req.handshake!.collections,
+  /**
+   * Start registering a WebAuthn credential (passkey) for a user
+   * @returns The challenge ID, and the options for `navigator.credentials.create`
+   */
+  async startWebAuthnRegistration(user: AuthUser): Promise<{ challenge: string; options: Record<string, unknown> }> {
+    const nonce = generateChallenge();
+    const challenge = await this.db.addChallenge({ type: 'webauthn-register', user: user.id!, nonce, attempts: 0, created: Date.now() });
+
+    const credentials = await this.db.getCredentialsForUser(user.id!);
+
+    return {
+      challenge,
+      options: {
+        rp: { id: this.#webAuthn!.rpId, name: this.#webAuthn!.rpName },
+        user: { id: base64UrlEncode(new TextEncoder().encode(user.id!)), name: user.username, displayName: user.username },
+        challenge: nonce,
+        pubKeyCredParams: supportedAlgorithms.map(alg => ({ type: 'public-key', alg })),
+        timeout: this.#challengeExpTime,
+        attestation: 'none',
+        excludeCredentials: credentials.map(c => ({ type: 'public-key', id: c.credentialId, transports: c.transports })),
+        authenticatorSelection: { residentKey: 'preferred', userVerification: 'required' }
+      }
+    };
+  }
 
-        created: req.handshake!.created
-      }));
+  /**
+   * Finish registering a WebAuthn credential, verifying its attestation (`none` or `packed`)
+   * @returns {Promise<string>} The ID of the stored credential
+   */
+  async finishWebAuthnRegistration(user: AuthUser, challengeId: string, credential: RegistrationCredential, name = ''): Promise<string> {
+    const challenge = await this.#useWebAuthnChallenge(challengeId, 'webauthn-register');
+    if(challenge.user !== user.id)
+      throw new NotFoundError('Challenge not found!', { code: 'challenge_not_found' });
+
+    const clientDataHash = await this.#verifyClientData(credential.response.clientDataJSON, 'webauthn.create', challenge.nonce!);
+
+    let attestation: ReturnType<typeof parseAttestationObject>;
+    let authData: AuthenticatorData;
+    let key: ReturnType<typeof coseToJwk>;
+
+    try {
+      attestation = parseAttestationObject(base64UrlDecode(credential.response.attestationObject));
+      authData = parseAuthenticatorData(attestation.authData);
+      key = coseToJwk(authData.attestedCredential!.publicKey);
+    } catch {
+      throw new MalformedError('Invalid or unsupported credential!', { code: 'invalid_credential' });
+    }
 
-      handshakeRouter.get('/:id/approve', async req => redirect(await this.approveHandshake(req.handshake!, req.user!)));
-      handshakeRouter.get('/:id/cancel', async req => redirect(await this.cancelHandshake(req.handshake!)));
+    await this.#verifyAuthenticatorData(authData);
 
-      router.use('/handshake', handshakeRouter);
+    let valid: boolean;
+    try {
+      valid = await verifyAttestation(attestation, key, clientDataHash);
+    } catch {
+      throw new MalformedError(`Unsupported attestation format "${attestation.fmt}"!`, { code: 'unsupported_attestation' });
     }
 
-    /** !@todo! redo with the new token format */
-    if(this.#allowMasterKeys) {
-      const masterKeyRouter = new Router<AuthRequest>();
-      masterKeyRouter.use(handleError('auth-master-key'));
+    if(!valid)
+      throw new AuthError('Attestation does not validate!', { code: 'invalid_attestation' });
+
+    const credentialId = base64UrlEncode(authData.attestedCredential!.credentialId);
+    if(await this.db.getCredentialFromCredentialId(credentialId))
+      throw new ForbiddenError('Credential already registered!', { code: 'credential_exists' });
+
+    return await this.db.addCredential({
+      user: user.id!,
+      credentialId,
+      publicKey: key.jwk,
+      alg: key.alg,
+      signCount: authData.signCount,
+      transports: credential.response.transports ?? [],
+      name,
+      created: Date.now()
+    });
+  }
 
-      masterKeyRouter.post('/:id/generate-session', async req => {
-        const body: {
-          context: string;
-          identifier: string;
-        } & Partial<Pick<AuthSession, 'collections' | 'permissions'>> = await req.json();
+  /**
+   * Start a (passwordless) WebAuthn login
+   * @param {string} username (optional) The username, to limit the credentials to; otherwise a discoverable
+   * credential (passkey) is required
+   * @returns The challenge ID, and the options for `navigator.credentials.get`
+   */
+  async startWebAuthnLogin(username?: string): Promise<{ challenge: string; options: Record<string, unknown> }> {
+    const user = username ? await this.db.getUserFromUsername(username) : null;
+    const credentials = user ? await this.db.getCredentialsForUser(user.id!) : [];
+
+    const nonce = generateChallenge();
+    const challenge = await this.db.addChallenge({ type: 'webauthn-login', user: user?.id, nonce, attempts: 0, created: Date.now() });
+
+    return {
+      challenge,
+      options: {
+        rpId: this.#webAuthn!.rpId,
+        challenge: nonce,
+        timeout: this.#challengeExpTime,
+        userVerification: 'required',
+        allowCredentials: credentials.map(c => ({ type: 'public-key', id: c.credentialId, transports: c.transports }))
+      }
+    };
+  }
 
-        if(!body || typeof body !== 'object' || !body.context || !body.identifier || (body.collections && !(body.collections instanceof Array)) || (body.permissions && !(body.permissions instanceof Array)))
-          throw new MalformedError('Body should contain: { context, identifier, collections?, permissions? }');
+  /**
+   * Finish a WebAuthn login, verifying the assertion, getting a session token
+   */
+  async finishWebAuthnLogin(challengeId: string, credential: AssertionCredential): Promise<string> {
+    const challenge = await this.#useWebAuthnChallenge(challengeId, 'webauthn-login');
+    const clientDataHash = await this.#verifyClientData(credential.response.clientDataJSON, 'webauthn.get', challenge.nonce!);
+
+    const stored = await this.db.getCredentialFromCredentialId(credential.id);
+    if(!stored || (challenge.user && stored.user !== challenge.user))
+      throw new AuthError('Credential not found!', { code: 'credential_not_found' });
+
+    let rawAuthData: Uint8Array;
+    let authData: AuthenticatorData;
+    let signature: Uint8Array;
+
+    try {
+      rawAuthData = base64UrlDecode(credential.response.authenticatorData);
+      authData = parseAuthenticatorData(rawAuthData);
+      signature = base64UrlDecode(credential.response.signature);
+    } catch {
+      throw new MalformedError('Invalid credential!', { code: 'invalid_credential' });
+    }
 
-        return json(await this.generateSessionFromMasterKey(req.params.id!, body.context, body.identifier, body));
-      });
+    await this.#verifyAuthenticatorData(authData);
 
-      masterKeyRouter.use(requireUserSession, (req, next) => {
-        if(req.session!.context !== 'user')
-          throw new ForbiddenError('Must be a user!');
+    if(credential.response.userHandle &&
+      new TextDecoder().decode(base64UrlDecode(credential.response.userHandle)) !== stored.user)
+      throw new AuthError('User handle mismatch!', { code: 'credential_not_found' });
 
-        return next();
-      });
+    if(!await verifySignature(stored.publicKey, stored.alg, signature, concatBytes(rawAuthData, clientDataHash)))
+      throw new AuthError('Signature does not validate!', { code: 'invalid_signature' });
 
-      masterKeyRouter.get('/', async req => json(await this.getMasterKeys(req.user!.id!)));
-      masterKeyRouter.post('/', async req => text(await this.addMasterKey(req.user!.id!, req.query.name)));
+    // authenticators which count signatures should always count up, or else they may be cloned
+    if((authData.signCount || stored.signCount) && authData.signCount <= stored.signCount)
+      throw new AuthError('Signature counter mismatch; the authenticator may be cloned!', { code: 'sign_count_mismatch' });
 
-      masterKeyRouter.use('/:id', async (req, next) => {
-        const key = await this.getMasterKey(req.params.id!, req.user!.id!);
-        if(!key)
-          throw new NotFoundError('Key not found with id "' + req.params.id! + '"!');
+    await this.db.putCredential(stored.id!, { ...stored, signCount: authData.signCount, lastUsed: Date.now() });
 
-        req.masterKey = key;
+    const user = await this.db.getUser(stored.user);
+    if(!user)
+      throw new NotFoundError('User not found!', { code: 'user_not_found' });
 
-        return next();
-      });
+    this.#checkCanLogin(user);
 
-      masterKeyRouter.put('/:id', async req => {
-        const body: { name: string } = await req.json();
-        if(!body || typeof body !== 'object' || !body.name || typeof body.name !== 'string')
-          throw new MalformedError('Body should be { name: string }!');
+    const sid = await this.db.addSession(user.id!, 'user', user.username);
+    return (await this.#createSessionJWT(sid))!;
+  }
 
-        await this.updateMasterKey(req.masterKey!, body.name);
-        return noContent();
-      });
+  async getCredentials(user: AuthUser): Promise<Omit<WebAuthnCredential, 'publicKey' | 'user'>[]> {
+    return await this.db.getCredentialsForUser(user.id!).then(res => res.map(c => ({
+      id: c.id,
+      credentialId: c.credentialId,
+      alg: c.alg,
+      signCount: c.signCount,
+      transports: c.transports,
+      name: c.name,
+      created: c.created,
+      lastUsed: c.lastUsed
+    })));
+  }
 
-      masterKeyRouter.delete('/:id', async req => {
+  async deleteCredential(user: AuthUser, id: string): Promise<void> {
+    const credential = await this.db.getCredential(id);
+    if(!credential || credential.user !== user.id)
+      throw new NotFoundError('Credential not found!', { code: 'credential_not_found' });
+
+    await this.db.delCredential(id);
+  }
+
+  // #endregion webauthn
+
+  // #region handshakes
+
+  async startHandshake(redirect: string, app: string, extra?: Partial<{
+    permissions: readonly string[];
+    collections: readonly string[];
+    /** (OAuth) The state to give back to the app */
+    state: string;
+    /** (OAuth) The PKCE code challenge (S256) */
+    codeChallenge: string;
+  }>, username?: string): Promise<string> {
+    if(app === 'secure' || app === 'user')
+      throw new ForbiddenError(`App cannot be called "${app}".`, { code: 'invalid_app' });
+
+    const url = URL.canParse(redirect) ? new URL(redirect) : null;
+    if(extra?.codeChallenge && !url)
+      throw new MalformedError('The redirect URI must be absolute.', { code: 'invalid_request' });
+
+    // or else anyone could claim to be the app, and have the code sent to themselves
+    if(url && url.origin !== getAppOrigin(app))
+      throw new MalformedError('The redirect URI must be on the app\'s origin.', { code: 'invalid_request' });
+
+    const hsId = await this.db.addHandshake({
+      app,
+      redirect,
+
+      permissions: extra?.permissions ?? [],
+      collections: extra?.collections ?? [],
+
+      state: extra?.state ?? null,
+      codeChallenge: extra?.codeChallenge ?? null,
+
+      created: Date.now()
+    } as Handshake);
+
+    return `/handshake?handshake=${hsId}${username ? `&username=${username}` : ''}`;
+  }
+
+  /**
+   * Verify the manifest of a secure app (which is only registered once a handshake for it is approved)
+   * @param manifest The manifest; a JWT signed by the app's key, with the public key in its `jwk` header
+   * @returns The app's hash, the app and the manifest's claims
+   */
+  async #verifyManifest(manifest: string): Promise<{ hash: string; app: NonNullable<Handshake['secureApp']>; claims: SecureAppManifest }> {
+    let claims: SecureAppManifest;
+    let header: { alg?: string; jwk?: JsonWebKey };
+
+    try {
+      const res = await jose.jwtVerify(manifest, jose.EmbeddedJWK, { algorithms: secureAppAlgorithms.slice(), maxTokenAge: '5m' });
+      claims = res.payload as unknown as SecureAppManifest;
+      header = res.protectedHeader;
+    } catch(e) {
+      console.error('manifest validation error:', e);
+      throw new ForbiddenError('Manifest does not validate!', { code: 'invalid_manifest' });
+    }
+
+    const isList = (list: unknown) => list === undefined || (list instanceof Array && list.every(i => typeof i === 'string'));
+
+    if(!claims.name || typeof claims.name !== 'string' || typeof claims.redirect !== 'string' || !URL.canParse(claims.redirect) ||
+      !isList(claims.permissions) || !isList(claims.collections))
+      throw new MalformedError('The manifest must have a name, a redirect URL, and (optionally) permissions and collections.', { code: 'invalid_manifest' });
+
+    const hash = await jose.calculateJwkThumbprint(header.jwk!, 'sha256');
+
+    return { hash, app: { publicKey: header.jwk!, alg: header.alg!, name: claims.name }, claims };
+  }
+
+  /**
+   * Register the secure app of an approved handshake (or update its name)
+   */
+  async #registerSecureApp(handshake: Handshake): Promise<void> {
+    const now = Date.now();
+    const app = await this.db.getSecureAppFromHash(handshake.hash!);
+
+    if(app)
+      await this.db.putSecureApp(app.id!, { ...app, name: handshake.secureApp!.name, updated: now });
+    else
+      await this.db.addSecureApp({ hash: handshake.hash!, ...handshake.secureApp!, created: now, updated: now });
+  }
+
+  /**
+   * Start a handshake for a secure app, which proves who it is with its manifest
+   * @param manifest The manifest (see `SecureAppManifest`)
+   * @param redirect The redirect, which must match the manifest's
+   * @param username (optional) The username to hint at
+   * @returns {Promise<string>} The url of the approval page
+   */
+  async startSecureHandshake(manifest: string, redirect: string, username?: string): Promise<string> {
+    const { hash, app, claims } = await this.#verifyManifest(manifest);
+
+    if(claims.redirect !== redirect)
+      throw new MalformedError('The redirect does not match the manifest!', { code: 'handshake_mismatch' });
+
+    const hsId = await this.db.addHandshake({
+      app: 'secure',
+      redirect,
+      hash,
+      secureApp: app,
+
+      permissions: claims.permissions ?? [],
+      collections: claims.collections ?? [],
+
+      created: Date.now()
+    } as Handshake);
+
+    return `/handshake?handshake=${hsId}${username ? `&username=${username}` : ''}`;
+  }
+
+  /**
+   * Verify that a secure app holds its key, via a proof (a JWT of `{ code }` signed by it)
+   */
+  async #verifyProof(handshake: Handshake, code: string, proof?: string): Promise<void> {
+    const app = handshake.hash ? await this.db.getSecureAppFromHash(handshake.hash) : null;
+    if(!app || !proof)
+      throw new ForbiddenError('Secure apps must give a proof!', { code: 'invalid_proof' });
+
+    let valid = false;
+
+    try {
+      const { payload } = await jose.jwtVerify(proof, await jose.importJWK(app.publicKey, app.alg), { algorithms: [app.alg], maxTokenAge: '5m' });
+      valid = payload.code === code;
+    } catch(e) {
+      console.error('proof validation error:', e);
+    }
+
+    if(!valid)
+      throw new ForbiddenError('Proof does not validate!', { code: 'invalid_proof' });
+  }
+
+  async completeHandshake(redirect: string, app: string, code: string, extra?: Partial<{
+    permissions: readonly string[];
+    collections: readonly string[];
+    /** For secure apps, a JWT of `{ code }` signed by the app's key */
+    proof: string;
+  }>): Promise<string> {
+    const handshake = await this.db.getHandshakeFromCode(code);
+    if(!handshake)
+      throw new NotFoundError('Handshake not found with the given code!', { code: 'handshake_not_found' });
+
+    await this.db.delHandshake(handshake.id!);
+    if(handshake.codeChallenge)
+      throw new MalformedError('This handshake must be completed via `/token`!', { code: 'pkce_required' });
+
+    if(handshake.created + this.#handshakeExpTime < Date.now())
+      throw new NotFoundError('Handshake expired!', { code: 'handshake_expired' });
+
+    if(handshake.redirect !== redirect)
+      throw new MalformedError('Handshake/body mismatch!', { code: 'handshake_mismatch' });
+
+    const user = await this.db.getUser(handshake.user!);
+    if(!user)
+      throw new NotFoundError('User not found!', { code: 'user_not_found' });
+
+    if(handshake.app !== app ||
+      JSON.stringify(extra?.permissions ?? []) !== JSON.stringify(handshake.permissions) ||
+      JSON.stringify(extra?.collections ?? []) !== JSON.stringify(handshake.collections))
+      throw new MalformedError('Handshake/body mismatch!', { code: 'handshake_mismatch' });
+
+    const secure = handshake.app === 'secure';
+    if(secure)
+      await this.#verifyProof(handshake, code, extra?.proof);
+
+    // secure apps are identified by their hash, rather than the username
+    const sid = await this.db.addSession(user.id!, handshake.app, secure ? handshake.hash! : user.username, handshake);
+    const session = (await this.db.getSession(sid))!;
+    await this.#recordApp(session);
+
+    return (await this.#createSessionJWT(session))!;
+  }
+
+  async testHandshake(id: string, session: AuthSession): Promise<Handshake> {
+    if(session.context !== 'user')
+      throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+    const handshake = await this.db.getHandshake(id);
+    if(!handshake || (handshake.user && handshake.user !== session.user))
+      throw new NotFoundError('No handshake found with id "' + id + '"!', { code: 'handshake_not_found' });
+
+    if(handshake.created + this.#handshakeExpTime < Date.now()) {
+      await this.db.delHandshake(id);
+      throw new NotFoundError('Handshake expired!', { code: 'handshake_expired' });
+    }
+
+    return handshake;
+  }
+
+  async approveHandshake(handshake: Handshake, user: AuthUser, client?: ClientInfo): Promise<string> {
+
+    let code: string;
+    do {
+      code = getSalt().replace(/\+/g, '-');
+    } while(await this.db.getHandshakeFromCode(code) != null);
+
+    handshake.user = user.id;
+    handshake.code = code;
+
+    if(handshake.app === 'secure')
+      await this.#registerSecureApp(handshake);
+
+    await this.db.putHandshake(handshake.id!, handshake);
+    await this.#logSecurityEvent(user.id!, 'app_approved', client, {
+      app: handshake.app,
+      ...(handshake.hash ? { hash: handshake.hash } : { }),
+      permissions: handshake.permissions,
+      collections: handshake.collections
+    });
+
+    if(handshake.codeChallenge)
+      return this.#makeOAuthRedirect(handshake, { code });
+
+    return handshake.redirect + '?code=' + code;
+  }
+
+  async cancelHandshake(handshake: Handshake): Promise<string> {
+    await this.db.delHandshake(handshake.id!);
+
+    if(handshake.codeChallenge)
+      return this.#makeOAuthRedirect(handshake, { error: 'access_denied' });
+
+    return handshake.redirect + '?error=access_denied';
+  }
+
+  #makeOAuthRedirect(handshake: Handshake, params: Record<string, string>): string {
+    const url = new URL(handshake.redirect);
+
+    for(const [key, value] of Object.entries(params))
+      url.searchParams.set(key, value);
+
+    if(handshake.state)
+      url.searchParams.set('state', handshake.state);
+
+    return url.href;
+  }
+
+  /**
+   * (OAuth) Exchange an authorization code for tokens, verifying the PKCE code verifier
+   */
+  async exchangeCode(code: string, redirect: string, app: string, verifier: string): Promise<TokenResponse> {
+    const handshake = await this.db.getHandshakeFromCode(code);
+    if(!handshake || !handshake.codeChallenge)
+      throw new MalformedError('Invalid authorization code.', { code: 'invalid_grant' });
+
+    // codes can only be used once
+    await this.db.delHandshake(handshake.id!);
+
+    if(handshake.created + this.#handshakeExpTime < Date.now())
+      throw new MalformedError('Authorization code expired.', { code: 'invalid_grant' });
+
+    if(handshake.redirect !== redirect || handshake.app !== app)
+      throw new MalformedError('Redirect URI or client ID mismatch.', { code: 'invalid_grant' });
+
+    if(await makeCodeChallenge(verifier) !== handshake.codeChallenge)
+      throw new MalformedError('Code verifier mismatch.', { code: 'invalid_grant' });
+
+    const user = await this.db.getUser(handshake.user!);
+    if(!user)
+      throw new MalformedError('User not found.', { code: 'invalid_grant' });
+
+    const sid = await this.db.addSession(user.id!, handshake.app, user.username, handshake);
+    const session = (await this.db.getSession(sid))!;
+    await this.#recordApp(session);
+
+    return await this.#createTokenResponse(session);
+  }
+
+  // #endregion handshakes
+
+  // #region masterkeys
+
+  #toMasterKeyInfo(key: MasterKey, token: string): MasterKeyInfo {
+    return {
+      id: key.id!,
+      name: key.name ?? '',
+      type: key.type,
+      contexts: key.contexts ?? [],
+      permissions: key.permissions ?? [],
+      created: key.created,
+      expires: key.expires ?? null,
+      lastUsed: key.lastUsed ?? null,
+      token
+    };
+  }
+
+  /**
+   * Verify a master key's token (sent by a Home node), making sure it hasn't expired
+   * @param id The ID of the master key
+   * @param token The master key token (JWT)
+   * @returns {Promise<MasterKey>} The master key
+   */
+  async verifyMasterKey(id: string, token: string): Promise<MasterKey> {
+    const key = await this.db.getMasterKey(id);
+    if(!key)
+      throw new AuthError('Master key not found!', { code: 'master_key_not_found' });
+
+    try {
+      const { payload } = await jose.jwtVerify(token, await importSecret(key.secret), { algorithms: ['HS384'], issuer: this.#serverName });
+      if(payload.jti !== key.id)
+        throw new Error(`Token is not for master key "${key.id}"!`);
+    } catch(e) {
+      console.error('master key validation error:', e);
+      throw new AuthError('Master key does not validate!', { code: 'invalid_master_key' });
+    }
+
+    if(key.expires && key.expires < Date.now())
+      throw new AuthError('Master key expired!', { code: 'master_key_expired' });
+
+    return key;
+  }
+
+  /**
+   * Make a session with a (verified) master key, within its scope: only for the contexts it allows,
+   * with the app's identifier being the username (unless it is a secure app), and with only the permissions
+   * it allows (none by default). The session is recorded against the key.
+   *
+   * @returns {Promise<string>} The session token (JWT)
+   */
+  async generateSessionFromMasterKey(key: MasterKey, context: string, identifier: string, extra?: Partial<Pick<AuthSession, 'collections' | 'permissions'>>): Promise<string> {
+
+    const user = await this.db.getUser(key.user);
+    if(!user)
+      throw new NotFoundError('User not found!', { code: 'user_not_found' });
+
+    if(user.disabled)
+      throw new ForbiddenError('User is disabled!', { code: 'user_disabled' });
+
+    const contexts = key.contexts ?? [];
+    if(context === 'user' || !(contexts.includes(context) || contexts.includes('*')))
+      throw new ForbiddenError(`Master key cannot make sessions for "${context}"!`, { code: 'context_not_allowed' });
+
+    if(context !== 'secure' && identifier !== user.username)
+      throw new MalformedError('The identifier must be the username for non-secure apps!', { code: 'invalid_identifier' });
+
+    const permissions = extra?.permissions ?? [];
+    const denied = permissions.filter(perm => !grantsPermission(key.permissions ?? [], perm));
+    if(denied.length)
+      throw new ForbiddenError(`Master key cannot give: ${denied.join(', ')}.`, { code: 'permission_not_allowed', details: { denied } });
+
+    const sid = await this.db.addSession(user.id!, context, identifier, {
+      collections: extra?.collections ?? [],
+      permissions,
+      masterKey: key.id!
+    });
+    const session = (await this.db.getSession(sid))!;
+    await this.#recordApp(session);
+
+    await this.db.putMasterKey(key.id!, { ...key, lastUsed: Date.now() });
+
+    return (await this.#createSessionJWT(session))!;
+  }
+
+  async getMasterKeys(user: string): Promise<MasterKeyInfo[]> {
+    const keys = await this.db.getMasterKeysForUser(user);
+
+    return await Promise.all(keys.map(async k => this.#toMasterKeyInfo(k, await this.#createMasterKeyJWT(k))));
+  }
+
+  /**
+   * Add a master key; its permissions must be for its type of node (i.e. `files:` or `db:`)
+   */
+  async addMasterKey(user: string, options: {
+    name?: string;
+    type: 'file' | 'db';
+    contexts: readonly string[];
+    permissions?: readonly string[];
+    expiresIn?: number;
+  }): Promise<MasterKeyInfo> {
+    const namespace = options.type === 'file' ? 'files:' : 'db:';
+    const permissions = options.permissions ?? [namespace + '*'];
+
+    const invalid = permissions.filter(perm => !perm.startsWith(namespace));
+    if(invalid.length)
+      throw new MalformedError(`Permissions must be under "${namespace}": ${invalid.join(', ')}.`, { code: 'invalid_permission' });
+
+    if(!options.contexts.length || options.contexts.includes('user'))
+      throw new MalformedError('Master keys must have contexts, and cannot make user sessions!', { code: 'invalid_context' });
+
+    const id = await this.db.addMasterKey(user, {
+      name: options.name ?? '',
+      type: options.type,
+      contexts: options.contexts.slice(),
+      permissions: permissions.slice(),
+      expires: options.expiresIn ? Date.now() + options.expiresIn : null
+    });
+
+    const key = (await this.db.getMasterKey(id))!;
+    return this.#toMasterKeyInfo(key, await this.#createMasterKeyJWT(key));
+  }
+
+  async getMasterKey(user: string, id: string): Promise<MasterKey | null> {
+    const key = await this.db.getMasterKey(id);
+
+    if(!key || key.user !== user)
+      return null;
+
+    return key;
+  }
+
+  async updateMasterKey(key: MasterKey, name: string): Promise<void> {
+    await this.db.putMasterKey(key.id!, { ...key, name });
+  }
+
+  /**
+   * Delete a master key, revoking every session it made
+   */
+  async deleteMasterKey(key: MasterKey): Promise<void> {
+    await this.deleteMasterKeySessions(key);
+    await this.db.delMasterKey(key.id!);
+  }
+
+  async getMasterKeySessions(key: MasterKey): Promise<Omit<AuthSession, 'secret'>[]> {
+    return await this.db.getSessionsForMasterKey(key.id!).then(res => res.map(s => ({ ...s, secret: undefined })));
+  }
+
+  async deleteMasterKeySession(key: MasterKey, id: string): Promise<void> {
+    const sess = await this.db.getSession(id);
+
+    if(!sess || sess.masterKey !== key.id)
+      throw new NotFoundError('No session found!', { code: 'session_not_found' });
+
+    await this.logout(id);
+  }
+
+  async deleteMasterKeySessions(key: MasterKey): Promise<void> {
+    const sids = await this.db.getSessionsForMasterKey(key.id!).then(res => res.map(s => s.id!));
+
+    await this.db.delManySessions(sids);
+    await this.db.delRefreshTokensForSessions(sids);
+  }
+
+  // #endregion masterkeys
+
+  // #region remotekeys
+
+  #toRemoteKeyInfo(key: RemoteKey): RemoteKeyInfo {
+    return { id: key.id!, name: key.name ?? '', url: key.url, type: key.type, created: key.created };
+  }
+
+  async getRemoteKeys(user: string): Promise<RemoteKeyInfo[]> {
+    return await this.db.getRemoteKeysForUser(user).then(res => res.map(k => this.#toRemoteKeyInfo(k)));
+  }
+
+  /**
+   * Keep a master key for a dedicated node (on a Home node)
+   * @param user The user
+   * @param options The master key token (JWT), the root api url of the dedicated node, and its type
+   */
+  async addRemoteKey(user: string, options: { key: string; url: string; type: 'file' | 'db'; name?: string }): Promise<string> {
+    let keyId: string | undefined;
+    try {
+      keyId = jose.decodeJwt(options.key).jti;
+    } catch(e) {
+      console.error('master key decode error:', e);
+    }
+
+    if(!keyId)
+      throw new MalformedError('Invalid master key!', { code: 'invalid_master_key' });
+
+    // the Home node fetches this url with the key, so it must not be able to reach into the local network
+    const url = URL.canParse(options.url) ? new URL(options.url) : null;
+    if(!url || url.protocol !== 'https:' || url.username || url.password || isPrivateHost(url.hostname))
+      throw new MalformedError('Invalid dedicated node url; it must be a public https url!', { code: 'invalid_url' });
+
+    return await this.db.addRemoteKey({
+      user,
+      name: options.name ?? '',
+      key: options.key,
+      keyId,
+      url: url.href.replace(/\/+$/, ''),
+      type: options.type
+    });
+  }
+
+  async getRemoteKey(user: string, id: string): Promise<RemoteKey | null> {
+    const key = await this.db.getRemoteKey(id);
+
+    if(!key || key.user !== user)
+      return null;
+
+    return key;
+  }
+
+  async updateRemoteKey(key: RemoteKey, name: string): Promise<void> {
+    await this.db.putRemoteKey(key.id!, { ...key, name });
+  }
+
+  async deleteRemoteKey(key: RemoteKey): Promise<void> {
+    await this.db.delRemoteKey(key.id!);
+  }
+
+  /**
+   * Make sessions on each of the user's dedicated nodes (via their `/auth/master-key/:id/generate-session`)
+   * like the given one, with only the permissions meant for each type of node. Nodes which fail are left out
+   * (and logged), as the handshake has already been completed.
+   *
+   * @param session The (app) session made by the handshake
+   * @returns {Promise<RemoteSession[]>} The sessions which were made
+   */
+  async generateRemoteSessions(session: AuthSession): Promise<RemoteSession[]> {
+    const app = await this.db.getAppFor(session.user, session.context, session.identifier);
+    // only use the app's preferred nodes, if it has any
+    const keys = await this.db.getRemoteKeysForUser(session.user).then(res => res.filter(key => {
+      const preferred = key.type === 'file' ? app?.fileNode : app?.dbNode;
+      return !preferred || preferred === key.url;
+    }));
+
+    const sessions = await Promise.all(keys.map(async key => {
+      const namespace = key.type === 'file' ? 'files:' : 'db:';
+
+      try {
+        // (keys may have been added before their urls were checked)
+        const url = new URL(key.url);
+        if(url.protocol !== 'https:' || isPrivateHost(url.hostname))
+          throw new Error('The dedicated node url is not a public https url.');
+
+        const res = await fetch(`${key.url}/auth/master-key/${encodeURIComponent(key.keyId)}/generate-session`, {
+          method: 'POST',
+          headers: { 'Authorization': 'Bearer ' + key.key, 'Content-Type': 'application/json', 'Accept': 'application/json' },
+          body: JSON.stringify({
+            context: session.context,
+            identifier: session.identifier,
+            collections: session.collections,
+            permissions: session.permissions.filter(perm => perm.startsWith(namespace))
+          }),
+          redirect: 'error',
+          signal: AbortSignal.timeout(10000)
+        });
+
+        if(!res.ok)
+          throw new Error(`${res.status} ${await res.text()}`);
+
+        const token: unknown = await res.json();
+        if(typeof token !== 'string' || !/^[\w-]+\.[\w-]+\.[\w-]+$/.test(token))
+          throw new Error('The response was not a session token.');
+
+        return { type: key.type, url: key.url, token };
+      } catch(e) {
+        console.error(`[AuthApi]: Error making a session on "${key.url}" with remote key "${key.id}"!`, e);
+        return null;
+      }
+    }));
+
+    return sessions.filter(Boolean) as RemoteSession[];
+  }
+
+  /** On Home nodes, add the sessions on the user's dedicated nodes to a token response */
+  async #withRemoteSessions(res: TokenResponse): Promise<TokenResponse> {
+    if(!this.#homeNode)
+      return res;
+
+    const session = await this.db.getSession(jose.decodeJwt(res.access_token).jti!);
+    return session ? { ...res, nodes: await this.generateRemoteSessions(session) } : res;
+  }
+
+  // #endregion remotekeys
+
+  // #region apps
+
+  /** Record that an app was given a session, with what it was granted */
+  async #recordApp(session: AuthSession): Promise<void> {
+    const app = await this.db.getAppFor(session.user, session.context, session.identifier);
+
+    if(app)
+      await this.db.putApp(app.id!, {
+        ...app,
+        permissions: session.permissions,
+        collections: session.collections,
+        lastUsed: session.created
+      });
+    else
+      await this.db.addApp({
+        user: session.user,
+        context: session.context,
+        identifier: session.identifier,
+        permissions: session.permissions,
+        collections: session.collections,
+        firstUsed: session.created,
+        lastUsed: session.created,
+        fileNode: null,
+        dbNode: null
+      });
+  }
+
+  /**
+   * Get the apps a user has connected, or for an app session, only its own entry
+   */
+  async getApps(session: AuthSession): Promise<AuthApp[]> {
+    if(session.context === 'user')
+      return await this.db.getAppsForUser(session.user);
+
+    const app = await this.db.getAppFor(session.user, session.context, session.identifier);
+    return app ? [app] : [];
+  }
+
+  async getApp(user: string, id: string): Promise<AuthApp | null> {
+    const app = await this.db.getApp(id);
+
+    if(!app || app.user !== user)
+      return null;
+
+    return app;
+  }
+
+  /**
+   * Set the dedicated nodes an app should store its files and data on (on Home nodes), which must be ones
+   * the user has a master key for; null for any
+   */
+  async updateApp(app: AuthApp, update: { fileNode?: string | null; dbNode?: string | null }): Promise<AuthApp> {
+    const keys = await this.db.getRemoteKeysForUser(app.user);
+
+    for(const [type, url] of [['file', update.fileNode], ['db', update.dbNode]] as const) {
+      if(url && !keys.find(k => k.type === type && k.url === url))
+        throw new MalformedError(`No ${type} node with the url "${url}"!`, { code: 'node_not_found' });
+    }
+
+    const updated: AuthApp = {
+      ...app,
+      fileNode: update.fileNode !== undefined ? update.fileNode : app.fileNode ?? null,
+      dbNode: update.dbNode !== undefined ? update.dbNode : app.dbNode ?? null
+    };
+
+    await this.db.putApp(app.id!, updated);
+    return updated;
+  }
+
+  /**
+   * Remove an app, revoking its sessions; unless `soft`, its data is deleted as well (via `onAppDelete`)
+   */
+  async deleteApp(app: AuthApp, soft = false): Promise<void> {
+    const sids = await this.db.getSessionsForUser(app.user)
+      .then(res => res.filter(s => s.context === app.context && s.identifier === app.identifier).map(s => s.id!));
+
+    await this.db.delManySessions(sids);
+    await this.db.delRefreshTokensForApp(app.user, app.context, app.identifier);
+    await this.db.delApp(app.id!);
+
+    if(!soft)
+      Evt.asPostable(this.onAppDelete).post(app);
+  }
+
+  // #endregion apps
+
+  // #region security
+
+  /** Get the client of a request, to record on sessions and security events */
+  #getClient(req: AuthRequest): ClientInfo {
+    const userAgent = req.headers.get('User-Agent') || null;
+
+    return { userAgent, ip: getRequestIp(req, this.#trustProxy) ?? null, device: describeDevice(userAgent) };
+  }
+
+  /**
+   * Record the client which made a session on it
+   * @param token The session token (JWT)
+   * @param client The client
+   * @returns {Promise<AuthSession | null>} The session, if it exists
+   */
+  async #describeSession(token: string, client: ClientInfo): Promise<AuthSession | null> {
+    const session = await this.db.getSession(jose.decodeJwt(token).jti!);
+    if(!session)
+      return null;
+
+    const described = { ...session, ...client };
+    await this.db.putSession(session.id!, described);
+
+    return described;
+  }
+
+  /**
+   * Log a security event, and post it (see `onSecurityEvent`); logins are marked as from a `newDevice` if
+   * the user has logged in before, but never from the same device
+   */
+  async #logSecurityEvent(user: string, type: SecurityEvent['type'], client?: ClientInfo, details: Record<string, unknown> = { }): Promise<void> {
+    const info = client ?? { userAgent: null, ip: null, device: null };
+
+    if(type === 'login') {
+      const logins = await this.db.getSecurityEventsForUser(user, { type: 'login', limit: 50 });
+      details = { ...details, newDevice: logins.length > 0 && !logins.some(e => e.device === info.device) };
+    }
+
+    const event: SecurityEvent = { user, type, details, ...info, created: Date.now() };
+    const id = await this.db.addSecurityEvent(event);
+
+    Evt.asPostable(this.onSecurityEvent).post({ ...event, id });
+  }
+
+  /**
+   * Get a user's security events (logins, apps approved, and passwords changed), most recent first
+   */
+  async getSecurityEvents(user: string, options: { type?: SecurityEvent['type']; skip?: number; limit?: number } = { }): Promise<SecurityEvent[]> {
+    return await this.db.getSecurityEventsForUser(user, { ...options, limit: options.limit ?? 50 });
+  }
+
+  // #endregion security
+
+  compile(router = new Router<AuthRequest>()): Router<AuthRequest> {
+    const requireUserSession = validateUserSession(this.db);
+
+    const noLimit: RouteHandler<AuthRequest> = (_, next) => next();
+    const limitIp = this.#ipLimiter
+      ? rateLimit<AuthRequest>(this.#ipLimiter, { name: 'auth', trustProxy: this.#trustProxy })
+      : noLimit;
+    // keyed on the IP as well, so that others can't lock a user out, and only failures count
+    // (the IP limiter is still the overall cap)
+    const limitUsername = this.#loginLimiter
+      ? rateLimit<AuthRequest & { context: { body: { username: string } } }>(this.#loginLimiter, {
+        name: 'login',
+        key: req => req.context.body.username.toLowerCase() + ':' + (getRequestIp(req, this.#trustProxy) ?? ''),
+        resetOnSuccess: true
+      })
+      : noLimit;
+
+    // clients which would rather have json are given a refresh token alongside the session
+    // (logins are recorded as security events)
+    const sessionResponse = async (req: AuthRequest, token: string) => {
+      const client = this.#getClient(req);
+      const session = await this.#describeSession(token, client);
+      if(session)
+        await this.#logSecurityEvent(session.user, 'login', client);
+
+      return negotiate(req.headers.get('Accept'), ['text/plain', 'application/json']) === 'application/json'
+        ? json(await this.issueTokens(token), { headers: { 'Cache-Control': 'no-store' } })
+        : text(token);
+    };
+
+    router.use(describe({ tags: ['Auth'] }), handleError('Auth'));
+
+    // #region core
+
+    router.post('/login', describe({
+      summary: 'Login with a username and password, getting a user session',
+      responses: {
+        ...tokenResponse,
+        202: {
+          description: 'Two-factor authentication is enabled; complete the challenge via `/login/2fa`.',
+          schema: { type: 'object', properties: { challenge: { type: 'string' }, expires: { type: 'integer' } } }
+        },
+        401: { description: 'Username / password mismatch.' },
+        429: { description: 'Too many attempts.' }
+      }
+    }), limitIp, validate<{ username: string; password: string }, AuthRequest>({ body: credentialsSchema }), limitUsername, async req => {
+      const res = await this.login(req.context.body.username, req.context.body.password);
+
+      return typeof res === 'string' ? await sessionResponse(req, res) : json(res, { status: 202 });
+    });
+
+    router.post('/login/2fa', describe({
+      summary: 'Complete a login challenge with a TOTP or recovery code, getting a user session',
+      responses: { ...tokenResponse, 401: { description: 'Invalid code.' }, 404: { description: 'The challenge was not found or expired.' } }
+    }), limitIp, validate<{ challenge: string; code: string }, AuthRequest>({ body: completeLoginSchema }),
+    async req => await sessionResponse(req, await this.completeLogin(req.context.body.challenge, req.context.body.code)));
+
+    router.post('/register', describe({
+      summary: 'Register a new user',
+      responses: {
+        ...noContentResponse,
+        403: { description: 'The username is taken or not whitelisted, or the invite is required, invalid or used.' },
+        429: { description: 'Too many attempts.' }
+      }
+    }), limitIp, validate<{ username: string; password: string; invite?: string }, AuthRequest>({ body: registerSchema }), async req => {
+      await this.register(req.context.body.username, req.context.body.password, req.context.body.invite);
+      return noContent();
+    });
+
+    router.get('/can-register', describe({
+      summary: 'Check whether or not registrations are open',
+      responses: { ...noContentResponse, 403: { description: 'Registrations are closed, or need an invite (`invite_required`).' } }
+    }), () => {
+      if(!this.#allowRegistration)
+        throw new ForbiddenError(undefined, { code: 'registration_closed' });
+
+      if(this.#inviteOnly)
+        throw new ForbiddenError('An invite is required.', { code: 'invite_required' });
+
+      return noContent();
+    });
+
+    router.post('/reset-pass', describe({
+      summary: 'Reset the password, if an admin has required it, to be able to login again',
+      responses: {
+        ...noContentResponse,
+        401: { description: 'Username / password mismatch.' },
+        403: { description: 'The password does not need to be reset.' },
+        429: { description: 'Too many attempts.' }
+      }
+    }), limitIp, validate<{ username: string; password: string; newpass: string }, AuthRequest>({ body: resetPassSchema }), limitUsername, async req => {
+      await this.resetPass(req.context.body.username, req.context.body.password, req.context.body.newpass, this.#getClient(req));
+      return noContent();
+    });
+
+    router.post('/change-pass', describe({
+      summary: 'Change the password, revoking every other session',
+      auth: true,
+      responses: noContentResponse
+    }), requireUserSession, validate<{ password: string; newpass: string }, AuthRequest>({ body: changePassSchema }), async req => {
+      if(req.session!.context !== 'user')
+        throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+      await this.changePass(req.user, req.context.body.password, req.context.body.newpass, req.session!.id!, this.#getClient(req));
+
+      return noContent();
+    });
+
+    router.use('/sessions', describe({ auth: true }), requireUserSession, (req, next) => {
+      if(req.session?.context !== 'user')
+        throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+      return next();
+    });
+
+    router.get('/sessions', describe({
+      summary: 'List the active sessions of the user',
+      responses: { 200: { description: 'The sessions.', schema: { type: 'array', items: sessionSchema } } }
+    }), async req => json(await this.sessions(req.user)));
+
+    router.delete('/sessions/:id', describe({ summary: 'Revoke a session', responses: noContentResponse }), async req => {
+      await this.deleteSession(req.params.id!, req.user);
+
+      return noContent();
+    });
+
+    router.delete('/sessions', describe({ summary: 'Revoke every session except the current one', responses: noContentResponse }), async req => {
+      await this.deleteSessions(req.user.id!, req.session!.id!);
+
+      return noContent();
+    });
+
+    router.get('/security-events', describe({
+      summary: 'List the security events of the user (logins, apps approved, and passwords changed)',
+      auth: true,
+      responses: { 200: { description: 'The events, most recent first.', schema: { type: 'array', items: securityEventSchema } } }
+    }), requireUserSession, validate<unknown, AuthRequest>({ query: listSecurityEventsSchema }), async req => {
+      if(req.session?.context !== 'user')
+        throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+      return json(await this.getSecurityEvents(req.user.id!, {
+        type: req.query.type as SecurityEvent['type'] | undefined,
+        skip: req.query.skip ? Number(req.query.skip) : undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined
+      }));
+    });
+
+    router.get('/apps', describe({
+      summary: 'List the apps the user has connected, or as an app, get only your own entry',
+      auth: true,
+      responses: { 200: { description: 'The apps, most recently used first.', schema: { type: 'array', items: appSchema } } }
+    }), requireUserSession, async req => json(await this.getApps(req.session!)));
+
+    router.use('/apps/:id', describe({ auth: true }), requireUserSession, async (req, next) => {
+      if(req.session?.context !== 'user')
+        throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+      const app = await this.getApp(req.user.id!, req.params.id!);
+      if(!app)
+        throw new NotFoundError('App not found with id "' + req.params.id! + '"!', { code: 'app_not_found' });
+
+      req.app = app;
+
+      return next();
+    });
+
+    router.put('/apps/:id', describe({
+      summary: '(Home nodes) Set the dedicated nodes an app should store its files and data on',
+      responses: { 200: { description: 'The app.', schema: appSchema }, 400: { description: 'No dedicated node has the url.' } }
+    }), validate<{ fileNode?: string | null; dbNode?: string | null }, AuthRequest>({ body: updateAppSchema }),
+    async req => json(await this.updateApp(req.app!, req.context.body)));
+
+    router.delete('/apps/:id', describe({
+      summary: 'Remove an app, revoking its sessions and deleting its data (unless `soft`)',
+      query: { type: 'object', properties: { soft: { type: 'string', description: 'If given, keep the app\'s data.' } } },
+      responses: noContentResponse
+    }), async req => {
+      await this.deleteApp(req.app!, req.query.soft != undefined);
+      return noContent();
+    });
+
+    router.use('/invites', describe({ auth: true }), requireUserSession, (req, next) => {
+      if(req.session?.context !== 'user')
+        throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+      return next();
+    });
+
+    router.get('/invites', describe({
+      summary: 'List the invites the user has made',
+      responses: { 200: { description: 'The invites.', schema: { type: 'array', items: inviteSchema } } }
+    }), async req => json(await this.getInvites(req.user)));
+
+    router.post('/invites', describe({
+      summary: 'Make an invite code',
+      responses: {
+        200: {
+          description: 'The invite; its code is only given out this once.',
+          schema: { type: 'object', properties: { id: { type: 'string' }, code: { type: 'string' }, expires: { type: 'integer' } } }
+        },
+        403: { description: 'Only admins can make invites.' }
+      }
+    }), validate<{ uses?: number; expiresIn?: number }, AuthRequest>({ body: createInviteSchema }),
+    async req => json(await this.createInvite(req.user, req.context.body)));
+
+    router.delete('/invites/:id', describe({ summary: 'Revoke an invite', responses: noContentResponse }), async req => {
+      await this.deleteInvite(req.user, req.params.id!);
+
+      return noContent();
+    });
+
+    router.use('/2fa', describe({ auth: true }), requireUserSession, (req, next) => {
+      if(req.session?.context !== 'user')
+        throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+      return next();
+    });
+
+    router.get('/2fa', describe({
+      summary: 'Get the two-factor authentication status of the user',
+      responses: {
+        200: {
+          description: 'Whether or not TOTP is enabled, and how many recovery codes are left.',
+          schema: { type: 'object', properties: { totp: { type: 'boolean' }, recoveryCodes: { type: 'integer' } } }
+        }
+      }
+    }), req => json(this.getTwoFactor(req.user)));
+
+    router.post('/2fa/totp', describe({
+      summary: 'Set up TOTP, to be confirmed with a code via `/2fa/totp/confirm`',
+      responses: {
+        200: {
+          description: 'The secret, and an `otpauth://` URI for authenticator apps.',
+          schema: { type: 'object', properties: { secret: { type: 'string' }, uri: { type: 'string' } } }
+        }
+      }
+    }), async req => json(await this.setupTotp(req.user)));
+
+    router.post('/2fa/totp/confirm', describe({
+      summary: 'Confirm and enable TOTP, getting recovery codes',
+      responses: recoveryCodesResponse
+    }), validate<{ code: string }, AuthRequest>({ body: codeSchema }),
+    async req => json({ recoveryCodes: await this.confirmTotp(req.user, req.context.body.code) }));
+
+    router.post('/2fa/totp/disable', describe({
+      summary: 'Disable TOTP',
+      responses: noContentResponse
+    }), validate<{ password: string; code: string }, AuthRequest>({ body: disableTotpSchema }), async req => {
+      await this.disableTotp(req.user, req.context.body.password, req.context.body.code);
+
+      return noContent();
+    });
+
+    router.post('/2fa/recovery-codes', describe({
+      summary: 'Replace the recovery codes',
+      responses: recoveryCodesResponse
+    }), validate<{ code: string }, AuthRequest>({ body: codeSchema }),
+    async req => json({ recoveryCodes: await this.regenerateRecoveryCodes(req.user, req.context.body.code) }));
+
+    router.post('/recover', describe({
+      summary: 'Reset a forgotten password with a recovery key, revoking every session',
+      responses: { ...noContentResponse, 401: { description: 'Invalid recovery key.' }, 429: { description: 'Too many attempts.' } }
+    }), limitIp, validate<{ username: string; key: string; newpass: string }, AuthRequest>({ body: recoverSchema }), limitUsername, async req => {
+      await this.recover(req.context.body.username, req.context.body.key, req.context.body.newpass, this.#getClient(req));
+
+      return noContent();
+    });
+
+    router.use('/recovery-keys', describe({ auth: true }), requireUserSession, (req, next) => {
+      if(req.session?.context !== 'user')
+        throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+      return next();
+    });
+
+    router.get('/recovery-keys', describe({
+      summary: 'Get how many recovery keys the user has left',
+      responses: { 200: { description: 'How many are left.', schema: { type: 'object', properties: { recoveryKeys: { type: 'integer' } } } } }
+    }), req => json(this.getRecoveryKeys(req.user)));
+
+    router.post('/recovery-keys', describe({
+      summary: 'Generate recovery keys (for a forgotten password), replacing any old ones',
+      responses: {
+        200: {
+          description: 'The (single-use) recovery keys; they are only shown once.',
+          schema: { type: 'object', properties: { recoveryKeys: listSchema } }
+        },
+        403: { description: 'Password mismatch.' }
+      }
+    }), validate<{ password: string }, AuthRequest>({ body: passwordSchema }),
+    async req => json({ recoveryKeys: await this.generateRecoveryKeys(req.user, req.context.body.password) }));
+
+    router.post('/logout', describe({ summary: 'Revoke the current session', auth: true, responses: noContentResponse }), requireUserSession, async req => {
+      if(req.session)
+        await this.logout(req.session!.id!);
+
+      return noContent();
+    });
+
+    router.get('/refresh', describe({
+      summary: 'Replace the current session with a new one',
+      auth: true,
+      responses: { 200: { description: 'The new session ID.', type: 'text/plain', schema: { type: 'string' } } }
+    }), requireUserSession, async (req: AuthRequest) => {
+      const sid = await this.refresh(req.session!);
+      const session = await this.db.getSession(sid);
+      if(session)
+        await this.db.putSession(sid, { ...session, ...this.#getClient(req) });
+
+      return text(sid);
+    });
+
+    // token endpoint errors are json, as per RFC 6749 section 5.2
+    const oauthError: RouteHandler<AuthRequest> = async (_, next) => {
+      try {
+        return await next();
+
+      } catch(err) {
+        if(!(err instanceof TinyError))
+          throw err;
+
+        const error = err.code === 'validation_failed' ? 'invalid_request' : err.code;
+        const status = err.status === 429 || err.status >= 500 ? err.status : error === 'invalid_client' ? 401 : 400;
+
+        return json({ error, error_description: err.message || undefined }, {
+          status,
+          headers: { ...err.headers, 'Cache-Control': 'no-store', 'Pragma': 'no-cache' }
+        });
+      }
+    };
+
+    router.post('/token', describe({
+      summary: '(OAuth 2.0) Exchange an authorization code (with its PKCE code verifier) or a refresh token for new tokens',
+      responses: {
+        200: {
+          description: 'The tokens.',
+          schema: {
+            type: 'object',
+            properties: {
+              access_token: { type: 'string' },
+              token_type: { type: 'string' },
+              expires_in: { type: 'integer' },
+              refresh_token: { type: 'string' },
+              scope: { type: 'string' }
+            }
+          }
+        },
+        400: { description: 'An OAuth 2.0 error (e.x. `{ "error": "invalid_grant" }`).' }
+      }
+    }), oauthError, limitIp, validate<{
+      grant_type: 'authorization_code' | 'refresh_token';
+      code?: string;
+      redirect_uri?: string;
+      client_id?: string;
+      code_verifier?: string;
+      refresh_token?: string;
+    }, AuthRequest>({ body: tokenSchema }), async req => {
+      const body = req.context.body;
+      let res: TokenResponse;
+
+      if(body.grant_type === 'refresh_token') {
+        if(!body.refresh_token)
+          throw new MalformedError('A refresh token is required.', { code: 'invalid_request' });
+
+        res = await this.refreshToken(body.refresh_token);
+
+      } else {
+        if(!this.#allowHandshakes)
+          throw new MalformedError('Handshakes are disabled.', { code: 'unsupported_grant_type' });
+
+        if(!body.code || !body.redirect_uri || !body.client_id || !body.code_verifier)
+          throw new MalformedError('A code, redirect URI, client ID and code verifier are required.', { code: 'invalid_request' });
+
+        res = await this.#withRemoteSessions(await this.exchangeCode(body.code, body.redirect_uri, body.client_id, body.code_verifier));
+      }
+
+      await this.#describeSession(res.access_token, this.#getClient(req));
+
+      return json(res, { headers: { 'Cache-Control': 'no-store', 'Pragma': 'no-cache' } });
+    });
+
+    // #endregion core
+
+    if(this.#webAuthn) {
+      const webAuthnRouter = new Router<AuthRequest>();
+      webAuthnRouter.use(handleError('auth-webauthn'));
+
+      webAuthnRouter.post('/login/start', describe({
+        summary: 'Start a passwordless login with a WebAuthn credential (passkey)',
+        responses: webAuthnOptionsResponse
+      }), limitIp, validate<{ username?: string }, AuthRequest>({
+        body: { type: 'object', properties: { username: { type: 'string', description: 'The username, if not using a passkey.' } } }
+      }), async req => json(await this.startWebAuthnLogin(req.context.body.username)));
+
+      webAuthnRouter.post('/login', describe({
+        summary: 'Finish a WebAuthn login, getting a user session',
+        responses: {
+          ...tokenResponse,
+          401: { description: 'The credential did not validate.' },
+          403: { description: 'The password must be reset first.' }
+        }
+      }), limitIp, validate<{ challenge: string; credential: AssertionCredential }, AuthRequest>({ body: finishWebAuthnLoginSchema }),
+      async req => await sessionResponse(req, await this.finishWebAuthnLogin(req.context.body.challenge, req.context.body.credential)));
+
+      const requireUser: RouteHandler<AuthRequest> = (req, next) => {
+        if(req.session?.context !== 'user')
+          throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+        return next();
+      };
+
+      webAuthnRouter.use('/register', describe({ auth: true }), requireUserSession, requireUser);
+      webAuthnRouter.use('/credentials', describe({ auth: true }), requireUserSession, requireUser);
+
+      webAuthnRouter.post('/register/start', describe({
+        summary: 'Start registering a WebAuthn credential (passkey)',
+        responses: webAuthnOptionsResponse
+      }), async req => json(await this.startWebAuthnRegistration(req.user)));
+
+      webAuthnRouter.post('/register', describe({
+        summary: 'Finish registering a WebAuthn credential',
+        responses: { 200: { description: 'The credential ID.', type: 'text/plain', schema: { type: 'string' } } }
+      }), validate<{ challenge: string; name?: string; credential: RegistrationCredential }, AuthRequest>({ body: finishRegistrationSchema }), async req => {
+        const body = req.context.body;
+
+        return text(await this.finishWebAuthnRegistration(req.user, body.challenge, body.credential, body.name));
+      });
+
+      webAuthnRouter.get('/credentials', describe({
+        summary: 'List the WebAuthn credentials of the user',
+        responses: {
+          200: {
+            description: 'The credentials.',
+            schema: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  credentialId: { type: 'string' },
+                  alg: { type: 'integer' },
+                  signCount: { type: 'integer' },
+                  transports: listSchema,
+                  name: { type: 'string' },
+                  created: { type: 'integer' },
+                  lastUsed: { type: 'integer' }
+                }
+              }
+            }
+          }
+        }
+      }), async req => json(await this.getCredentials(req.user)));
+
+      webAuthnRouter.delete('/credentials/:id', describe({ summary: 'Delete a WebAuthn credential', responses: noContentResponse }), async req => {
+        await this.deleteCredential(req.user, req.params.id!);
+
+        return noContent();
+      });
+
+      router.use('/webauthn', webAuthnRouter);
+    }
+
+    if(this.#allowHandshakes) {
+      const handshakeRouter = new Router<AuthRequest>();
+      handshakeRouter.use(handleError('auth-handshake'));
+
+      handshakeRouter.get('/start', describe({
+        summary: 'Start a handshake, redirecting to the approval page',
+        responses: { 307: { description: 'A redirect to the approval page.' } }
+      }), validate({ query: startHandshakeSchema }), async req => {
+        if(req.query.app === 'secure') {
+          if(!req.query.manifest)
+            throw new MalformedError('Secure apps must give a manifest!', { code: 'invalid_manifest' });
+
+          return redirect(await this.startSecureHandshake(req.query.manifest, req.query.redirect!, req.query.username));
+        }
+
+        const permissions = req.query.permissions?.replaceAll(/[\[\]]/g, '').split(',') ?? [];
+        const collections = req.query.collections?.replaceAll(/[\[\]]/g, '').split(',') ?? [];
+
+        return redirect(await this.startHandshake(req.query.redirect!, req.query.app!, { permissions, collections }, req.query.username));
+      });
+
+      handshakeRouter.post('/complete', describe({
+        summary: 'Complete a handshake with the code given in the redirect, getting a session (and on Home nodes, sessions on the user\'s dedicated nodes)',
+        responses: tokenResponse
+      }), limitIp, validate<{
+        code: string;
+
+        app: string;
+        redirect: string;
+
+        permissions?: string[];
+        collections?: string[];
+        proof?: string;
+      }, AuthRequest>({ body: completeHandshakeSchema }), async req => {
+        const body = req.context.body;
+        const token = await this.completeHandshake(body.redirect, body.app, body.code, {
+          collections: body.collections,
+          permissions: body.permissions,
+          proof: body.proof
+        });
+        await this.#describeSession(token, this.#getClient(req));
+
+        // the sessions on dedicated nodes are only given in token responses
+        return negotiate(req.headers.get('Accept'), ['text/plain', 'application/json']) === 'application/json'
+          ? json(await this.#withRemoteSessions(await this.issueTokens(token)), { headers: { 'Cache-Control': 'no-store' } })
+          : text(token);
+      });
+
+      handshakeRouter.use('/:id', describe({ auth: true }), requireUserSession, async (req, next) => {
+        if(req.session!.context !== 'user')
+          throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+        req.handshake = await this.testHandshake(req.params.id!, req.session!);
+        return next();
+      });
+
+      handshakeRouter.get('/:id', describe({
+        summary: 'Get the information of a handshake',
+        responses: {
+          200: {
+            description: 'The handshake.',
+            schema: {
+              type: 'object',
+              properties: {
+                app: { type: 'string' },
+                redirect: { type: 'string' },
+                secureApp: {
+                  type: 'object',
+                  nullable: true,
+                  description: 'If the app is `secure`, its name and hash.',
+                  properties: { name: { type: 'string' }, hash: { type: 'string' } }
+                },
+                permissions: listSchema,
+                permissionInfo: {
+                  type: 'array',
+                  description: 'The description of each permission, for the consent screen.',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      description: { type: 'string' },
+                      known: { type: 'boolean', description: 'Whether or not the permission is defined (unknown ones do nothing).' }
+                    }
+                  }
+                },
+                collections: listSchema,
+                created: { type: 'integer' }
+              }
+            }
+          }
+        }
+      }), async req => json({
+        app: req.handshake!.app,
+        redirect: req.handshake!.redirect,
+        secureApp: req.handshake!.secureApp
+          ? { name: req.handshake!.secureApp.name, hash: req.handshake!.hash }
+          : null,
+
+        permissions: req.handshake!.permissions,
+        permissionInfo: describePermissions(req.handshake!.permissions),
+        collections: req.handshake!.collections,
+
+        created: req.handshake!.created
+      }));
+
+      handshakeRouter.get('/:id/approve', describe({
+        summary: 'Approve a handshake, redirecting back to the app with a code',
+        responses: { 307: { description: 'A redirect back to the app.' } }
+      }), async req => redirect(await this.approveHandshake(req.handshake!, req.user!, this.#getClient(req))));
+
+      handshakeRouter.get('/:id/cancel', describe({
+        summary: 'Cancel a handshake, redirecting back to the app with an error',
+        responses: { 307: { description: 'A redirect back to the app.' } }
+      }), async req => redirect(await this.cancelHandshake(req.handshake!)));
+
+      router.use('/handshake', handshakeRouter);
+
+      router.get('/authorize', describe({
+        summary: '(OAuth 2.0) Start an authorization code (with PKCE) handshake, redirecting to the approval page',
+        responses: {
+          307: { description: 'A redirect to the approval page.' },
+          400: { description: 'The redirect URI is not absolute, or not on the app\'s origin.' }
+        }
+      }), validate({ query: authorizeSchema }), async req => {
+        const scope = req.query.scope?.split(' ').filter(Boolean) ?? [];
+
+        return redirect(await this.startHandshake(req.query.redirect_uri!, req.query.client_id!, {
+          permissions: scope.filter(s => !s.startsWith('collection:')),
+          collections: scope.filter(s => s.startsWith('collection:')).map(s => s.slice('collection:'.length)),
+          state: req.query.state,
+          codeChallenge: req.query.code_challenge
+        }, req.query.username));
+      });
+    }
+
+    if(this.#allowMasterKeys && this.#homeNode) {
+      const remoteKeyRouter = new Router<AuthRequest>();
+      remoteKeyRouter.use(describe({ auth: true }), handleError('auth-master-key'), requireUserSession, (req, next) => {
+        if(req.session!.context !== 'user')
+          throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+        return next();
+      });
+
+      remoteKeyRouter.get('/', describe({
+        summary: 'List the master keys the user keeps for their dedicated nodes',
+        responses: { 200: { description: 'The master keys (without the keys themselves).', schema: { type: 'array', items: remoteKeySchema } } }
+      }), async req => json(await this.getRemoteKeys(req.user!.id!)));
+
+      remoteKeyRouter.post('/', describe({
+        summary: 'Keep a master key for a dedicated node, to make sessions on it when apps complete handshakes',
+        responses: noContentResponse
+      }), validate<{ key: string; url: string; type: 'file' | 'db'; name?: string }, AuthRequest>({ body: addRemoteKeySchema }), async req => {
+        await this.addRemoteKey(req.user!.id!, req.context.body);
+        return noContent();
+      });
+
+      remoteKeyRouter.use('/:id', async (req, next) => {
+        const key = await this.getRemoteKey(req.user!.id!, req.params.id!);
+        if(!key)
+          throw new NotFoundError('Key not found with id "' + req.params.id! + '"!', { code: 'master_key_not_found' });
+
+        req.remoteKey = key;
+
+        return next();
+      });
+
+      remoteKeyRouter.put('/:id', describe({
+        summary: 'Rename a master key',
+        responses: noContentResponse
+      }), validate<{ name: string }, AuthRequest>({
+        body: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+      }), async req => {
+        await this.updateRemoteKey(req.remoteKey!, req.context.body.name);
+        return noContent();
+      });
+
+      remoteKeyRouter.delete('/:id', describe({ summary: 'Remove a master key', responses: noContentResponse }), async req => {
+        await this.deleteRemoteKey(req.remoteKey!);
+        return noContent();
+      });
+
+      router.use('/master-key', remoteKeyRouter);
+
+    } else if(this.#allowMasterKeys) {
+      const masterKeyRouter = new Router<AuthRequest>();
+      masterKeyRouter.use(handleError('auth-master-key'));
+
+      masterKeyRouter.post('/:id/generate-session', describe({
+        summary: 'Generate a session from a master key (given as a bearer token)',
+        auth: true,
+        responses: {
+          200: { description: 'The session token (JWT).', schema: { type: 'string' } },
+          401: { description: 'The master key is invalid or expired.' },
+          403: { description: 'The context or permissions are not allowed by the master key.' }
+        }
+      }), limitIp, validate<{
+        context: string;
+        identifier: string;
+      } & Partial<Pick<AuthSession, 'collections' | 'permissions'>>, AuthRequest>({ body: generateSessionSchema }), async req => {
+        const auth = req.headers.get('Authorization') || '';
+        if(!/^bearer\s+.+$/i.test(auth))
+          throw new AuthError('Must give the master key as a bearer token!', { code: 'invalid_master_key' });
+
+        const key = await this.verifyMasterKey(req.params.id!, auth.replace(/^bearer\s+/i, '').trim());
+        const body = req.context.body;
+
+        return json(await this.generateSessionFromMasterKey(key, body.context, body.identifier, body));
+      });
+
+      masterKeyRouter.use(describe({ auth: true }), requireUserSession, (req, next) => {
+        if(req.session!.context !== 'user')
+          throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
+
+        return next();
+      });
+
+      masterKeyRouter.get('/', describe({
+        summary: 'List the master keys of the user',
+        responses: { 200: { description: 'The master keys.', schema: { type: 'array', items: masterKeySchema } } }
+      }), async req => json(await this.getMasterKeys(req.user!.id!)));
+
+      masterKeyRouter.post('/', describe({
+        summary: 'Add a master key, scoped to certain contexts and permissions',
+        responses: { 200: { description: 'The master key.', schema: masterKeySchema } }
+      }), validate<{
+        name?: string;
+        type: 'file' | 'db';
+        contexts: string[];
+        permissions?: string[];
+        expiresIn?: number;
+      }, AuthRequest>({ body: addMasterKeySchema }), async req => json(await this.addMasterKey(req.user!.id!, req.context.body)));
+
+      masterKeyRouter.use('/:id', async (req, next) => {
+        const key = await this.getMasterKey(req.user!.id!, req.params.id!);
+        if(!key)
+          throw new NotFoundError('Key not found with id "' + req.params.id! + '"!', { code: 'master_key_not_found' });
+
+        req.masterKey = key;
+
+        return next();
+      });
+
+      masterKeyRouter.put('/:id', describe({
+        summary: 'Rename a master key',
+        responses: noContentResponse
+      }), validate<{ name: string }, AuthRequest>({
+        body: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+      }), async req => {
+        await this.updateMasterKey(req.masterKey!, req.context.body.name);
+        return noContent();
+      });
+
+      masterKeyRouter.delete('/:id', describe({
+        summary: 'Delete a master key, revoking the sessions it made',
+        responses: noContentResponse
+      }), async req => {
         await this.deleteMasterKey(req.masterKey!);
         return noContent();
       });
 
+      masterKeyRouter.get('/:id/sessions', describe({
+        summary: 'List the active sessions a master key made',
+        responses: { 200: { description: 'The sessions.', schema: { type: 'array', items: sessionSchema } } }
+      }), async req => json(await this.getMasterKeySessions(req.masterKey!)));
+
+      masterKeyRouter.delete('/:id/sessions/:sid', describe({
+        summary: 'Revoke a session a master key made',
+        responses: noContentResponse
+      }), async req => {
+        await this.deleteMasterKeySession(req.masterKey!, req.params.sid!);
+        return noContent();
+      });
+
+      masterKeyRouter.delete('/:id/sessions', describe({
+        summary: 'Revoke every session a master key made',
+        responses: noContentResponse
+      }), async req => {
+        await this.deleteMasterKeySessions(req.masterKey!);
+        return noContent();
+      });
+
       router.use('/master-key', masterKeyRouter);
     }
 
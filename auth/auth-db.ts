@@ -1,34 +1,85 @@
 import { NonPostableEvt } from '../deps/evt.ts';
-import { AuthUser, AuthSession, Handshake, MasterKey } from './auth-types.ts';
+import type { Maintainable, Scheduler } from '../common/scheduler.ts';
+import {
+  AuthApp, AuthUser, AuthSession, Handshake, Invite, LoginChallenge, MasterKey, RefreshToken, RemoteKey, SecureApp, SecurityEvent,
+  SigningKey, TotpConfig, WebAuthnCredential
+} from './auth-types.ts';
+import { SigningAlgorithm, generateSigningKey } from './auth-util.ts';
 
-export abstract class AuthDb {
+export abstract class AuthDb implements Maintainable {
 
   protected sessionExpTime = 604800000;
   protected handshakeExpTime = 300000; // 5m
+  protected challengeExpTime = 300000; // 5m
+  protected refreshExpTime = 2592000000; // 30d
+  protected signingKeyRotation = 2592000000; // 30d
+  protected securityEventExpTime = 7776000000; // 90d
 
+  /** Whether or not sessions expire after `sessionExpTime` of inactivity, rather than after being created */
+  public readonly slidingSessions: boolean;
   public readonly onUserDelete: NonPostableEvt<AuthUser>;
 
-  constructor(config: { sessionExpTime?: number; handshakeExpTime?: number },
-    onUserDelete: NonPostableEvt<AuthUser>) {
+  constructor(config: {
+    sessionExpTime?: number;
+    handshakeExpTime?: number;
+    challengeExpTime?: number;
+    refreshExpTime?: number;
+    /** How often (in ms) to make a new signing key, if session tokens are signed with them */
+    signingKeyRotation?: number;
+    /** How long (in ms) to keep security events for */
+    securityEventExpTime?: number;
+    slidingSessions?: boolean;
+  }, onUserDelete: NonPostableEvt<AuthUser>) {
 
     if(config.sessionExpTime)
       this.sessionExpTime = config.sessionExpTime;
     if(config.handshakeExpTime)
       this.handshakeExpTime = config.handshakeExpTime;
+    if(config.challengeExpTime)
+      this.challengeExpTime = config.challengeExpTime;
+    if(config.refreshExpTime)
+      this.refreshExpTime = config.refreshExpTime;
+    if(config.signingKeyRotation)
+      this.signingKeyRotation = config.signingKeyRotation;
+    if(config.securityEventExpTime)
+      this.securityEventExpTime = config.securityEventExpTime;
 
+    this.slidingSessions = config.slidingSessions ?? false;
     this.onUserDelete = onUserDelete;
 
     this.onUserDelete.attach(async user => {
       try {
         const sessions = await this.getSessionIdsForUser(user.id!);
         await this.delManySessions(sessions);
+        await this.delRefreshTokensForUser(user.id!);
+        await this.delInvitesForUser(user.id!);
+        await this.delRemoteKeysForUser(user.id!);
+        await this.delAppsForUser(user.id!);
+        await this.delSecurityEventsForUser(user.id!);
       } catch(e) {
         console.error(`[AuthDb]: Error deleting sessions for deleted user "${user.username}" (${user.id})!`, e);
       }
     });
   }
 
-  abstract addSession(user: string, context: string, identifier: string, extra?: Partial<Pick<AuthSession, 'collections' | 'permissions'>>): Promise<string>;
+  /**
+   * Schedule the cleanups of expired sessions, refresh tokens, invites, signing keys and security events (hourly), and of
+   * expired handshakes and login challenges (every 15 minutes)
+   * @param scheduler The scheduler
+   */
+  scheduleMaintenance(scheduler: Scheduler): void {
+    scheduler
+      .schedule('auth:clean-sessions', 3600000, () => this.cleanSessions())
+      .schedule('auth:clean-refresh-tokens', 3600000, () => this.cleanRefreshTokens())
+      .schedule('auth:clean-invites', 3600000, () => this.cleanInvites())
+      .schedule('auth:clean-signing-keys', 3600000, () => this.cleanSigningKeys())
+      .schedule('auth:clean-security-events', 3600000, () => this.cleanSecurityEvents())
+      .schedule('auth:clean-handshakes', 900000, () => this.cleanHandshakes())
+      .schedule('auth:clean-challenges', 900000, () => this.cleanChallenges());
+  }
+
+  abstract addSession(user: string, context: string, identifier: string, extra?: Partial<Pick<AuthSession, 'collections' | 'permissions' | 'masterKey'>>): Promise<string>;
+  abstract putSession(id: string, session: AuthSession): Promise<void>;
   abstract getSession(session: string): Promise<AuthSession | null>;
   abstract delSession(session: string): Promise<void>;
   abstract delManySessions(sessions: readonly string[]): Promise<void>;
@@ -36,14 +87,147 @@ export abstract class AuthDb {
   abstract cleanSessions(): Promise<void>;
   abstract getSessionIdsForUser(user: string): Promise<string[]>;
   abstract getSessionsForUser(user: string): Promise<AuthSession[]>;
+  abstract getSessionsForMasterKey(key: string): Promise<AuthSession[]>;
+  /** Whether or not any unexpired session exists for the given context (i.e. if an app has been given one via a handshake) */
+  abstract hasSessionsForContext(context: string): Promise<boolean>;
+  /** The number of (unexpired) sessions, e.x. for metrics */
+  abstract countSessions(): Promise<number>;
+
+  /**
+   * When the session expires, i.e. `sessionExpTime` after it was created (or last used, if sessions are sliding)
+   * @param session The session
+   * @returns {number} The expiry time (in ms)
+   */
+  getSessionExpiry(session: AuthSession): number {
+    return Math.max(session.created, session.active ?? 0) + this.sessionExpTime;
+  }
+
+  /**
+   * Mark a session as used (its `lastSeen`), extending it if sessions are sliding; this is only
+   * written (at most) once a minute
+   * @param session The session
+   * @returns {Promise<AuthSession>} The (updated) session
+   */
+  async touchSession(session: AuthSession): Promise<AuthSession> {
+    const now = Date.now();
+
+    if(now - Math.max(session.created, session.active ?? 0, session.lastSeen ?? 0) < 60000)
+      return session;
+
+    const touched = this.slidingSessions ? { ...session, lastSeen: now, active: now } : { ...session, lastSeen: now };
+    await this.putSession(session.id!, touched);
+
+    return touched;
+  }
+
+  // refresh tokens
+
+  /**
+   * When the refresh token expires, i.e. `refreshExpTime` after it was issued
+   * @param token The refresh token
+   * @returns {number} The expiry time (in ms)
+   */
+  getRefreshTokenExpiry(token: RefreshToken): number {
+    return token.created + this.refreshExpTime;
+  }
+
+  abstract addRefreshToken(token: RefreshToken): Promise<string>;
+  abstract putRefreshToken(id: string, token: RefreshToken): Promise<void>;
+  /** Mark a refresh token as used, only if it hasn't been already (atomically, so that it can only be used once)
+   * @returns {Promise<boolean>} Whether or not it was marked */
+  abstract useRefreshToken(id: string, used: number): Promise<boolean>;
+  abstract getRefreshToken(id: string): Promise<RefreshToken | null>;
+  abstract getRefreshTokensForFamily(family: string): Promise<RefreshToken[]>;
+  abstract delManyRefreshTokens(ids: readonly string[]): Promise<void>;
+  /** Delete the refresh tokens issued alongside the given sessions, e.x. when logging out */
+  abstract delRefreshTokensForSessions(sessions: readonly string[]): Promise<void>;
+  /** Delete every refresh token of a user, even those whose sessions have expired (and been cleaned up) already,
+   * except for the ones issued alongside the `keep` session */
+  abstract delRefreshTokensForUser(user: string, keep?: string): Promise<void>;
+  /** Delete every refresh token of a user's app, even those whose sessions have expired already */
+  abstract delRefreshTokensForApp(user: string, context: string, identifier: string): Promise<void>;
+  /** Delete all expired refresh tokens */
+  abstract cleanRefreshTokens(): Promise<void>;
+
+  // signing keys
+
+  /**
+   * When a signing key stops being published, and so the tokens signed with it stop validating; i.e. when
+   * the last session it could have signed (before it was rotated) expires. Sliding sessions which outlive it
+   * need to be refreshed.
+   * @param key The signing key
+   * @returns {number} The expiry time (in ms)
+   */
+  getSigningKeyExpiry(key: SigningKey): number {
+    return key.created + this.signingKeyRotation + this.sessionExpTime;
+  }
+
+  /**
+   * Get the key to sign new session tokens with, making a new one if the latest is
+   * older than `signingKeyRotation`
+   * @param alg The algorithm of the key
+   * @returns {Promise<SigningKey>} The signing key
+   */
+  async getActiveSigningKey(alg: SigningAlgorithm): Promise<SigningKey> {
+    const now = Date.now();
+
+    const latest = (await this.getSigningKeys())
+      .filter(key => key.alg === alg && key.created > now - this.signingKeyRotation)
+      .sort((a, b) => b.created - a.created)[0];
+
+    if(latest)
+      return latest;
+
+    const key: SigningKey = { alg, ...await generateSigningKey(alg), created: now };
+    return { ...key, id: await this.addSigningKey(key) };
+  }
+
+  abstract addSigningKey(key: SigningKey): Promise<string>;
+  abstract getSigningKey(id: string): Promise<SigningKey | null>;
+  /** Every signing key which is still published (see `getSigningKeyExpiry`) */
+  abstract getSigningKeys(): Promise<SigningKey[]>;
+  /** Delete all expired signing keys */
+  abstract cleanSigningKeys(): Promise<void>;
 
   // users
 
   abstract addUser(user: AuthUser): Promise<string>;
   abstract putUser(id: string, user: AuthUser): Promise<void>;
+  /** Update a user's TOTP config, only if it is still `old` (atomically, so that codes can only be used once)
+   * @returns {Promise<boolean>} Whether or not it was updated */
+  abstract putUserTotp(id: string, old: TotpConfig | null, totp: TotpConfig | null): Promise<boolean>;
   abstract getUser(id: string): Promise<AuthUser | null>;
   abstract delUser(id: string): Promise<void>;
   abstract getUserFromUsername(username: string): Promise<AuthUser | null>;
+  abstract getUserIds(): Promise<string[]>;
+  /**
+   * Search the users (sorted by username), e.x. for admins
+   * @param options (optional) A username prefix to search for, and how many to skip and get
+   */
+  abstract searchUsers(options?: { username?: string; skip?: number; limit?: number }): Promise<AuthUser[]>;
+
+  // invites
+
+  abstract addInvite(invite: Invite): Promise<string>;
+  abstract putInvite(id: string, invite: Invite): Promise<void>;
+  /** Add a user to an invite's users, only if they are still `users` (atomically, so that it can't be used more than allowed)
+   * @returns {Promise<boolean>} Whether or not it was added */
+  abstract addInviteUser(id: string, users: readonly string[], user: string): Promise<boolean>;
+  abstract getInvite(id: string): Promise<Invite | null>;
+  abstract getInvitesForUser(user: string): Promise<Invite[]>;
+  abstract delInvite(id: string): Promise<void>;
+  abstract delInvitesForUser(user: string): Promise<void>;
+  /** Delete all expired invites */
+  abstract cleanInvites(): Promise<void>;
+
+  // security events
+
+  abstract addSecurityEvent(event: Omit<SecurityEvent, 'id'>): Promise<string>;
+  /** Get a user's security events, most recent first */
+  abstract getSecurityEventsForUser(user: string, options?: { type?: SecurityEvent['type']; skip?: number; limit?: number }): Promise<SecurityEvent[]>;
+  abstract delSecurityEventsForUser(user: string): Promise<void>;
+  /** Delete all expired security events */
+  abstract cleanSecurityEvents(): Promise<void>;
 
   // user preferences
 
@@ -62,13 +246,57 @@ export abstract class AuthDb {
   /** Delete all expires handshakes */
   abstract cleanHandshakes(): Promise<void>;
 
+  // secure apps
+
+  abstract addSecureApp(app: SecureApp): Promise<string>;
+  abstract putSecureApp(id: string, app: SecureApp): Promise<void>;
+  abstract getSecureApp(id: string): Promise<SecureApp | null>;
+  abstract getSecureAppFromHash(hash: string): Promise<SecureApp | null>;
+
+  // login challenges (two-factor / webauthn)
+
+  abstract addChallenge(challenge: LoginChallenge): Promise<string>;
+  abstract putChallenge(id: string, challenge: LoginChallenge): Promise<void>;
+  abstract getChallenge(id: string): Promise<LoginChallenge | null>;
+  abstract delChallenge(id: string): Promise<void>;
+  /** Delete all expired login challenges */
+  abstract cleanChallenges(): Promise<void>;
+
+  // webauthn credentials
+
+  abstract addCredential(credential: WebAuthnCredential): Promise<string>;
+  abstract putCredential(id: string, credential: WebAuthnCredential): Promise<void>;
+  abstract getCredential(id: string): Promise<WebAuthnCredential | null>;
+  abstract getCredentialFromCredentialId(credentialId: string): Promise<WebAuthnCredential | null>;
+  abstract getCredentialsForUser(user: string): Promise<WebAuthnCredential[]>;
+  abstract delCredential(id: string): Promise<void>;
+
   // master keys
 
-  abstract addMasterKey(user: string, name?: string): Promise<string>;
+  abstract addMasterKey(user: string, extra: Pick<MasterKey, 'name' | 'type' | 'contexts' | 'permissions' | 'expires'>): Promise<string>;
   abstract putMasterKey(id: string, key: MasterKey): Promise<void>;
   abstract getMasterKey(id: string): Promise<MasterKey | null>;
   abstract delMasterKey(id: string): Promise<void>;
   abstract getMasterKeysForUser(user: string): Promise<MasterKey[]>;
+
+  // apps
+
+  abstract addApp(app: Omit<AuthApp, 'id'>): Promise<string>;
+  abstract putApp(id: string, app: AuthApp): Promise<void>;
+  abstract getApp(id: string): Promise<AuthApp | null>;
+  abstract getAppFor(user: string, context: string, identifier: string): Promise<AuthApp | null>;
+  abstract getAppsForUser(user: string): Promise<AuthApp[]>;
+  abstract delApp(id: string): Promise<void>;
+  abstract delAppsForUser(user: string): Promise<void>;
+
+  // remote (master) keys, on Home nodes
+
+  abstract addRemoteKey(key: Omit<RemoteKey, 'id' | 'created'>): Promise<string>;
+  abstract putRemoteKey(id: string, key: RemoteKey): Promise<void>;
+  abstract getRemoteKey(id: string): Promise<RemoteKey | null>;
+  abstract delRemoteKey(id: string): Promise<void>;
+  abstract getRemoteKeysForUser(user: string): Promise<RemoteKey[]>;
+  abstract delRemoteKeysForUser(user: string): Promise<void>;
 }
 
 export default AuthDb;
@@ -1,12 +1,14 @@
+import { assertEquals, assertRejects } from '../deps/std.ts';
+
 import jose from '../deps/jose.ts';
 
-import { RouteHandler, text } from '../api/mod.ts';
-import { AuthError } from '../common/errors.ts';
+import { RouteHandler } from '../api/mod.ts';
+import { AuthError, ForbiddenError } from '../common/errors.ts';
 
-import type { AuthRequest, AuthJWT } from './auth-types.ts';
+import type { AuthRequest, AuthJWT, AuthUser } from './auth-types.ts';
 import type AuthDb from './auth-db.ts';
 
-import { importSecret } from './auth-util.ts';
+import { importSecret, getAppOrigin } from './auth-util.ts';
 
 export function validateUserSession(db: AuthDb, optional = false): RouteHandler<AuthRequest> {
   return async (req: AuthRequest, next) => {
@@ -27,33 +29,48 @@ export function validateUserSession(db: AuthDb, optional = false): RouteHandler<
       const session = jwt ? await db.getSession(jwt.jti) : null;
 
       if(!session)
-        throw new AuthError('No session found!');
+        throw new AuthError('No session found!', { code: 'session_not_found' });
 
       try {
-        await jose.jwtVerify(token, await importSecret(session.secret));
+        // tokens signed with a node-wide key reference it by its `kid`
+        const kid = jose.decodeProtectedHeader(token).kid;
+        const key = kid ? await db.getSigningKey(kid) : null;
+
+        if(kid && (!key || db.getSigningKeyExpiry(key) < Date.now()))
+          throw new Error(`Signing key "${kid}" not found!`);
+
+        if(key)
+          await jose.jwtVerify(token, await jose.importJWK(key.publicKey, key.alg), { algorithms: [key.alg] });
+        else
+          await jose.jwtVerify(token, await importSecret(session.secret), { algorithms: ['HS384'] });
       } catch(e) {
         console.error('auth token validation error:', e);
-        throw new AuthError('Token does not validate!');
+        throw new AuthError('Token does not validate!', { code: 'invalid_token' });
       }
 
+      // sliding sessions' tokens don't expire by themselves
+      if(db.getSessionExpiry(session) < Date.now())
+        throw new AuthError('Session expired!', { code: 'session_expired' });
+
       const user = await db.getUser(session.user);
       if(!user)
-        throw new AuthError('No user found!');
+        throw new AuthError('No user found!', { code: 'user_not_found' });
+
+      if(user.disabled)
+        throw new AuthError('User is disabled!', { code: 'user_disabled' });
 
-      req.session = session;
+      req.session = await db.touchSession(session);
       req.user = user;
 
       return next(); // pass through errors
 
     } catch(e) {
-      if(e instanceof AuthError) {
-        if(!optional)
-          return text(e.message, { status: 403 });
-      } else {
+      // let `handleError` answer, in whichever format the request prefers
+      if(!optional)
+        throw e;
+
+      if(!(e instanceof AuthError))
         console.error('Error validating token:', e);
-        if(!optional)
-          return text('Failed to validate token.', { status: 500 });
-      }
 
       req.session = undefined;
       req.user = undefined;
@@ -62,3 +79,76 @@ export function validateUserSession(db: AuthDb, optional = false): RouteHandler<
     }
   }
 }
+
+/**
+ * A middleware which only lets admins through (users marked as `admin`, or given by username,
+ * e.x. from the command line), e.x. to `/metrics`; mount it after `validateUserSession`.
+ *
+ * @param admins (optional) The usernames of any other admins
+ * @returns {RouteHandler} Admin Check Middleware
+ */
+export function requireAdmin(admins: readonly string[] = []): RouteHandler<AuthRequest> {
+  return (req: AuthRequest, next) => {
+    if(!req.session || req.session.context !== 'user' || !req.user || !(req.user.admin || admins.includes(req.user.username)))
+      throw new ForbiddenError('Must be an admin!', { code: 'not_admin' });
+
+    return next();
+  };
+}
+
+/**
+ * Make an origin check (for `cors`) which allows the origins of apps that have active sessions from a
+ * handshake, as their context is their domain (e.x. `https://app.co` for `app.co`, see `getAppOrigin`).
+ *
+ * Checks are cached for a short while, as they are made on every cross-origin request.
+ *
+ * @param db The auth database
+ * @param cacheTime (optional) How long (in ms) to cache each check for
+ * @returns {(origin: string) => Promise<boolean>} The origin check
+ */
+export function makeAppOriginValidator(db: AuthDb, cacheTime = 60000): (origin: string) => Promise<boolean> {
+  const cache = new Map<string, { allowed: boolean; expires: number }>();
+
+  return async (origin: string) => {
+    const now = Date.now();
+
+    const cached = cache.get(origin);
+    if(cached && cached.expires > now)
+      return cached.allowed;
+
+    let host: string;
+
+    try {
+      host = new URL(origin).host;
+    } catch {
+      return false;
+    }
+
+    // the scheme has to match as well, and the reserved contexts are not app domains
+    const allowed = getAppOrigin(host) === origin && await db.hasSessionsForContext(host);
+
+    // origins are given by clients, so don't let the cache grow without bound
+    if(cache.size >= 1000)
+      cache.clear();
+
+    cache.set(origin, { allowed, expires: now + cacheTime });
+
+    return allowed;
+  };
+}
+
+Deno.test(async function TestRequireAdmin() {
+  const middleware = requireAdmin(['root']);
+  const next = () => new Response('ok');
+
+  const makeRequest = (user?: Partial<AuthUser>, context = 'user') => ({ session: user && { context }, user }) as unknown as AuthRequest;
+
+  assertEquals((await middleware(makeRequest({ username: 'alice', admin: true }), next)).status, 200);
+  // admins can also be given by username
+  assertEquals((await middleware(makeRequest({ username: 'root' }), next)).status, 200);
+
+  await assertRejects(async () => await middleware(makeRequest({ username: 'bob' }), next), ForbiddenError, 'Must be an admin!');
+  await assertRejects(async () => await middleware(makeRequest(), next), ForbiddenError, 'Must be an admin!');
+  // but only through their own sessions, not an app's
+  await assertRejects(async () => await middleware(makeRequest({ username: 'alice', admin: true }, 'app.co'), next), ForbiddenError);
+});
@@ -4,6 +4,77 @@ import { TinyRequest } from '../common/types.ts';
 export interface AuthSession extends Session {
   readonly secret: JsonWebKey;
   readonly created: number;
+  /** When the session was last used, if sessions have a sliding expiry */
+  readonly active?: number | null;
+  /** The master key which made the session, if any */
+  readonly masterKey?: string | null;
+
+  /** The user agent of the client which made the session */
+  readonly userAgent?: string | null;
+  /** The IP of the client which made the session */
+  readonly ip?: string | null;
+  /** A description of the client's device for people, e.x. `Firefox on Windows` */
+  readonly device?: string | null;
+  /** When the session was last used (updated at most once a minute) */
+  readonly lastSeen?: number | null;
+}
+
+/** The client of a request, as recorded on sessions and security events */
+export interface ClientInfo {
+  readonly userAgent: string | null;
+  readonly ip: string | null;
+  readonly device: string | null;
+}
+
+/**
+ * Something that happened to a user's account, which they should be able to review (e.x. a login from a new device)
+ */
+export interface SecurityEvent extends ClientInfo {
+  id?: string;
+
+  readonly user: string;
+  readonly type: 'login' | 'app_approved' | 'password_changed';
+  /** Anything else about the event, e.x. the app which was approved, or whether a login was from a new device */
+  readonly details: Record<string, unknown>;
+  readonly created: number;
+}
+
+/**
+ * A (rotating) refresh token; only its hash is kept. Every rotation of a token
+ * stays in the same family, so that if a used token is presented again, the whole
+ * family (and its sessions) can be revoked.
+ */
+export interface RefreshToken {
+  id?: string;
+  /** Shared by every token descended from the same login */
+  readonly family: string;
+  /** The session it was issued alongside */
+  readonly session: string;
+
+  readonly user: string;
+  readonly context: string;
+  readonly identifier: string;
+  readonly collections: readonly string[];
+  readonly permissions: readonly string[];
+
+  readonly hash: string;
+  readonly created: number;
+  /** When it was rotated, after which it cannot be used again */
+  used?: number | null;
+}
+
+/**
+ * A node-wide key pair which session tokens are signed with (if enabled), instead of each session's
+ * own secret; the public keys are published at `/.well-known/jwks.json`, so that other nodes can verify
+ * the tokens, which reference the key by its ID (as their `kid`)
+ */
+export interface SigningKey {
+  id?: string;
+
+  readonly alg: 'ES256' | 'EdDSA';
+  readonly privateKey: JsonWebKey;
+  readonly publicKey: JsonWebKey;
+  readonly created: number;
 }
 
 export interface AuthJWT {
@@ -20,29 +91,201 @@ export interface Handshake {
   code?: string;
   user?: string;
 
-  /** Cannot be "secure". */
+  /** The app domain, or "secure" for a secure app (see `hash`) */
   readonly app: string;
   readonly redirect: string;
+  /** The hash of the secure app, if `app` is "secure" */
+  readonly hash?: string | null;
+  /** The secure app (from its manifest), if `app` is "secure"; it is only registered once the handshake is approved */
+  readonly secureApp?: Pick<SecureApp, 'publicKey' | 'alg' | 'name'> | null;
 
   readonly permissions: string[];
   readonly collections: string[];
 
+  /** The OAuth `state` to give back to the app */
+  readonly state?: string | null;
+  /** The PKCE (S256) code challenge; if given, the handshake can only be completed via `/token` */
+  readonly codeChallenge?: string | null;
+
+  readonly created: number;
+}
+
+/**
+ * A third-party app which has proven its identity with a key pair, and so can be given
+ * `'secure'` sessions (with their own appdata folders); its hash is the (RFC 7638)
+ * thumbprint of its public key, so it is the same on every node.
+ */
+export interface SecureApp {
+  id?: string;
+  readonly hash: string;
+  readonly publicKey: JsonWebKey;
+  /** The algorithm of the key (`ES256` or `EdDSA`) */
+  readonly alg: string;
+  /** From the manifest of its latest approved handshake */
+  name: string;
+  readonly created: number;
+  /** When a handshake for it was last approved */
+  updated: number;
+}
+
+/**
+ * The claims of a secure app's manifest, which is a JWT signed by the app's key,
+ * with the public key in its `jwk` header
+ */
+export interface SecureAppManifest {
+  name: string;
+  redirect: string;
+  permissions?: string[];
+  collections?: string[];
+  iat: number;
+}
+
+/**
+ * An invite code, needed to register when a node is invite-only; only its hash is kept
+ */
+export interface Invite {
+  id?: string;
+
+  /** The user who made it */
+  readonly creator: string;
+  readonly hash: string;
+  /** How many users can register with it */
+  readonly maxUses: number;
+  /** The users who have registered with it */
+  users: string[];
+
   readonly created: number;
+  readonly expires: number;
 }
 
+/**
+ * A key (on a dedicated node) which a Home node can use to make sessions for its user's apps; it is
+ * given out as a JWT signed with its secret, and is scoped to certain contexts and permissions
+ */
 export interface MasterKey {
   id?: string;
 
   readonly user: string;
   readonly name: string;
   readonly secret: JsonWebKey;
+
+  /** The type of node it is for, which limits its permissions to `files:*` or `db:*` */
+  readonly type: 'file' | 'db';
+  /** The contexts it can make sessions for (e.x. `app.co` or `secure`), or `*` for any (but `user`) */
+  readonly contexts: readonly string[];
+  /** The permissions its sessions can be given, at most */
+  readonly permissions: readonly string[];
+
+  readonly created: number;
+  readonly expires?: number | null;
+  /** When it last made a session */
+  lastUsed?: number | null;
+}
+
+/**
+ * An app a user has connected (through a handshake, or on dedicated nodes, a master key), and what it was last granted
+ */
+export interface AuthApp {
+  id?: string;
+
+  readonly user: string;
+  /** The app's domain, or `secure` */
+  readonly context: string;
+  /** The username, or for secure apps, their hash */
+  readonly identifier: string;
+
+  permissions: readonly string[];
+  collections: readonly string[];
+
+  readonly firstUsed: number;
+  lastUsed: number;
+
+  /** On Home nodes, the (root api url of the) dedicated node the app should store its files on */
+  fileNode?: string | null;
+  /** On Home nodes, the (root api url of the) dedicated node the app should store its data on */
+  dbNode?: string | null;
+}
+
+/**
+ * A master key for a dedicated node, which a Home node keeps to make sessions on it when apps complete handshakes
+ */
+export interface RemoteKey {
+  id?: string;
+
+  readonly user: string;
+  readonly name: string;
+  /** The master key token (JWT) */
+  readonly key: string;
+  /** The ID of the master key on the dedicated node */
+  readonly keyId: string;
+  /** The root api url of the dedicated node, e.x. `https://files.example.com` */
+  readonly url: string;
+  readonly type: 'file' | 'db';
   readonly created: number;
 }
 
+export interface TotpConfig {
+  /** The secret in base32 format */
+  readonly secret: string;
+  /** Whether or not it has been confirmed (and so is required to login) */
+  enabled: boolean;
+  /** The last time step used, so that codes cannot be replayed */
+  last?: number;
+  /** The hashes of the unused recovery codes */
+  recovery: string[];
+}
+
+export interface LoginChallenge {
+  id?: string;
+
+  /** What the challenge is for; a two-factor login, or a WebAuthn ceremony */
+  readonly type: 'totp' | 'webauthn-register' | 'webauthn-login';
+  /** The user, if known (i.e. not for a passwordless WebAuthn login) */
+  readonly user?: string;
+  /** The random challenge of a WebAuthn ceremony (base64url) */
+  readonly nonce?: string;
+  /** How many wrong codes have been given */
+  attempts: number;
+
+  readonly created: number;
+}
+
+export interface WebAuthnCredential {
+  id?: string;
+
+  readonly user: string;
+  /** The ID the authenticator gave the credential (base64url) */
+  readonly credentialId: string;
+  readonly publicKey: JsonWebKey;
+  /** The COSE algorithm of the key (e.x. -7 for ES256) */
+  readonly alg: number;
+  /** The signature counter, to detect cloned authenticators */
+  signCount: number;
+  readonly transports: string[];
+  name: string;
+
+  readonly created: number;
+  lastUsed?: number;
+}
+
 export interface AuthUser extends User {
   pass: string;
   salt: string;
   readonly created: number;
+
+  /** Two-factor authentication (TOTP), if set up */
+  totp?: TotpConfig | null;
+
+  /** Whether or not the user is an admin (see `AdminApi`) */
+  admin?: boolean | null;
+  /** Whether or not an admin has disabled the user, who then cannot login or use their sessions */
+  disabled?: boolean | null;
+  /** Whether or not an admin has made the user reset their password before they can login with it again */
+  resetPass?: boolean | null;
+  /** The user who invited them, if they registered with an invite */
+  invitedBy?: string | null;
+  /** The hashes of the unused (account) recovery keys, which can reset a forgotten password */
+  recoveryKeys?: string[] | null;
 }
 
 export interface AuthRequest extends TinyRequest {
@@ -53,6 +296,10 @@ export interface AuthRequest extends TinyRequest {
   handshake?: Handshake;
   /** Only accessible within the MasterKey router */
   masterKey?: MasterKey;
+  /** Only accessible within the MasterKey router, on Home nodes */
+  remoteKey?: RemoteKey;
+  /** Only accessible within the `/apps/:id` routes */
+  app?: AuthApp;
 }
 
 export interface Config {
@@ -1,3 +1,5 @@
+import { assertEquals } from '../deps/std.ts';
+
 /**
  * Generate a 16 byte salt in base64 format
  * @returns {string} A 16 byte salt in base64 format
@@ -39,3 +41,359 @@ export async function generateSecret(): Promise<JsonWebKey> {
 export async function importSecret(secret: JsonWebKey): Promise<CryptoKey> {
   return await crypto.subtle.importKey('jwk', secret, { name: 'HMAC', hash: 'SHA-384' }, false, ['sign', 'verify']);
 }
+
+/** The algorithms node-wide signing keys can use */
+export type SigningAlgorithm = 'ES256' | 'EdDSA';
+
+/**
+ * Generate a (node-wide) key pair to sign session tokens with
+ * @param {SigningAlgorithm} alg The algorithm
+ * @returns {Promise<{ privateKey: JsonWebKey; publicKey: JsonWebKey }>} The keys in JWK format
+ */
+export async function generateSigningKey(alg: SigningAlgorithm): Promise<{ privateKey: JsonWebKey; publicKey: JsonWebKey }> {
+  const params: EcKeyGenParams | Algorithm = alg === 'ES256' ? { name: 'ECDSA', namedCurve: 'P-256' } : { name: 'Ed25519' };
+  const keys = await crypto.subtle.generateKey(params, true, ['sign', 'verify']) as CryptoKeyPair;
+
+  // the algorithm is kept alongside the key (as webcrypto names it differently, i.e. `Ed25519`)
+  const { key_ops: _, ext: __, alg: ___, ...publicKey } = await crypto.subtle.exportKey('jwk', keys.publicKey);
+
+  return { privateKey: await crypto.subtle.exportKey('jwk', keys.privateKey), publicKey };
+}
+
+const base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as (unpadded) base32, as used by authenticator apps
+ * @param {Uint8Array} bytes The bytes to encode
+ * @returns {string} The base32 string
+ */
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for(const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while(bits >= 5) {
+      output += base32Alphabet[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if(bits > 0)
+    output += base32Alphabet[(value << (5 - bits)) & 31];
+
+  return output;
+}
+
+/**
+ * Decode a base32 string (ignoring case, spaces and padding)
+ * @param {string} str The base32 string
+ * @returns {Uint8Array} The bytes
+ */
+export function base32Decode(str: string): Uint8Array {
+  str = str.toUpperCase().replace(/[\s=]+/g, '');
+
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for(const char of str) {
+    const idx = base32Alphabet.indexOf(char);
+    if(idx < 0)
+      throw new Error(`Invalid base32 character "${char}"!`);
+
+    value = (value << 5) | idx;
+    bits += 5;
+
+    if(bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(output);
+}
+
+/**
+ * Generate a 20 byte TOTP secret in base32 format
+ * @returns {string} The secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * Get the TOTP time step of a time
+ * @param {number} time (optional) The time (in ms), defaulting to now
+ * @param {number} period (optional) The length (in seconds) of a step
+ * @returns {number} The time step
+ */
+export function getTotpStep(time = Date.now(), period = 30): number {
+  return Math.floor(time / 1000 / period);
+}
+
+/**
+ * Generate the TOTP (RFC 6238, HMAC-SHA1) code of a time step
+ * @param {string} secret The secret in base32 format
+ * @param {number} step The time step
+ * @param {number} digits (optional) The number of digits
+ * @returns {Promise<string>} The code
+ */
+export async function generateTotp(secret: string, step: number, digits = 6): Promise<string> {
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 0x100000000));
+  counter.setUint32(4, step >>> 0);
+
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret).buffer as ArrayBuffer, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+
+  const offset = hmac[hmac.length - 1] & 15;
+  const code = (((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3]) % (10 ** digits);
+
+  return String(code).padStart(digits, '0');
+}
+
+/**
+ * Verify a TOTP code against the current time step, allowing for some clock drift
+ * @param {string} secret The secret in base32 format
+ * @param {string} code The code to verify
+ * @param {number} after (optional) The last step used, so that codes cannot be replayed
+ * @param {number} window (optional) How many steps to allow either side of the current one
+ * @returns {Promise<number | null>} The matching time step, or null if it does not match
+ */
+export async function verifyTotp(secret: string, code: string, after = -1, window = 1): Promise<number | null> {
+  const now = getTotpStep();
+
+  for(let step = now - window; step <= now + window; step++)
+    if(step > after && await generateTotp(secret, step, code.length) === code)
+      return step;
+
+  return null;
+}
+
+/**
+ * Generate single-use recovery codes (e.x. `k3x9a-pq2mz`)
+ * @param {number} count (optional) How many codes to generate
+ * @param {number} groups (optional) How many groups of 5 characters (25 bits) each code has
+ * @returns {string[]} The codes
+ */
+export function generateRecoveryCodes(count = 10, groups = 2): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(Math.ceil(groups * 25 / 8)))).slice(0, groups * 5).toLowerCase();
+    return code.match(/.{5}/g)!.join('-');
+  });
+}
+
+/**
+ * Generate a random 32 byte token in base64url format (e.x. for refresh tokens)
+ * @returns {string} The token
+ */
+export function generateToken(): string {
+  return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Hash a random token (or code) with SHA-256; they are random enough to not need a salt (or PBKDF2)
+ * @param {string} token The token
+ * @returns {Promise<string>} The hashed token in base64 format
+ */
+export async function hashToken(token: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+
+  return btoa(String.fromCharCode(...new Uint8Array(hash)));
+}
+
+/**
+ * Hash a recovery code, ignoring case and dashes
+ * @param {string} code The recovery code
+ * @returns {Promise<string>} The hashed code in base64 format
+ */
+export async function hashRecoveryCode(code: string): Promise<string> {
+  return await hashToken(code.toLowerCase().replace(/[^a-z2-7]/g, ''));
+}
+
+/**
+ * Make a PKCE (S256) code challenge from a code verifier
+ * @param {string} verifier The code verifier
+ * @returns {Promise<string>} The code challenge in base64url format
+ */
+export async function makeCodeChallenge(verifier: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+
+  return btoa(String.fromCharCode(...new Uint8Array(hash))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+const browsers: readonly [string, RegExp][] = [
+  ['Edge', /\bEdg(e|A|iOS)?\//],
+  ['Opera', /\bOPR\//],
+  ['Firefox', /\b(Firefox|FxiOS)\//],
+  ['Chrome', /\b(Chrome|CriOS)\//],
+  ['Safari', /\bSafari\//]
+];
+
+const systems: readonly [string, RegExp][] = [
+  ['Android', /\bAndroid\b/],
+  ['iOS', /\b(iPhone|iPad|iPod)\b/],
+  ['Windows', /\bWindows\b/],
+  ['macOS', /\bMac OS X\b|\bMacintosh\b/],
+  ['Linux', /\bLinux\b/]
+];
+
+/**
+ * Describe the device of a user agent for people, e.x. `Firefox on Windows`; user agents which aren't
+ * browsers are named by their product (e.x. `curl`)
+ * @param {string} userAgent The user agent
+ * @returns {string | null} The description, if there is a user agent
+ */
+export function describeDevice(userAgent?: string | null): string | null {
+  if(!userAgent)
+    return null;
+
+  const browser = browsers.find(([, re]) => re.test(userAgent))?.[0];
+  const system = systems.find(([, re]) => re.test(userAgent))?.[0];
+
+  if(!browser && !system)
+    return userAgent.split(/[\s/]/)[0] || null;
+
+  return `${browser ?? 'Unknown browser'} on ${system ?? 'an unknown system'}`;
+}
+
+/**
+ * Check whether or not a hostname (from a parsed `URL`, so ip addresses are normalized) is local or private,
+ * i.e. loopback, link-local, or in a private network range; such hosts shouldn't be fetched on behalf of users.
+ *
+ * **Note:** this doesn't resolve names, so a public name can still point to a private address.
+ *
+ * @param {string} hostname The hostname
+ * @returns {boolean} Whether or not it is private
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+
+  if(!host || host === 'localhost' || host.endsWith('.localhost'))
+    return true;
+
+  const v4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if(v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+
+    return a === 0 || a === 10 || a === 127 || // "this" network, private, loopback
+      (a === 100 && b >= 64 && b < 128) || // carrier-grade NAT
+      (a === 169 && b === 254) || // link-local
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168) ||
+      a >= 224; // multicast & reserved
+  }
+
+  if(host.startsWith('[')) {
+    const v6 = host.slice(1, -1);
+
+    // ipv4-mapped addresses are normalized to hex, e.x. `::ffff:7f00:1`
+    const mapped = v6.match(/^::ffff:([\da-f]{1,4}):([\da-f]{1,4})$/);
+    if(mapped) {
+      const [hi, lo] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+      return isPrivateHost(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+    }
+
+    return v6 === '::' || v6 === '::1' ||
+      /^f[cd]/.test(v6) || // unique local
+      /^fe[89ab]/.test(v6); // link-local
+  }
+
+  return false;
+}
+
+/**
+ * Get the origin of an app from its domain (its context); apps are served over `https`, unless they're
+ * on a loopback host (e.x. `localhost:8080`, while developing them)
+ * @param {string} app The app's domain
+ * @returns {string | null} The origin, or null if the app isn't a valid domain
+ */
+export function getAppOrigin(app: string): string | null {
+  const url = URL.canParse('https://' + app) ? new URL('https://' + app) : null;
+  if(!url || url.host !== app.toLowerCase() || app === 'user' || app === 'secure')
+    return null;
+
+  const loopback = /^(localhost|127\.\d+\.\d+\.\d+|\[::1\])$/.test(url.hostname);
+
+  return (loopback ? 'http://' : 'https://') + url.host;
+}
+
+Deno.test(async function TestMakeCodeChallenge() {
+  // RFC 7636 Appendix B
+  assertEquals(await makeCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'), 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+});
+
+Deno.test(async function TestGenerateTotp() {
+  // RFC 6238 Appendix B (SHA-1)
+  const secret = base32Encode(new TextEncoder().encode('12345678901234567890'));
+
+  const tests: [number, string][] = [
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130']
+  ];
+
+  for(const [time, code] of tests)
+    assertEquals(await generateTotp(secret, getTotpStep(time * 1000), 8), code);
+});
+
+Deno.test(async function TestVerifyTotp() {
+  const secret = generateTotpSecret();
+  const now = getTotpStep();
+
+  // a step either side of the current one is allowed for clock drift
+  for(const step of [now - 1, now, now + 1])
+    assertEquals(await verifyTotp(secret, await generateTotp(secret, step)), step);
+
+  for(const step of [now - 2, now + 2])
+    assertEquals(await verifyTotp(secret, await generateTotp(secret, step)), null);
+
+  // codes cannot be replayed
+  assertEquals(await verifyTotp(secret, await generateTotp(secret, now), now), null);
+});
+
+Deno.test(function TestDescribeDevice() {
+  assertEquals(describeDevice('Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:120.0) Gecko/20100101 Firefox/120.0'), 'Firefox on Windows');
+  assertEquals(describeDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'), 'Safari on iOS');
+  assertEquals(describeDevice('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'), 'Edge on macOS');
+  assertEquals(describeDevice('curl/8.4.0'), 'curl');
+  assertEquals(describeDevice(''), null);
+});
+
+Deno.test(function TestGetAppOrigin() {
+  assertEquals(getAppOrigin('app.co'), 'https://app.co');
+  assertEquals(getAppOrigin('localhost:8080'), 'http://localhost:8080');
+  assertEquals(getAppOrigin('app.co/path'), null);
+  assertEquals(getAppOrigin('user'), null);
+});
+
+Deno.test(function TestIsPrivateHost() {
+  const hosts: [string, boolean][] = [
+    ['http://localhost:8080', true],
+    ['https://127.0.0.1', true],
+    ['https://2130706433', true],
+    ['https://169.254.169.254', true],
+    ['https://10.0.0.1', true],
+    ['https://172.20.1.1', true],
+    ['https://192.168.1.1', true],
+    ['https://[::1]', true],
+    ['https://[::ffff:127.0.0.1]', true],
+    ['https://[fd00::1]', true],
+    ['https://[fe80::1]', true],
+    ['https://172.32.1.1', false],
+    ['https://8.8.8.8', false],
+    ['https://[2001:db8::1]', false],
+    ['https://node.example.com', false]
+  ];
+
+  for(const [url, expected] of hosts)
+    assertEquals(isPrivateHost(new URL(url).hostname), expected, url);
+});
@@ -1,6 +1,6 @@
 import { ForbiddenError, MalformedError } from '../common/errors.ts';
 
-import { Router, json, text, noContent } from '../api/mod.ts';
+import { Router, json, text, noContent, describe } from '../api/mod.ts';
 import { handleError } from '../common/middleware.ts';
 import Api from '../common/api.ts';
 
@@ -27,15 +27,25 @@ export class CoreApi extends Api<AuthRequest> {
     return { id: user.id!, username: user.username };
   }
 
+  /**
+   * Get the public keys session tokens can be signed with (if they are signed with node-wide keys),
+   * as a JWK set, so that other nodes can verify them
+   */
+  async jwks(): Promise<{ keys: JsonWebKey[] }> {
+    const keys = await this.db.getSigningKeys();
+
+    return { keys: keys.map(key => ({ ...key.publicKey, kid: key.id!, alg: key.alg, use: 'sig' })) };
+  }
+
   async deleteSelf(sess: AuthSession, user: AuthUser, pass: string): Promise<void> {
     if(!sess)
-      throw new ForbiddenError('Not authenticated!');
+      throw new ForbiddenError('Not authenticated!', { code: 'not_authenticated' });
 
     if(sess.context !== 'user')
-      throw new ForbiddenError('Must be a user!');
+      throw new ForbiddenError('Must be a user!', { code: 'not_a_user' });
 
     if(await hashPassword(pass, user.salt) !== user.pass)
-      throw new ForbiddenError('Password does not match!');
+      throw new ForbiddenError('Password does not match!', { code: 'password_mismatch' });
 
     await this.db.delUser(user.id!);
   }
@@ -44,13 +54,44 @@ export class CoreApi extends Api<AuthRequest> {
     const optionalUserSession = validateUserSession(this.db, true);
     const requireUserSession = validateUserSession(this.db);
 
-    router.get('/type', () => text(this.type()));
-
-    router.get('/self', handleError('get-self'), optionalUserSession, req => json(this.self(req.user)));
-
-    router.delete('/self', handleError('delete-self'), requireUserSession, async (req: AuthRequest) => {
+    router.get('/type', describe({
+      summary: 'Get the type of the node',
+      tags: ['Core'],
+      responses: { 200: { description: 'The type of the node (e.x. `home`, `file` or `db`).', type: 'text/plain', schema: { type: 'string' } } }
+    }), () => text(this.type()));
+
+    router.get('/.well-known/jwks.json', describe({
+      summary: 'Get the public keys session tokens are signed with',
+      tags: ['Core'],
+      responses: {
+        200: {
+          description: 'A JWK set; tokens reference their key by its `kid`. If a token has an unknown `kid`, it may be new, so fetch this again.',
+          schema: { type: 'object', properties: { keys: { type: 'array', items: { type: 'object' } } } }
+        }
+      }
+    }), handleError('jwks'), async () => json(await this.jwks(), { headers: { 'Cache-Control': 'public, max-age=300' } }));
+
+    router.get('/self', describe({
+      summary: 'Get the authenticated user, or null',
+      tags: ['Core'],
+      auth: 'optional',
+      responses: {
+        200: {
+          description: 'The user.',
+          schema: { type: 'object', nullable: true, properties: { id: { type: 'string' }, username: { type: 'string' } } }
+        }
+      }
+    }), handleError('get-self'), optionalUserSession, req => json(this.self(req.user)));
+
+    router.delete('/self', describe({
+      summary: 'Delete the authenticated user and all of their data',
+      tags: ['Core'],
+      auth: true,
+      query: { type: 'object', properties: { pass: { type: 'string', description: 'The password, to confirm.' } }, required: ['pass'] },
+      responses: { 204: { description: 'Success.' } }
+    }), handleError('delete-self'), requireUserSession, async (req: AuthRequest) => {
       if(!req.query.pass)
-        throw new MalformedError('?pass=.. required!');
+        throw new MalformedError('?pass=.. required!', { code: 'password_required' });
 
       await this.deleteSelf(req.session!, req.user, req.query.pass);
 
@@ -5,14 +5,17 @@ import type DynTable from '../../common/dyn-table.ts';
 
 import AuthDb from '../auth-db.ts';
 
-import { AuthUser, AuthSession, Handshake, MasterKey } from '../auth-types.ts';
+import {
+  AuthApp, AuthUser, AuthSession, Handshake, Invite, LoginChallenge, MasterKey, RefreshToken, RemoteKey, SecureApp, SecurityEvent,
+  SigningKey, TotpConfig, WebAuthnCredential
+} from '../auth-types.ts';
 import { generateSecret } from '../auth-util.ts';
 
 
 export class HelpfulAuthDb extends AuthDb {
 
   constructor(protected readonly dynTableStore: DynTableStore,
-    config: { sessionExpTime?: number; handshakeExpTime?: number } = { }) {
+    config: ConstructorParameters<typeof AuthDb>[0] = { }) {
 
     const _onUserDelete = new Evt<AuthUser>();
 
@@ -34,9 +37,46 @@ export class HelpfulAuthDb extends AuthDb {
         permissions: { type: ColumnType.JSON, nullable: false, meta: '[String]!' },
 
         secret: { type: ColumnType.JSON, nullable: false, meta: 'NO' },
+        created: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        active: { type: ColumnType.Int, nullable: true, meta: 'Int' },
+        masterKey: { type: ColumnType.ID, nullable: true, meta: 'NO' },
+
+        userAgent: { type: ColumnType.String, nullable: true, meta: 'String' },
+        ip: { type: ColumnType.String, nullable: true, meta: 'String' },
+        device: { type: ColumnType.String, nullable: true, meta: 'String' },
+        lastSeen: { type: ColumnType.Int, nullable: true, meta: 'Int' }
+      },
+      indexes: [{ fields: ['user'] }, { fields: ['created'] }, { fields: ['masterKey'] }]
+    });
+
+    this.refreshTokens = await this.dynTableStore.redefine<RefreshToken>('refreshTokens', {
+      columns: {
+        id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
+        family: { type: ColumnType.String, nullable: false, meta: 'NO' },
+        session: { type: ColumnType.ID, nullable: false, meta: 'NO' },
+
+        user: { type: ColumnType.ID, nullable: false, meta: 'User!' },
+        context: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        identifier: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        collections: { type: ColumnType.JSON, nullable: false, meta: '[String]!' },
+        permissions: { type: ColumnType.JSON, nullable: false, meta: '[String]!' },
+
+        hash: { type: ColumnType.String, nullable: false, meta: 'NO' },
+        created: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        used: { type: ColumnType.Int, nullable: true, meta: 'NO' }
+      },
+      indexes: [{ fields: ['family'] }, { fields: ['session'] }, { fields: ['user'] }, { fields: ['created'] }]
+    });
+
+    this.signingKeys = await this.dynTableStore.redefine<SigningKey>('signingKeys', {
+      columns: {
+        id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
+        alg: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        privateKey: { type: ColumnType.JSON, nullable: false, meta: 'NO' },
+        publicKey: { type: ColumnType.JSON, nullable: false, meta: 'NO' },
         created: { type: ColumnType.Int, nullable: false, meta: 'Int!' }
       },
-      indexes: [{ fields: ['user'] }, { fields: ['created'] }]
+      indexes: [{ fields: ['created'] }]
     });
 
     this.users = await this.dynTableStore.redefine<AuthUser>('users', {
@@ -46,10 +86,29 @@ export class HelpfulAuthDb extends AuthDb {
         pass: { type: ColumnType.String, nullable: false, meta: 'NO' },
         salt: { type: ColumnType.String, nullable: false, meta: 'NO' },
         created: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        totp: { type: ColumnType.JSON, nullable: true, meta: 'NO' },
+        admin: { type: ColumnType.Boolean, nullable: true, meta: 'Boolean' },
+        disabled: { type: ColumnType.Boolean, nullable: true, meta: 'Boolean' },
+        resetPass: { type: ColumnType.Boolean, nullable: true, meta: 'NO' },
+        invitedBy: { type: ColumnType.ID, nullable: true, meta: 'User' },
+        recoveryKeys: { type: ColumnType.JSON, nullable: true, meta: 'NO' }
       },
       indexes: [{ fields: ['username'], unique: true }]
     });
 
+    this.invites = await this.dynTableStore.redefine<Invite>('invites', {
+      columns: {
+        id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
+        creator: { type: ColumnType.ID, nullable: false, meta: 'User!' },
+        hash: { type: ColumnType.String, nullable: false, meta: 'NO' },
+        maxUses: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        users: { type: ColumnType.JSON, nullable: false, meta: '[User]!' },
+        created: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        expires: { type: ColumnType.Int, nullable: false, meta: 'Int!' }
+      },
+      indexes: [{ fields: ['creator'] }, { fields: ['expires'] }]
+    });
+
     this.handshakes = await this.dynTableStore.redefine<Handshake>('handshakes', {
       columns: {
         id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
@@ -59,33 +118,138 @@ export class HelpfulAuthDb extends AuthDb {
 
         app: { type: ColumnType.String, nullable: true, meta: 'String' },
         redirect: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        hash: { type: ColumnType.String, nullable: true, meta: 'String' },
+        secureApp: { type: ColumnType.JSON, nullable: true, meta: 'NO' },
 
         permissions: { type: ColumnType.JSON, nullable: false, meta: '[String]!' },
         collections: { type: ColumnType.JSON, nullable: false, meta: '[String]!' },
 
+        state: { type: ColumnType.String, nullable: true, meta: 'NO' },
+        codeChallenge: { type: ColumnType.String, nullable: true, meta: 'NO' },
+
         created: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
       },
       indexes: [{ fields: ['user'] }, { fields: ['created'] }]
     });
 
+    this.secureApps = await this.dynTableStore.redefine<SecureApp>('secureApps', {
+      columns: {
+        id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
+        hash: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        publicKey: { type: ColumnType.JSON, nullable: false, meta: 'NO' },
+        alg: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        name: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        created: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        updated: { type: ColumnType.Int, nullable: false, meta: 'Int!' }
+      },
+      indexes: [{ fields: ['hash'], unique: true }]
+    });
+
+    this.challenges = await this.dynTableStore.redefine<LoginChallenge>('challenges', {
+      columns: {
+        id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
+        type: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        user: { type: ColumnType.ID, nullable: true, meta: 'User' },
+        nonce: { type: ColumnType.String, nullable: true, meta: 'NO' },
+        attempts: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        created: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+      },
+      indexes: [{ fields: ['created'] }]
+    });
+
+    this.credentials = await this.dynTableStore.redefine<WebAuthnCredential>('webAuthnCredentials', {
+      columns: {
+        id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
+        user: { type: ColumnType.ID, nullable: false, meta: 'User!' },
+        credentialId: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        publicKey: { type: ColumnType.JSON, nullable: false, meta: 'NO' },
+        alg: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        signCount: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        transports: { type: ColumnType.JSON, nullable: false, meta: '[String]!' },
+        name: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        created: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        lastUsed: { type: ColumnType.Int, nullable: true, meta: 'Int' }
+      },
+      indexes: [{ fields: ['user'] }, { fields: ['credentialId'], unique: true }]
+    });
+
     this.masterKeys = await this.dynTableStore.redefine<MasterKey>('masterKeys', {
       columns: {
         id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
         user: { type: ColumnType.ID, nullable: false, meta: 'User!' },
         name: { type: ColumnType.String, nullable: true, meta: 'String' },
         secret: { type: ColumnType.JSON, nullable: false, meta: 'NO' },
+        // nullable, as older keys have no scope (and so cannot be used)
+        type: { type: ColumnType.String, nullable: true, meta: 'String' },
+        contexts: { type: ColumnType.JSON, nullable: true, meta: '[String]' },
+        permissions: { type: ColumnType.JSON, nullable: true, meta: '[String]' },
         created: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        expires: { type: ColumnType.Int, nullable: true, meta: 'Int' },
+        lastUsed: { type: ColumnType.Int, nullable: true, meta: 'Int' }
+      },
+      indexes: [{ fields: ['user'] }]
+    });
+
+    this.securityEvents = await this.dynTableStore.redefine<SecurityEvent>('securityEvents', {
+      columns: {
+        id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
+        user: { type: ColumnType.ID, nullable: false, meta: 'User!' },
+        type: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        details: { type: ColumnType.JSON, nullable: false, meta: 'NO' },
+        userAgent: { type: ColumnType.String, nullable: true, meta: 'String' },
+        ip: { type: ColumnType.String, nullable: true, meta: 'String' },
+        device: { type: ColumnType.String, nullable: true, meta: 'String' },
+        created: { type: ColumnType.Int, nullable: false, meta: 'Int!' }
+      },
+      indexes: [{ fields: ['user'] }, { fields: ['created'] }]
+    });
+
+    this.apps = await this.dynTableStore.redefine<AuthApp>('apps', {
+      columns: {
+        id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
+        user: { type: ColumnType.ID, nullable: false, meta: 'User!' },
+        context: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        identifier: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        permissions: { type: ColumnType.JSON, nullable: false, meta: '[String]!' },
+        collections: { type: ColumnType.JSON, nullable: false, meta: '[String]!' },
+        firstUsed: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        lastUsed: { type: ColumnType.Int, nullable: false, meta: 'Int!' },
+        fileNode: { type: ColumnType.String, nullable: true, meta: 'String' },
+        dbNode: { type: ColumnType.String, nullable: true, meta: 'String' }
+      },
+      indexes: [{ fields: ['user'] }, { fields: ['user', 'context', 'identifier'], unique: true }]
+    });
+
+    this.remoteKeys = await this.dynTableStore.redefine<RemoteKey>('remoteKeys', {
+      columns: {
+        id: { type: ColumnType.ID, nullable: false, meta: 'ID!' },
+        user: { type: ColumnType.ID, nullable: false, meta: 'User!' },
+        name: { type: ColumnType.String, nullable: true, meta: 'String' },
+        key: { type: ColumnType.String, nullable: false, meta: 'NO' },
+        keyId: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        url: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        type: { type: ColumnType.String, nullable: false, meta: 'String!' },
+        created: { type: ColumnType.Int, nullable: false, meta: 'Int!' }
       },
       indexes: [{ fields: ['user'] }]
     });
   }
 
   protected sessions?: DynTable<AuthSession>;
+  protected refreshTokens?: DynTable<RefreshToken>;
+  protected signingKeys?: DynTable<SigningKey>;
   protected users?: DynTable<AuthUser>;
+  protected invites?: DynTable<Invite>;
   protected handshakes?: DynTable<Handshake>;
+  protected secureApps?: DynTable<SecureApp>;
+  protected challenges?: DynTable<LoginChallenge>;
+  protected credentials?: DynTable<WebAuthnCredential>;
   protected masterKeys?: DynTable<MasterKey>;
+  protected apps?: DynTable<AuthApp>;
+  protected securityEvents?: DynTable<SecurityEvent>;
+  protected remoteKeys?: DynTable<RemoteKey>;
 
-  async addSession(user: string, context: string, identifier: string, extra?: Partial<{ collections: string[], permissions: string[] }>): Promise<string> {
+  async addSession(user: string, context: string, identifier: string, extra?: Partial<{ collections: readonly string[], permissions: readonly string[], masterKey: string | null }>): Promise<string> {
     const sess = await this.sessions!.add({
       user,
       secret: await generateSecret(),
@@ -96,12 +260,23 @@ export class HelpfulAuthDb extends AuthDb {
       collections: extra?.collections ?? [],
       permissions: extra?.permissions ?? [],
 
-      created: Date.now()
+      created: Date.now(),
+      active: null,
+      masterKey: extra?.masterKey ?? null,
+
+      userAgent: null,
+      ip: null,
+      device: null,
+      lastSeen: null
     });
 
     return sess.id!;
   }
 
+  async putSession(id: string, session: AuthSession): Promise<void> {
+    await this.sessions!.put(id, session);
+  }
+
   async getSession(session: string): Promise<AuthSession | null> {
     return await this.sessions!.one(session);
   }
@@ -114,9 +289,14 @@ export class HelpfulAuthDb extends AuthDb {
     return await this.sessions!.delMany(sessions);
   }
 
-  /** Delete all expired sessions */
+  /** Delete all expired sessions; their refresh tokens outlive them, until they expire too (see `cleanRefreshTokens`) */
   async cleanSessions(): Promise<void> {
-    const sessions = await this.sessions!.search({ query: { created: { $lt: Date.now() - this.sessionExpTime } }, projection: ['id'] });
+    const before = Date.now() - this.sessionExpTime;
+    // sessions which have been used (if sliding) expire from when they were last used
+    const sessions = [
+      ...await this.sessions!.search({ query: { created: { $lt: before }, active: null }, projection: ['id'] }),
+      ...await this.sessions!.search({ query: { active: { $lt: before } }, projection: ['id'] })
+    ];
     await this.delManySessions(sessions.map(s => s.id!));
   }
 
@@ -128,6 +308,99 @@ export class HelpfulAuthDb extends AuthDb {
     return await this.sessions!.all({ user });
   }
 
+  async getSessionsForMasterKey(masterKey: string): Promise<AuthSession[]> {
+    return await this.sessions!.all({ masterKey });
+  }
+
+  async hasSessionsForContext(context: string): Promise<boolean> {
+    const after = Date.now() - this.sessionExpTime;
+
+    const created = await this.sessions!.search({ query: { context, created: { $gte: after } }, limit: 1, projection: ['id'] });
+    if(created.length)
+      return true;
+
+    const active = await this.sessions!.search({ query: { context, active: { $gte: after } }, limit: 1, projection: ['id'] });
+    return active.length > 0;
+  }
+
+  async countSessions(): Promise<number> {
+    const after = Date.now() - this.sessionExpTime;
+
+    const created = await this.sessions!.search({ query: { created: { $gte: after } }, projection: ['id'] });
+    const active = await this.sessions!.search({ query: { created: { $lt: after }, active: { $gte: after } }, projection: ['id'] });
+
+    return created.length + active.length;
+  }
+
+  // refresh tokens
+
+  async addRefreshToken(token: RefreshToken): Promise<string> {
+    return await this.refreshTokens!.add(token).then(res => res.id!);
+  }
+
+  async putRefreshToken(id: string, token: RefreshToken): Promise<void> {
+    await this.refreshTokens!.put(id, token);
+  }
+
+  async useRefreshToken(id: string, used: number): Promise<boolean> {
+    return await this.refreshTokens!.putWhere(id, { used: null }, { used }) > 0;
+  }
+
+  async getRefreshToken(id: string): Promise<RefreshToken | null> {
+    return await this.refreshTokens!.one(id);
+  }
+
+  async getRefreshTokensForFamily(family: string): Promise<RefreshToken[]> {
+    return await this.refreshTokens!.all({ family });
+  }
+
+  async delManyRefreshTokens(ids: readonly string[]): Promise<void> {
+    await this.refreshTokens!.delMany(ids);
+  }
+
+  async delRefreshTokensForSessions(sessions: readonly string[]): Promise<void> {
+    for(const session of sessions) {
+      const tokens = await this.refreshTokens!.search({ query: { session }, projection: ['id'] });
+      await this.refreshTokens!.delMany(tokens.map(t => t.id!));
+    }
+  }
+
+  async delRefreshTokensForUser(user: string, keep?: string): Promise<void> {
+    const tokens = await this.refreshTokens!.search({ query: { user }, projection: ['id', 'session'] });
+    await this.refreshTokens!.delMany(tokens.filter(t => !keep || t.session !== keep).map(t => t.id!));
+  }
+
+  async delRefreshTokensForApp(user: string, context: string, identifier: string): Promise<void> {
+    const tokens = await this.refreshTokens!.search({ query: { user, context, identifier }, projection: ['id'] });
+    await this.refreshTokens!.delMany(tokens.map(t => t.id!));
+  }
+
+  /** Delete all expired refresh tokens */
+  async cleanRefreshTokens(): Promise<void> {
+    const tokens = await this.refreshTokens!.search({ query: { created: { $lt: Date.now() - this.refreshExpTime } }, projection: ['id'] });
+    await this.refreshTokens!.delMany(tokens.map(t => t.id!));
+  }
+
+  // signing keys
+
+  async addSigningKey(key: SigningKey): Promise<string> {
+    return await this.signingKeys!.add(key).then(res => res.id!);
+  }
+
+  async getSigningKey(id: string): Promise<SigningKey | null> {
+    return await this.signingKeys!.one(id);
+  }
+
+  async getSigningKeys(): Promise<SigningKey[]> {
+    return await this.signingKeys!.search({ query: { created: { $gte: Date.now() - this.signingKeyRotation - this.sessionExpTime } } });
+  }
+
+  /** Delete all expired signing keys */
+  async cleanSigningKeys(): Promise<void> {
+    const keys = await this.signingKeys!.search({ query: { created: { $lt: Date.now() - this.signingKeyRotation - this.sessionExpTime } }, projection: ['id'] });
+    await this.signingKeys!.delMany(keys.map(k => k.id!));
+  }
+
   // users
 
   async addUser(user: AuthUser): Promise<string> {
@@ -138,6 +411,10 @@ export class HelpfulAuthDb extends AuthDb {
     await this.users!.put(id, user);
   }
 
+  async putUserTotp(id: string, old: TotpConfig | null, totp: TotpConfig | null): Promise<boolean> {
+    return await this.users!.putWhere(id, { totp: old }, { totp }) > 0;
+  }
+
   async getUser(id: string): Promise<AuthUser | null> {
     return await this.users!.one(id);
   }
@@ -159,6 +436,57 @@ export class HelpfulAuthDb extends AuthDb {
     return users[0];
   }
 
+  async getUserIds(): Promise<string[]> {
+    return await this.users!.search({ projection: ['id'] }).then(res => res.map(u => u.id!));
+  }
+
+  async searchUsers(options: { username?: string; skip?: number; limit?: number } = { }): Promise<AuthUser[]> {
+    return await this.users!.search({
+      // a prefix search
+      query: options.username ? { username: { $gte: options.username, $lt: options.username + '\uffff' } } : undefined,
+      sort: 'username',
+      skip: options.skip,
+      limit: options.limit
+    });
+  }
+
+  // invites
+
+  async addInvite(invite: Invite): Promise<string> {
+    return await this.invites!.add(invite).then(res => res.id!);
+  }
+
+  async putInvite(id: string, invite: Invite): Promise<void> {
+    await this.invites!.put(id, invite);
+  }
+
+  async addInviteUser(id: string, users: readonly string[], user: string): Promise<boolean> {
+    return await this.invites!.putWhere(id, { users: [...users] }, { users: [...users, user] }) > 0;
+  }
+
+  async getInvite(id: string): Promise<Invite | null> {
+    return await this.invites!.one(id);
+  }
+
+  async getInvitesForUser(user: string): Promise<Invite[]> {
+    return await this.invites!.all({ creator: user });
+  }
+
+  async delInvite(id: string): Promise<void> {
+    await this.invites!.del(id);
+  }
+
+  async delInvitesForUser(user: string): Promise<void> {
+    const invites = await this.invites!.search({ query: { creator: user }, projection: ['id'] });
+    await this.invites!.delMany(invites.map(i => i.id!));
+  }
+
+  /** Delete all expired invites */
+  async cleanInvites(): Promise<void> {
+    const invites = await this.invites!.search({ query: { expires: { $lt: Date.now() } }, projection: ['id'] });
+    await this.invites!.delMany(invites.map(i => i.id!));
+  }
+
   // handshakes
 
   async addHandshake(hs: Handshake): Promise<string> {
@@ -191,14 +519,91 @@ export class HelpfulAuthDb extends AuthDb {
     await this.handshakes!.delMany(handshakes.map(hs => hs.id!));
   }
 
+  // secure apps
+
+  async addSecureApp(app: SecureApp): Promise<string> {
+    return await this.secureApps!.add(app).then(res => res.id!);
+  }
+
+  async putSecureApp(id: string, app: SecureApp): Promise<void> {
+    await this.secureApps!.put(id, app);
+  }
+
+  async getSecureApp(id: string): Promise<SecureApp | null> {
+    return await this.secureApps!.one(id);
+  }
+
+  async getSecureAppFromHash(hash: string): Promise<SecureApp | null> {
+    const apps = await this.secureApps!.search({ query: { hash }, limit: 1 });
+
+    return apps[0] ?? null;
+  }
+
+  // login challenges
+
+  async addChallenge(challenge: LoginChallenge): Promise<string> {
+    return await this.challenges!.add(challenge).then(res => res.id!);
+  }
+
+  async putChallenge(id: string, challenge: LoginChallenge): Promise<void> {
+    await this.challenges!.put(id, challenge);
+  }
+
+  async getChallenge(id: string): Promise<LoginChallenge | null> {
+    return await this.challenges!.one(id);
+  }
+
+  async delChallenge(id: string): Promise<void> {
+    await this.challenges!.del(id);
+  }
+
+  /** Delete all expired login challenges */
+  async cleanChallenges(): Promise<void> {
+    const challenges = await this.challenges!.search({ query: { created: { $lt: Date.now() - this.challengeExpTime } }, projection: ['id'] });
+    await this.challenges!.delMany(challenges.map(c => c.id!));
+  }
+
+  // webauthn credentials
+
+  async addCredential(credential: WebAuthnCredential): Promise<string> {
+    return await this.credentials!.add(credential).then(res => res.id!);
+  }
+
+  async putCredential(id: string, credential: WebAuthnCredential): Promise<void> {
+    await this.credentials!.put(id, credential);
+  }
+
+  async getCredential(id: string): Promise<WebAuthnCredential | null> {
+    return await this.credentials!.one(id);
+  }
+
+  async getCredentialFromCredentialId(credentialId: string): Promise<WebAuthnCredential | null> {
+    const credentials = await this.credentials!.search({ query: { credentialId }, limit: 1 });
+
+    return credentials[0] ?? null;
+  }
+
+  async getCredentialsForUser(user: string): Promise<WebAuthnCredential[]> {
+    return await this.credentials!.all({ user });
+  }
+
+  async delCredential(id: string): Promise<void> {
+    await this.credentials!.del(id);
+  }
+
   // master keys
 
-  async addMasterKey(user: string, name = ''): Promise<string> {
+  async addMasterKey(user: string, extra: Pick<MasterKey, 'name' | 'type' | 'contexts' | 'permissions' | 'expires'>): Promise<string> {
     return await this.masterKeys!.add({
       user,
-      name,
+      name: extra.name,
       secret: await generateSecret(),
-      created: Date.now()
+      type: extra.type,
+      contexts: extra.contexts,
+      permissions: extra.permissions,
+      created: Date.now(),
+      expires: extra.expires ?? null,
+      lastUsed: null
     }).then(res => res.id!);
   }
 
@@ -217,6 +622,89 @@ export class HelpfulAuthDb extends AuthDb {
   async getMasterKeysForUser(user: string): Promise<MasterKey[]> {
     return await this.masterKeys!.all({ user });
   }
+
+  // security events
+
+  async addSecurityEvent(event: Omit<SecurityEvent, 'id'>): Promise<string> {
+    return await this.securityEvents!.add(event).then(res => res.id!);
+  }
+
+  async getSecurityEventsForUser(user: string, options: { type?: SecurityEvent['type']; skip?: number; limit?: number } = { }): Promise<SecurityEvent[]> {
+    return await this.securityEvents!.search({
+      query: options.type ? { user, type: options.type } : { user },
+      sort: '-created',
+      skip: options.skip,
+      limit: options.limit
+    });
+  }
+
+  async delSecurityEventsForUser(user: string): Promise<void> {
+    const events = await this.securityEvents!.search({ query: { user }, projection: ['id'] });
+    await this.securityEvents!.delMany(events.map(e => e.id!));
+  }
+
+  async cleanSecurityEvents(): Promise<void> {
+    const events = await this.securityEvents!.search({ query: { created: { $lt: Date.now() - this.securityEventExpTime } }, projection: ['id'] });
+    await this.securityEvents!.delMany(events.map(e => e.id!));
+  }
+
+  // apps
+
+  async addApp(app: Omit<AuthApp, 'id'>): Promise<string> {
+    return await this.apps!.add(app).then(res => res.id!);
+  }
+
+  async putApp(id: string, app: AuthApp): Promise<void> {
+    await this.apps!.put(id, app);
+  }
+
+  async getApp(id: string): Promise<AuthApp | null> {
+    return await this.apps!.one(id);
+  }
+
+  async getAppFor(user: string, context: string, identifier: string): Promise<AuthApp | null> {
+    return await this.apps!.search({ query: { user, context, identifier }, limit: 1 }).then(res => res[0] ?? null);
+  }
+
+  async getAppsForUser(user: string): Promise<AuthApp[]> {
+    return await this.apps!.search({ query: { user }, sort: '-lastUsed' });
+  }
+
+  async delApp(id: string): Promise<void> {
+    await this.apps!.del(id);
+  }
+
+  async delAppsForUser(user: string): Promise<void> {
+    const apps = await this.apps!.search({ query: { user }, projection: ['id'] });
+    await this.apps!.delMany(apps.map(a => a.id!));
+  }
+
+  // remote keys
+
+  async addRemoteKey(key: Omit<RemoteKey, 'id' | 'created'>): Promise<string> {
+    return await this.remoteKeys!.add({ ...key, created: Date.now() }).then(res => res.id!);
+  }
+
+  async putRemoteKey(id: string, key: RemoteKey): Promise<void> {
+    await this.remoteKeys!.put(id, key);
+  }
+
+  async getRemoteKey(id: string): Promise<RemoteKey | null> {
+    return await this.remoteKeys!.one(id);
+  }
+
+  async delRemoteKey(id: string): Promise<void> {
+    await this.remoteKeys!.del(id);
+  }
+
+  async getRemoteKeysForUser(user: string): Promise<RemoteKey[]> {
+    return await this.remoteKeys!.all({ user });
+  }
+
+  async delRemoteKeysForUser(user: string): Promise<void> {
+    const keys = await this.remoteKeys!.search({ query: { user }, projection: ['id'] });
+    await this.remoteKeys!.delMany(keys.map(k => k.id!));
+  }
 }
 
 export default HelpfulAuthDb;
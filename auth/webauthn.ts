@@ -0,0 +1,391 @@
+/**
+ * Helpers for verifying WebAuthn (passkey) ceremonies with WebCrypto; just enough CBOR, COSE
+ * and DER to handle the `none` and `packed` attestation formats.
+ */
+
+/** The COSE algorithms supported, in order of preference */
+export const supportedAlgorithms = Object.freeze([-8, -7, -257]); // EdDSA, ES256, RS256
+
+/** The authenticator data flags */
+export const AuthenticatorFlags = Object.freeze({
+  /** User Present */
+  UP: 0x01,
+  /** User Verified */
+  UV: 0x04,
+  /** Attested credential data included */
+  AT: 0x40,
+  /** Extension data included */
+  ED: 0x80
+});
+
+export interface ClientData {
+  type: 'webauthn.create' | 'webauthn.get';
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  flags: number;
+  signCount: number;
+
+  /** Only given when registering (i.e. the `AT` flag is set) */
+  attestedCredential?: {
+    aaguid: Uint8Array;
+    credentialId: Uint8Array;
+    publicKey: Map<number, unknown>;
+  };
+}
+
+export interface AttestationObject {
+  fmt: string;
+  attStmt: Map<string, unknown>;
+  authData: Uint8Array;
+}
+
+/**
+ * Encode bytes as base64url (without padding)
+ * @param {Uint8Array} bytes The bytes
+ * @returns {string} The base64url string
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64url (or base64) string
+ * @param {string} str The base64url string
+ * @returns {Uint8Array} The bytes
+ */
+export function base64UrlDecode(str: string): Uint8Array {
+  const b64 = str.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(b64 + '='.repeat((4 - b64.length % 4) % 4)), c => c.charCodeAt(0));
+}
+
+/**
+ * Generate a random 32 byte challenge in base64url format
+ * @returns {string} The challenge
+ */
+export function generateChallenge(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Decode a single CBOR item (RFC 8949), without floats or indefinite lengths, which
+ * authenticators don't use
+ * @param {Uint8Array} bytes The bytes
+ * @param {number} offset (optional) Where to start reading from
+ * @returns The decoded value, and where it ended
+ */
+export function decodeCbor(bytes: Uint8Array, offset = 0): { value: unknown; end: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const readLength = (info: number): number => {
+    if(info < 24)
+      return info;
+
+    switch(info) {
+      case 24: return bytes[offset++];
+      case 25: offset += 2; return view.getUint16(offset - 2);
+      case 26: offset += 4; return view.getUint32(offset - 4);
+      case 27: offset += 8; return Number(view.getBigUint64(offset - 8));
+      default: throw new Error(`Unsupported CBOR length "${info}"!`);
+    }
+  };
+
+  const read = (): unknown => {
+    if(offset >= bytes.length)
+      throw new Error('Unexpected end of CBOR data!');
+
+    const initial = bytes[offset++];
+    const major = initial >> 5;
+    const info = initial & 31;
+
+    switch(major) {
+      case 0: return readLength(info);
+      case 1: return -1 - readLength(info);
+      case 2: {
+        const length = readLength(info);
+        offset += length;
+        return bytes.slice(offset - length, offset);
+      }
+      case 3: {
+        const length = readLength(info);
+        offset += length;
+        return new TextDecoder().decode(bytes.subarray(offset - length, offset));
+      }
+      case 4: return Array.from({ length: readLength(info) }, read);
+      case 5: {
+        const map = new Map<unknown, unknown>();
+        for(let i = readLength(info); i > 0; i--) {
+          const key = read();
+          map.set(key, read());
+        }
+        return map;
+      }
+      case 6: readLength(info); return read(); // ignore tags
+      default:
+        switch(info) {
+          case 20: return false;
+          case 21: return true;
+          case 22: return null;
+          case 23: return undefined;
+          default: throw new Error(`Unsupported CBOR simple value "${info}"!`);
+        }
+    }
+  };
+
+  const value = read();
+
+  return { value, end: offset };
+}
+
+/**
+ * Parse the `clientDataJSON` of a ceremony
+ * @param {Uint8Array} clientDataJSON The raw client data
+ * @returns {ClientData} The client data
+ */
+export function parseClientData(clientDataJSON: Uint8Array): ClientData {
+  const data = JSON.parse(new TextDecoder().decode(clientDataJSON));
+
+  if(!data || typeof data.type !== 'string' || typeof data.challenge !== 'string' || typeof data.origin !== 'string')
+    throw new Error('Invalid client data!');
+
+  return data;
+}
+
+/**
+ * Parse the `attestationObject` of a registration
+ * @param {Uint8Array} attestationObject The raw attestation object
+ * @returns {AttestationObject} The attestation object
+ */
+export function parseAttestationObject(attestationObject: Uint8Array): AttestationObject {
+  const obj = decodeCbor(attestationObject).value;
+
+  if(!(obj instanceof Map) || typeof obj.get('fmt') !== 'string' || !(obj.get('attStmt') instanceof Map) ||
+    !(obj.get('authData') instanceof Uint8Array))
+    throw new Error('Invalid attestation object!');
+
+  return { fmt: obj.get('fmt'), attStmt: obj.get('attStmt'), authData: obj.get('authData') };
+}
+
+/**
+ * Parse authenticator data
+ * @param {Uint8Array} authData The raw authenticator data
+ * @returns {AuthenticatorData} The authenticator data
+ */
+export function parseAuthenticatorData(authData: Uint8Array): AuthenticatorData {
+  if(authData.length < 37)
+    throw new Error('Authenticator data is too short!');
+
+  const view = new DataView(authData.buffer, authData.byteOffset, authData.byteLength);
+
+  const ret: AuthenticatorData = {
+    rpIdHash: authData.slice(0, 32),
+    flags: authData[32],
+    signCount: view.getUint32(33)
+  };
+
+  if(ret.flags & AuthenticatorFlags.AT) {
+    const length = view.getUint16(53);
+    const { value } = decodeCbor(authData, 55 + length);
+
+    if(!(value instanceof Map))
+      throw new Error('Invalid credential public key!');
+
+    ret.attestedCredential = {
+      aaguid: authData.slice(37, 53),
+      credentialId: authData.slice(55, 55 + length),
+      publicKey: value
+    };
+  }
+
+  return ret;
+}
+
+/**
+ * Convert a COSE public key to a JWK
+ * @param {Map<number, unknown>} cose The COSE key
+ * @returns The JWK, and the COSE algorithm of the key
+ */
+export function coseToJwk(cose: Map<number, unknown>): { jwk: JsonWebKey; alg: number } {
+  const kty = cose.get(1);
+  const alg = cose.get(3) as number;
+  const b64 = (i: number) => base64UrlEncode(cose.get(i) as Uint8Array);
+
+  if(kty === 2 && alg === -7 && cose.get(-1) === 1) // EC2, ES256, P-256
+    return { jwk: { kty: 'EC', crv: 'P-256', x: b64(-2), y: b64(-3) }, alg };
+
+  if(kty === 1 && alg === -8 && cose.get(-1) === 6) // OKP, EdDSA, Ed25519
+    return { jwk: { kty: 'OKP', crv: 'Ed25519', x: b64(-2) }, alg };
+
+  if(kty === 3 && alg === -257) // RSA, RS256
+    return { jwk: { kty: 'RSA', n: b64(-1), e: b64(-2) }, alg };
+
+  throw new Error(`Unsupported public key (kty ${kty}, alg ${alg})!`);
+}
+
+/**
+ * Get the WebCrypto parameters of a COSE algorithm
+ * @param {number} alg The COSE algorithm
+ * @returns The import and verify parameters
+ */
+function getAlgorithm(alg: number): { importParams: AlgorithmIdentifier | RsaHashedImportParams | EcKeyImportParams; verifyParams: AlgorithmIdentifier | EcdsaParams } {
+  switch(alg) {
+    case -7: return { importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } };
+    case -8: return { importParams: { name: 'Ed25519' }, verifyParams: { name: 'Ed25519' } };
+    case -257: return { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: { name: 'RSASSA-PKCS1-v1_5' } };
+    default: throw new Error(`Unsupported algorithm "${alg}"!`);
+  }
+}
+
+/**
+ * Read a DER element's header
+ * @param {Uint8Array} der The DER bytes
+ * @param {number} offset Where the element starts
+ * @returns The tag, where the element (header) starts, and where the contents start and end
+ */
+function readDer(der: Uint8Array, offset: number): { tag: number; header: number; start: number; end: number } {
+  const header = offset;
+  const tag = der[offset++];
+  let length = der[offset++];
+
+  if(length & 0x80) {
+    let bytes = length & 0x7f;
+    length = 0;
+
+    while(bytes-- > 0)
+      length = (length << 8) | der[offset++];
+  }
+
+  return { tag, header, start: offset, end: offset + length };
+}
+
+/**
+ * Convert a DER (ASN.1) ECDSA signature, as authenticators give, to the raw `r || s` WebCrypto wants
+ * @param {Uint8Array} der The DER signature
+ * @param {number} size (optional) The size of `r` and `s`
+ * @returns {Uint8Array} The raw signature
+ */
+export function derToRawSignature(der: Uint8Array, size = 32): Uint8Array {
+  const seq = readDer(der, 0);
+  const r = readDer(der, seq.start);
+  const s = readDer(der, r.end);
+
+  const raw = new Uint8Array(size * 2);
+  const fit = (int: { start: number; end: number }) => der.slice(Math.max(int.start, int.end - size), int.end);
+
+  const rBytes = fit(r);
+  const sBytes = fit(s);
+  raw.set(rBytes, size - rBytes.length);
+  raw.set(sBytes, size * 2 - sBytes.length);
+
+  return raw;
+}
+
+/**
+ * Get the SubjectPublicKeyInfo out of an X.509 certificate
+ * @param {Uint8Array} cert The DER certificate
+ * @returns {Uint8Array} The DER SubjectPublicKeyInfo
+ */
+export function getCertificatePublicKey(cert: Uint8Array): Uint8Array {
+  const certificate = readDer(cert, 0);
+  const tbs = readDer(cert, certificate.start);
+
+  let el = readDer(cert, tbs.start);
+  // skip the (optional) version
+  if(el.tag === 0xa0)
+    el = readDer(cert, el.end);
+
+  // serial number, signature algorithm, issuer, validity, subject
+  for(let i = 0; i < 5; i++)
+    el = readDer(cert, el.end);
+
+  return cert.slice(el.header, el.end);
+}
+
+/**
+ * Verify a WebAuthn signature (over `authData || SHA-256(clientDataJSON)`)
+ * @param key The public key, either as a JWK or as a DER SubjectPublicKeyInfo (from a certificate)
+ * @param {number} alg The COSE algorithm
+ * @param {Uint8Array} signature The signature
+ * @param {Uint8Array} data The signed data
+ * @returns {Promise<boolean>} Whether or not the signature is valid
+ */
+export async function verifySignature(key: JsonWebKey | Uint8Array, alg: number, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+  const { importParams, verifyParams } = getAlgorithm(alg);
+
+  const cryptoKey = key instanceof Uint8Array
+    ? await crypto.subtle.importKey('spki', key.buffer as ArrayBuffer, importParams, false, ['verify'])
+    : await crypto.subtle.importKey('jwk', key, importParams, false, ['verify']);
+
+  if(alg === -7)
+    signature = derToRawSignature(signature);
+
+  return await crypto.subtle.verify(verifyParams, cryptoKey, signature.buffer as ArrayBuffer, data.buffer as ArrayBuffer);
+}
+
+/**
+ * Concatenate byte arrays
+ * @param {Uint8Array[]} arrays The byte arrays
+ * @returns {Uint8Array} The concatenated bytes
+ */
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+  const ret = new Uint8Array(arrays.reduce((acc, a) => acc + a.length, 0));
+
+  let offset = 0;
+  for(const a of arrays) {
+    ret.set(a, offset);
+    offset += a.length;
+  }
+
+  return ret;
+}
+
+/**
+ * Get the SHA-256 hash of some bytes (or a string)
+ * @param data The data
+ * @returns {Promise<Uint8Array>} The hash
+ */
+export async function sha256(data: Uint8Array | string): Promise<Uint8Array> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes.buffer as ArrayBuffer));
+}
+
+/**
+ * Verify an attestation statement; `none`, and `packed` (self or with a certificate, though the
+ * certificate chain is not checked against any trust anchors)
+ * @param attestation The attestation object
+ * @param credential The credential public key and its algorithm
+ * @param {Uint8Array} clientDataHash The SHA-256 hash of the `clientDataJSON`
+ * @returns {Promise<boolean>} Whether or not it is valid
+ */
+export async function verifyAttestation(attestation: AttestationObject, credential: { jwk: JsonWebKey; alg: number },
+  clientDataHash: Uint8Array): Promise<boolean> {
+
+  switch(attestation.fmt) {
+    case 'none':
+      return true;
+
+    case 'packed': {
+      const alg = attestation.attStmt.get('alg');
+      const sig = attestation.attStmt.get('sig');
+      const x5c = attestation.attStmt.get('x5c');
+
+      if(typeof alg !== 'number' || !(sig instanceof Uint8Array))
+        return false;
+
+      const data = concatBytes(attestation.authData, clientDataHash);
+
+      if(Array.isArray(x5c) && x5c[0] instanceof Uint8Array)
+        return await verifySignature(getCertificatePublicKey(x5c[0]), alg, sig, data);
+
+      // self attestation
+      return alg === credential.alg && await verifySignature(credential.jwk, alg, sig, data);
+    }
+
+    default:
+      throw new Error(`Unsupported attestation format "${attestation.fmt}"!`);
+  }
+}
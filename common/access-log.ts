@@ -0,0 +1,215 @@
+import { assertEquals, assertRejects, joinPath } from '../deps/std.ts';
+
+import { isUnhandled } from '../api/router.ts';
+import type { SlimRequestStub, SlimRouteHandler } from '../api/types.ts';
+
+import { getRequestIp } from './rate-limiter.ts';
+
+/**
+ * An entry in the access log
+ */
+export interface AccessLogEntry {
+  /** When the request was received (ISO 8601) */
+  time: string;
+  method: string;
+  /** The (redacted) path and query */
+  url: string;
+  /** The route (pattern) which handled the request, if any */
+  route?: string;
+  status: number;
+  /** How long (in ms) the request took to handle */
+  duration: number;
+
+  /** The ID of the authenticated user, if any */
+  user?: string;
+  /** The context of the authenticated session, if any */
+  context?: string;
+
+  ip?: string;
+  /** The (redacted) request headers, if enabled */
+  headers?: Record<string, string>;
+}
+
+/** Where access log entries are written to */
+export type AccessLogSink = (entry: AccessLogEntry) => void | Promise<void>;
+
+/** The headers which are always redacted */
+const sensitiveHeaders = Object.freeze(['authorization', 'cookie', 'proxy-authorization']);
+
+/**
+ * A sink which writes JSON lines to the console
+ * @returns {AccessLogSink} The sink
+ */
+export function consoleSink(): AccessLogSink {
+  return entry => console.log(JSON.stringify(entry));
+}
+
+/**
+ * A sink which appends JSON lines to a file (creating it if needed)
+ * @param path The path of the file
+ * @returns {AccessLogSink} The sink
+ */
+export function fileSink(path: string): AccessLogSink {
+  const encoder = new TextEncoder();
+  let file: Promise<Deno.FsFile> | undefined;
+  // write one line at a time, in order
+  let queue = Promise.resolve();
+
+  return entry => {
+    if(!file) {
+      const opening = file = Deno.open(path, { append: true, create: true });
+      // try opening it again for the next entry
+      opening.catch(() => { if(file === opening) file = undefined; });
+    }
+
+    const opened = file;
+    const write = queue.then(async () => { await (await opened).write(encoder.encode(JSON.stringify(entry) + '\n')); });
+    // one failed write doesn't stop the ones after it
+    queue = write.catch(() => { });
+
+    return write;
+  };
+}
+
+/**
+ * Redact the values of the given query parameters in a url
+ * @param url The (full) url
+ * @param keys The query parameters to redact
+ * @returns {string} The path and (redacted) query
+ */
+function redactUrl(url: string, keys: readonly string[]): string {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  for(const key of keys)
+    if(parsed.searchParams.has(key))
+      parsed.searchParams.set(key, 'redacted');
+
+  return parsed.pathname + parsed.search;
+}
+
+/**
+ * A middleware which writes an entry to the access log for every request, after it is handled.
+ * Mount it first, so that it sees every request (and so the `route` it sees is the one that
+ * was handled). Requests which the router does not handle are logged as a 404.
+ *
+ * The `redact` query parameters (`sid`, `code` and `token` by default) are always redacted, along with the
+ * `Authorization` and `Cookie` headers if headers are logged.
+ *
+ * @param options (optional) The sink(s) to write to (the console by default), the query parameters to redact,
+ * whether or not to log the request headers, and whether or not to trust `X-Forwarded-For` for the IP
+ * @returns {SlimRouteHandler} Access Log Middleware
+ */
+export function accessLog<R extends SlimRequestStub & {
+  readonly headers?: Headers;
+  readonly remoteAddr?: { hostname?: string };
+  route?: string;
+  user?: { id?: string };
+  session?: { context: string };
+}>(options: {
+  sink?: AccessLogSink | readonly AccessLogSink[];
+  redact?: readonly string[];
+  headers?: boolean;
+  trustProxy?: boolean;
+} = { }): SlimRouteHandler<R> {
+  const sinks = options.sink ? ([] as AccessLogSink[]).concat(options.sink) : [consoleSink()];
+  const redact = options.redact ?? ['sid', 'code', 'token'];
+
+  const write = (req: R, start: number, status: number) => {
+    const entry: AccessLogEntry = {
+      time: new Date(start).toISOString(),
+      method: req.method,
+      url: redactUrl(req.url, redact),
+      route: req.route,
+      status,
+      duration: Date.now() - start,
+      user: req.user?.id,
+      context: req.session?.context,
+      ip: getRequestIp(req, options.trustProxy)
+    };
+
+    if(options.headers && req.headers) {
+      entry.headers = { };
+
+      for(const [key, value] of req.headers)
+        entry.headers[key] = sensitiveHeaders.includes(key.toLowerCase()) ? 'redacted' : value;
+    }
+
+    // don't hold up the response
+    for(const sink of sinks)
+      Promise.resolve().then(() => sink(entry)).catch(e => console.error('Error writing to the access log:', e));
+  };
+
+  return async (req, next) => {
+    const start = Date.now();
+
+    try {
+      const res = await next();
+      write(req, start, isUnhandled(res) ? 404 : res.status);
+
+      return res;
+
+    } catch(err) {
+      // errors can carry their own status (e.x. a TinyError) for the error handler further up
+      const status = (err as { status?: unknown })?.status;
+      write(req, start, typeof status === 'number' ? status : 500);
+
+      throw err;
+    }
+  };
+}
+
+Deno.test(async function TestAccessLog() {
+  const entries: AccessLogEntry[] = [];
+  const middleware = accessLog<Request & { route?: string }>({ sink: entry => { entries.push(entry); }, headers: true, trustProxy: true });
+
+  const req = Object.assign(new Request('http://localhost/items?sid=secret&page=2', {
+    headers: { 'Authorization': 'Bearer secret', 'Cookie': 'a=b', 'X-Forwarded-For': '10.0.0.1, 10.0.0.2' }
+  }), { route: '/items' });
+
+  await middleware(req, () => new Response('ok'));
+  await assertRejects(() => Promise.resolve(middleware(req, () => { throw Object.assign(new Error('No!'), { status: 403 }); })));
+
+  // the sinks are written to after the response
+  await new Promise(res => setTimeout(res, 0));
+
+  assertEquals(entries.map(({ time: _, duration: __, ...entry }) => entry), [200, 403].map(status => ({
+    method: 'GET',
+    url: '/items?sid=redacted&page=2',
+    route: '/items',
+    status,
+    user: undefined,
+    context: undefined,
+    ip: '10.0.0.1',
+    headers: { 'authorization': 'redacted', 'cookie': 'redacted', 'x-forwarded-for': '10.0.0.1, 10.0.0.2' }
+  })));
+});
+
+Deno.test({
+  name: 'Access Log File Sink Test',
+  // the sink keeps its file open
+  sanitizeResources: false,
+  async fn(): Promise<void> {
+    const dir = await Deno.makeTempDir();
+    const path = joinPath(dir, 'logs', 'access.log');
+    const sink = fileSink(path);
+
+    const entry = (url: string): AccessLogEntry => ({ time: new Date(0).toISOString(), method: 'GET', url, status: 200, duration: 1 });
+
+    // the folder doesn't exist yet
+    await assertRejects(async () => await sink(entry('/first')));
+
+    await Deno.mkdir(joinPath(dir, 'logs'));
+    await sink(entry('/second'));
+    await sink(entry('/third'));
+
+    assertEquals((await Deno.readTextFile(path)).split('\n'), [JSON.stringify(entry('/second')), JSON.stringify(entry('/third')), '']);
+
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -46,6 +46,12 @@ export abstract class DynTable<T = any> {
   public abstract batch(input: BatchOptions<T>): Promise<BatchOptions<T>>;
   public abstract add(input: Partial<T>): Promise<T>;
   public abstract put(id: string, input: Partial<T>): Promise<T>;
+  /**
+   * Update a row only if it (still) matches `where` (by equality, where `null` matches null), atomically;
+   * e.x. to compare-and-set a value
+   * @returns {Promise<number>} How many rows were updated (0 or 1)
+   */
+  public abstract putWhere(id: string, where: Partial<T>, input: Partial<T>): Promise<number>;
   public abstract del(id: string): Promise<void>;
 
   // utility
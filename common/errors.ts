@@ -5,6 +5,7 @@ export enum ErrorTypes {
   FORBIDDEN = 'Forbidden',
   NOT_FOUND = 'NotFound',
   NOT_SUPPORTED = 'NotSupported',
+  TOO_MANY_REQUESTS = 'TooManyRequests',
 }
 
 export const enum ErrorCodes {
@@ -14,6 +15,7 @@ export const enum ErrorCodes {
   FORBIDDEN = 403,
   NOT_FOUND = 404,
   NOT_SUPPORTED = 405,
+  TOO_MANY_REQUESTS = 429,
   INTERNAL = 500
 }
 
@@ -21,6 +23,30 @@ export class TinyError extends Error {
   type = ErrorTypes.UNKNOWN;
   status = ErrorCodes.UNKNOWN;
   text = 'Unknown'
+
+  readonly #code?: string;
+  /** Any extra (json-friendly) information about the error, e.x. which fields failed validation */
+  readonly details?: unknown;
+  /** Any headers to add onto the error response, e.x. `Retry-After` */
+  readonly headers?: Record<string, string>;
+
+  /**
+   * @param message The (human-readable) message
+   * @param options (optional) A stable, machine-readable code (e.x. `username_taken`), any extra details,
+   * and any headers to respond with
+   */
+  constructor(message?: string, options?: { code?: string; details?: unknown; headers?: Record<string, string> }) {
+    super(message);
+
+    this.#code = options?.code;
+    this.details = options?.details;
+    this.headers = options?.headers;
+  }
+
+  /** A stable, machine-readable code, defaulting to the snake-cased type (e.x. `not_found`) */
+  get code(): string {
+    return this.#code ?? this.type.replace(/(?<=[a-z])([A-Z])/g, '_$1').toLowerCase();
+  }
 }
 
 export class MalformedError extends TinyError {
@@ -52,3 +78,9 @@ export class NotSupportedError extends TinyError {
   status = ErrorCodes.NOT_SUPPORTED;
   text = 'Not Supported';
 }
+
+export class TooManyRequestsError extends TinyError {
+  type = ErrorTypes.TOO_MANY_REQUESTS;
+  status = ErrorCodes.TOO_MANY_REQUESTS;
+  text = 'Too Many Requests';
+}
@@ -7,6 +7,8 @@ export abstract class FileStore {
   abstract sendFile(req: TinyRequest, path: string): Response | Promise<Response>;
   abstract saveFile(body: BodyInit, path: string): Promise<number>;
   abstract deleteFile(path: string): Promise<void>;
+  /** Delete a folder and everything in it (if it exists) */
+  abstract deleteFolder(path: string): Promise<void>;
 
   abstract getStorageStats(user: string): Promise<{ used: number; available?: number; max?: number }>;
 }
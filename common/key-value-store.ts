@@ -10,6 +10,11 @@ export abstract class KeyValueStore<T = any> {
   public abstract get<U = T>(key: string): Promise<U | null>;
   /** Insert or update a key with a value */
   public abstract put<U = T>(key: string, value: U): Promise<void>;
+  /** Insert, update or delete (if `null`) a key, only if its value is (still) `expected` (or it doesn't exist,
+   *  if `null`), atomically; e.x. to take a lock
+   *  @returns {Promise<boolean>} Whether or not it was changed
+   */
+  public abstract putIf<U = T>(key: string, expected: U | null, value: U | null): Promise<boolean>;
   /** Delete a key */
   public abstract del(key: string): Promise<void>;
   /** Delete everything with a key with the given prefix
@@ -0,0 +1,323 @@
+import { assertEquals } from '../deps/std.ts';
+
+import { isUnhandled } from '../api/router.ts';
+import type { SlimRequestStub, SlimRouteHandler } from '../api/types.ts';
+import { text } from '../api/util.ts';
+
+/** The labels of a sample, e.x. `{ method: 'GET', status: '200' }` */
+export type Labels = Readonly<Record<string, string>>;
+
+/** A (labelled) value of a gauge */
+export interface Sample {
+  labels?: Labels;
+  value: number;
+}
+
+/** How a gauge gets its value(s) when the metrics are scraped */
+export type GaugeCollector = () => number | readonly Sample[] | Promise<number | readonly Sample[]>;
+
+/** The default histogram buckets (in seconds), suited to request latencies */
+export const defaultBuckets = Object.freeze([0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]);
+
+/**
+ * Escape a label value (or help text, which doesn't escape quotes) for the text format
+ * @param value The value
+ * @param quotes Whether or not to escape quotes
+ * @returns {string} The escaped value
+ */
+function escape(value: string, quotes = true): string {
+  value = value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+  return quotes ? value.replace(/"/g, '\\"') : value;
+}
+
+/**
+ * Format labels for the text format, e.x. `{method="GET",status="200"}`
+ * @param labels The labels
+ * @returns {string} The formatted labels, or an empty string if there are none
+ */
+function formatLabels(labels: Labels = { }): string {
+  const entries = Object.entries(labels);
+
+  return entries.length
+    ? '{' + entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',') + '}'
+    : '';
+}
+
+/**
+ * Format a number for the text format
+ * @param value The number
+ * @returns {string} The formatted number
+ */
+function formatValue(value: number): string {
+  return Number.isNaN(value) ? 'NaN' : value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+}
+
+/**
+ * A counter, which only ever goes up (e.x. requests handled)
+ */
+export class Counter {
+
+  readonly #values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(public readonly name: string, public readonly help: string) { }
+
+  /**
+   * Increment the counter
+   * @param labels (optional) The labels of the sample to increment
+   * @param by (optional) How much to increment by
+   */
+  inc(labels: Labels = { }, by = 1): void {
+    const key = formatLabels(labels);
+    const sample = this.#values.get(key);
+
+    if(sample)
+      sample.value += by;
+    else
+      this.#values.set(key, { labels, value: by });
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${escape(this.help, false)}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.#values.values(), s => this.name + formatLabels(s.labels) + ' ' + formatValue(s.value))
+    ];
+  }
+}
+
+/**
+ * A histogram, which counts observations (e.x. request durations) into cumulative buckets
+ */
+export class Histogram {
+
+  readonly #values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(public readonly name: string, public readonly help: string,
+    public readonly buckets: readonly number[] = defaultBuckets) { }
+
+  /**
+   * Observe a value
+   * @param labels The labels of the sample to observe
+   * @param value The value
+   */
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let sample = this.#values.get(key);
+
+    if(!sample) {
+      sample = { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.#values.set(key, sample);
+    }
+
+    for(let i = 0; i < this.buckets.length; i++)
+      if(value <= this.buckets[i])
+        sample.buckets[i]++;
+
+    sample.sum += value;
+    sample.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${escape(this.help, false)}`, `# TYPE ${this.name} histogram`];
+
+    for(const sample of this.#values.values()) {
+      for(let i = 0; i < this.buckets.length; i++)
+        lines.push(`${this.name}_bucket${formatLabels({ ...sample.labels, le: formatValue(this.buckets[i]) })} ${sample.buckets[i]}`);
+
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...sample.labels, le: '+Inf' })} ${sample.count}`,
+        `${this.name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum)}`,
+        `${this.name}_count${formatLabels(sample.labels)} ${sample.count}`
+      );
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * A gauge, which is collected whenever the metrics are scraped (e.x. the number of sessions)
+ */
+export class Gauge {
+
+  constructor(public readonly name: string, public readonly help: string,
+    protected readonly collect: GaugeCollector) { }
+
+  async render(): Promise<string[]> {
+    const lines = [`# HELP ${this.name} ${escape(this.help, false)}`, `# TYPE ${this.name} gauge`];
+
+    try {
+      const value = await this.collect();
+      const samples: readonly Sample[] = typeof value === 'number' ? [{ value }] : value;
+
+      for(const sample of samples)
+        lines.push(this.name + formatLabels(sample.labels) + ' ' + formatValue(sample.value));
+
+    } catch(e) {
+      console.error(`[Metrics]: Error collecting gauge "${this.name}"!`, e);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * A registry of metrics, which can be rendered in the Prometheus text format
+ */
+export class Metrics {
+
+  readonly #metrics = new Map<string, Counter | Histogram | Gauge>();
+
+  /**
+   * @param prefix (optional) The prefix for every metric name, e.x. `tiny_`
+   */
+  constructor(public readonly prefix = 'tiny_') { }
+
+  #register<M extends Counter | Histogram | Gauge>(metric: M): M {
+    if(this.#metrics.has(metric.name))
+      throw new Error(`A metric named "${metric.name}" already exists!`);
+
+    this.#metrics.set(metric.name, metric);
+
+    return metric;
+  }
+
+  /**
+   * Register a counter
+   * @param name The name (without the prefix)
+   * @param help The description
+   * @returns {Counter} The counter
+   */
+  counter(name: string, help: string): Counter {
+    return this.#register(new Counter(this.prefix + name, help));
+  }
+
+  /**
+   * Register a histogram
+   * @param name The name (without the prefix)
+   * @param help The description
+   * @param buckets (optional) The upper bounds of the buckets
+   * @returns {Histogram} The histogram
+   */
+  histogram(name: string, help: string, buckets?: readonly number[]): Histogram {
+    return this.#register(new Histogram(this.prefix + name, help, buckets));
+  }
+
+  /**
+   * Register a gauge
+   * @param name The name (without the prefix)
+   * @param help The description
+   * @param collect How to get the value(s) of the gauge when scraped
+   * @returns {Gauge} The gauge
+   */
+  gauge(name: string, help: string, collect: GaugeCollector): Gauge {
+    return this.#register(new Gauge(this.prefix + name, help, collect));
+  }
+
+  /**
+   * Render every metric in the Prometheus text format (collecting the gauges)
+   * @returns {Promise<string>} The metrics
+   */
+  async render(): Promise<string> {
+    const lines: string[] = [];
+
+    for(const metric of this.#metrics.values())
+      lines.push(...await metric.render());
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * A middleware which records the count (by status) and latency of requests by route pattern, as
+ * `http_requests_total` and `http_request_duration_seconds`. Mount it first, like `accessLog`.
+ *
+ * Requests which reach no route are recorded under the route `unmatched`, so that arbitrary
+ * urls don't create new samples.
+ *
+ * @param metrics The registry to record to
+ * @returns {SlimRouteHandler} Metrics Middleware
+ */
+export function recordMetrics<R extends SlimRequestStub & { route?: string }>(metrics: Metrics): SlimRouteHandler<R> {
+  const requests = metrics.counter('http_requests_total', 'The number of requests handled, by route and status');
+  const durations = metrics.histogram('http_request_duration_seconds', 'How long requests took to handle, by route');
+
+  const record = (req: R, start: number, status: number) => {
+    const route = req.route ?? 'unmatched';
+
+    requests.inc({ method: req.method, route, status: String(status) });
+    durations.observe({ method: req.method, route }, (performance.now() - start) / 1000);
+  };
+
+  return async (req, next) => {
+    const start = performance.now();
+
+    try {
+      const res = await next();
+      record(req, start, isUnhandled(res) ? 404 : res.status);
+
+      return res;
+
+    } catch(err) {
+      const status = (err as { status?: unknown })?.status;
+      record(req, start, typeof status === 'number' ? status : 500);
+
+      throw err;
+    }
+  };
+}
+
+/**
+ * A route handler which responds with the metrics (in the Prometheus text format); put it
+ * behind an admin check, e.x. `router.get('/metrics', validateUserSession(db), requireAdmin(admins), serveMetrics(metrics))`.
+ *
+ * @param metrics The registry to render
+ * @returns {SlimRouteHandler} The route handler
+ */
+export function serveMetrics<R extends SlimRequestStub>(metrics: Metrics): SlimRouteHandler<R> {
+  return async () => text(await metrics.render(), {
+    headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }
+  });
+}
+
+export default Metrics;
+
+Deno.test(async function TestMetrics() {
+  const metrics = new Metrics('test_');
+
+  const counter = metrics.counter('requests_total', 'The number of requests');
+  counter.inc({ method: 'GET', path: 'say "hi"\n' });
+  counter.inc({ method: 'GET', path: 'say "hi"\n' }, 2);
+  counter.inc();
+
+  const histogram = metrics.histogram('duration_seconds', 'How long requests took', [0.1, 1]);
+  histogram.observe({ route: '/' }, 0.05);
+  histogram.observe({ route: '/' }, 0.5);
+  histogram.observe({ route: '/' }, 5);
+
+  metrics.gauge('users', 'The number of users', () => [{ labels: { admin: 'true' }, value: 1 }, { labels: { admin: 'false' }, value: 2 }]);
+  metrics.gauge('broken', 'A gauge which fails', () => { throw new Error('Failed!'); });
+
+  assertEquals(await metrics.render(), [
+    '# HELP test_requests_total The number of requests',
+    '# TYPE test_requests_total counter',
+    'test_requests_total{method="GET",path="say \\"hi\\"\\n"} 3',
+    'test_requests_total 1',
+    '# HELP test_duration_seconds How long requests took',
+    '# TYPE test_duration_seconds histogram',
+    'test_duration_seconds_bucket{route="/",le="0.1"} 1',
+    'test_duration_seconds_bucket{route="/",le="1"} 2',
+    'test_duration_seconds_bucket{route="/",le="+Inf"} 3',
+    'test_duration_seconds_sum{route="/"} 5.55',
+    'test_duration_seconds_count{route="/"} 3',
+    '# HELP test_users The number of users',
+    '# TYPE test_users gauge',
+    'test_users{admin="true"} 1',
+    'test_users{admin="false"} 2',
+    // failed gauges have no samples
+    '# HELP test_broken A gauge which fails',
+    '# TYPE test_broken gauge',
+    ''
+  ].join('\n'));
+});
@@ -1,6 +1,11 @@
-import { SlimRequestStub, SlimRouteHandler, RouteHandler } from '../api/types.ts';
+import { assertEquals, assertRejects } from '../deps/std.ts';
 
-import { TinyError, MalformedError, ErrorTypes } from '../common/errors.ts';
+import { SlimRequestStub, SlimRouteHandler, RouteHandler, Schema } from '../api/types.ts';
+import { annotate } from '../api/router.ts';
+import { parseStrings, validateSchema } from '../api/validate.ts';
+import { negotiate, noContent, parseQuery, problem } from '../api/util.ts';
+
+import { TinyError, MalformedError, ForbiddenError, ErrorTypes } from '../common/errors.ts';
 import { TinyRequest, TinyContextualRequest, User } from '../common/types.ts';
 
 const trueArray = Object.freeze(['true', '1', 'yes']);
@@ -10,50 +15,105 @@ export function parseTrue(query: unknown): boolean {
 }
 
 /**
- * A middleware to handle errors
+ * Whether or not the request would rather have an `application/problem+json` error than a text one
+ * @param req The request
+ * @returns {boolean} Whether or not it prefers problem+json
+ */
+function prefersProblem(req: SlimRequestStub & { readonly headers?: Headers }): boolean {
+  return negotiate(req.headers?.get('Accept'), ['text/plain', 'application/problem+json', 'application/json'])?.endsWith('json') === true;
+}
+
+/**
+ * A middleware to handle errors.
+ *
+ * Errors are returned as text, unless the request `Accept`s `application/problem+json` (or `application/json`)
+ * more than `text/plain`, in which case an RFC 7807 problem is returned with the error's `code` and `details`.
+ *
  * @param action The action we are handling an error for
  * @returns {async (req, next) => Promise<Response>} Error handling Middleware
  */
 export function handleError<R extends SlimRequestStub>(action: string): SlimRouteHandler<R> {
-  return async function(_req, next) {
+  return async function(req, next) {
     try {
       return await next();
 
     } catch(err) {
+      const asProblem = prefersProblem(req);
+      let instance: string | undefined;
+
+      try {
+        instance = new URL(req.url).pathname;
+      } catch {
+        // do nothing
+      }
+
       if(err instanceof TinyError) {
+        const status = err.status || 500;
+
+        if(asProblem) {
+          return problem({
+            type: 'urn:tiny:error:' + err.code,
+            title: err.text || `Indescribable "${err.type}" Error`,
+            status,
+            detail: err.message || undefined,
+            instance,
+            code: err.code,
+            details: err.details
+          }, { headers: err.headers });
+        }
+
         switch(err.type) {
           case ErrorTypes.NOT_FOUND:
-            return new Response(err.message || undefined, { status: 404 });
+            return new Response(err.message || undefined, { status: 404, headers: err.headers });
 
           case ErrorTypes.MALFORMED:
           case ErrorTypes.AUTH:
           case ErrorTypes.FORBIDDEN:
           default:
-            return new Response(err.message || err.text || `Indescribable "${err.type}" Error`, { status: err.status || 500 });
+            return new Response(err.message || err.text || `Indescribable "${err.type}" Error`, { status, headers: err.headers });
         }
 
       } else {
         console.error(`Error performing ${action}:`, err);
 
+        if(asProblem) {
+          return problem({
+            type: 'urn:tiny:error:internal',
+            title: 'Internal Server Error',
+            status: 500,
+            detail: `Failed to perform ${action}.`,
+            instance,
+            code: 'internal'
+          });
+        }
+
         return new Response(`Failed to perform ${action}.`, { status: 500 });
       }
     }
   }
 }
 
-export function makeContextIdentifierValidator<R extends TinyRequest>(getContext: (via: 'username' | 'hash', identifier: string) => Promise<{ user: User, app?: string } | null>): RouteHandler<R & TinyContextualRequest> {
+/**
+ * Make a middleware which resolves the `:context` and `:identifier` params (either of which can be `~`
+ * for the session's) into `req.context`, along with the user whose data it is.
+ *
+ * @param getContext Get the user via a username, or via a secure app's hash (which, as it is the same for
+ * every user, needs the request's session to tell whose data it is)
+ * @returns {RouteHandler} Context Identifier Middleware
+ */
+export function makeContextIdentifierValidator<R extends TinyRequest>(getContext: (via: 'username' | 'hash', identifier: string, req: R) => Promise<{ user: User, app?: string } | null>): RouteHandler<R & TinyContextualRequest> {
   return async (req: R, next: () => Response | Promise<Response>) => {
 
     if(!req.params.context || !req.params.identifier)
-      throw new MalformedError('This is a Context-Identifier route and a context or identifier is missing or invalid!');
+      throw new MalformedError('This is a Context-Identifier route and a context or identifier is missing or invalid!', { code: 'invalid_context' });
 
     if((req.params.context === '~' || req.params.identifier === '~') && !req.session)
-      throw new MalformedError('Cannot have a `~` context/identifier if no session was passed!');
+      throw new MalformedError('Cannot have a `~` context/identifier if no session was passed!', { code: 'invalid_context' });
 
     req.context.context = req.params.context === '~' ? req.session!.context : req.params.context;
     req.context.identifier = req.params.identifier === '~' ? req.session!.identifier : req.params.identifier;
 
-    const ctx = await getContext(req.context.context === 'secure' ? 'hash' : 'username', req.context.identifier as string);
+    const ctx = await getContext(req.context.context === 'secure' ? 'hash' : 'username', req.context.identifier as string, req);
 
     req.context.user = ctx?.user;
 
@@ -63,3 +123,134 @@ export function makeContextIdentifierValidator<R extends TinyRequest>(getContext
     return next();
   };
 }
+
+/**
+ * A middleware to validate the body, query, and/or params of a request against schemas, throwing
+ * a `MalformedError` listing every issue found. The parsed body (JSON, or a url-encoded form) is then
+ * available via `req.context.body`; as queries and forms are only strings, their numbers and booleans are
+ * parsed as the schemas give them (into `req.query` and `req.context.body`).
+ *
+ * The schemas also describe the route (see `describe`).
+ *
+ * @example
+ * ```typescript
+ * router.post('/login', validate<{ username: string; password: string }>({ body: loginSchema }), req => {
+ *   return text(req.context.body.username);
+ * });
+ * ```
+ * @param schemas The schemas to validate against
+ * @returns {RouteHandler} Validation Middleware
+ */
+export function validate<Body = unknown, R extends TinyRequest = TinyRequest>(schemas: {
+  body?: Schema;
+  query?: Schema;
+  params?: Schema;
+}): RouteHandler<R & { context: { body: Body } }> {
+  return annotate(async (req: R & { context: { body: Body } }, next: () => Response | Promise<Response>) => {
+    const issues: string[] = [];
+
+    if(schemas.params)
+      issues.push(...validateSchema(schemas.params, req.params, 'params', true));
+
+    if(schemas.query) {
+      req.query = parseStrings(schemas.query, req.query) as R['query'];
+      issues.push(...validateSchema(schemas.query, req.query, 'query'));
+    }
+
+    if(schemas.body) {
+      let body: unknown;
+      // i.e. OAuth clients, which post forms
+      const form = /^application\/x-www-form-urlencoded\b/i.test(req.headers.get('Content-Type') ?? '');
+
+      try {
+        body = form
+          ? Object.fromEntries(new URLSearchParams(await req.text()))
+          : await req.json();
+      } catch {
+        // do nothing
+      }
+
+      if(form)
+        body = parseStrings(schemas.body, body);
+
+      if(body === undefined)
+        issues.push('body must be valid JSON');
+      else
+        issues.push(...validateSchema(schemas.body, body, 'body'));
+
+      req.context.body = body as Body;
+    }
+
+    if(issues.length)
+      throw new MalformedError(`Malformed request: ${issues.join('; ')}.`, { code: 'validation_failed', details: issues });
+
+    return next();
+  }, {
+    ...(schemas.params ? { params: schemas.params } : { }),
+    ...(schemas.query ? { query: schemas.query } : { }),
+    ...(schemas.body ? { body: { schema: schemas.body } } : { })
+  });
+}
+
+Deno.test(async function TestValidate() {
+  const middleware = validate<{ uses: number; admin: boolean }>({
+    query: { type: 'object', properties: { limit: { type: 'integer', minimum: 1 }, soft: { type: 'boolean' } } },
+    body: {
+      type: 'object',
+      properties: { uses: { type: 'integer' }, admin: { type: 'boolean' } },
+      required: ['uses'],
+      additionalProperties: false
+    }
+  });
+
+  const makeRequest = (url: string, body: string) => Object.assign(new Request(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body
+  }), { params: { }, query: parseQuery(url), context: { } }) as unknown as TinyRequest & { context: { body: { uses: number; admin: boolean } } };
+
+  // queries and forms are parsed
+  const req = makeRequest('http://localhost/?limit=5&soft=true', 'uses=2&admin=false');
+  await middleware(req, () => noContent());
+  assertEquals(req.query, { limit: 5, soft: true } as unknown as typeof req.query);
+  assertEquals(req.context.body, { uses: 2, admin: false });
+
+  // and every issue is listed
+  const err = await assertRejects(async () => await middleware(makeRequest('http://localhost/?limit=0&soft=yes', 'uses=two&other=1'), () => noContent()),
+    MalformedError);
+  assertEquals(err.code, 'validation_failed');
+  assertEquals(err.details, [
+    'query.limit must be at least 1',
+    'query.soft must be a boolean',
+    'body.uses must be an integer',
+    'body.other is not allowed'
+  ]);
+});
+
+Deno.test(async function TestHandleError() {
+  const middleware = handleError<TinyRequest>('test');
+  const makeRequest = (accept?: string) => new Request('http://localhost/items/1', accept ? { headers: { Accept: accept } } : { }) as unknown as TinyRequest;
+  const forbidden = () => { throw new ForbiddenError('Not yours!', { code: 'not_owner' }); };
+
+  // text by default
+  let res = await middleware(makeRequest(), forbidden);
+  assertEquals(res.status, 403);
+  assertEquals(await res.text(), 'Not yours!');
+
+  res = await middleware(makeRequest('text/plain;q=0.5, application/problem+json'), forbidden);
+  assertEquals(res.status, 403);
+  assertEquals(res.headers.get('Content-Type'), 'application/problem+json');
+  assertEquals(await res.json(), {
+    type: 'urn:tiny:error:not_owner',
+    title: 'Forbidden',
+    status: 403,
+    detail: 'Not yours!',
+    instance: '/items/1',
+    code: 'not_owner'
+  });
+
+  // unexpected errors don't leak their messages
+  res = await middleware(makeRequest('application/json'), () => { throw new Error('Secret!'); });
+  assertEquals(res.status, 500);
+  assertEquals((await res.json()).detail, 'Failed to perform test.');
+});
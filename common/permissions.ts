@@ -0,0 +1,169 @@
+import { assert } from '../deps/std.ts';
+
+import type { SlimRequestStub, SlimRouteHandler } from '../api/types.ts';
+import { annotate } from '../api/router.ts';
+
+import { ForbiddenError } from './errors.ts';
+import type { Session } from './types.ts';
+
+/**
+ * A permission a session can be given (e.x. through a handshake)
+ */
+export interface PermissionDefinition {
+  /** The name of the permission, namespaced with `:`, e.x. `files:write` */
+  readonly name: string;
+  /** A human-readable description of what it allows, e.x. for a consent screen */
+  readonly description: string;
+  /** Any other permissions it grants, e.x. `files:write` implies `files:read` */
+  readonly implies?: readonly string[];
+}
+
+/**
+ * A description of a (requested) permission, e.x. for a consent screen
+ */
+export interface PermissionInfo {
+  name: string;
+  description: string;
+  /** Whether or not the permission is defined; unknown permissions do nothing */
+  known: boolean;
+}
+
+const permissions = new Map<string, PermissionDefinition>();
+
+/**
+ * Define a permission, so that it can be described to users and implied by other
+ * permissions; extensions should define their own (e.x. `friends:send`).
+ *
+ * @param definition The permission
+ */
+export function definePermission(definition: PermissionDefinition): void {
+  if(!/^[a-z0-9-]+(:[a-z0-9-]+)*$/.test(definition.name))
+    throw new Error(`Invalid permission name "${definition.name}"!`);
+
+  permissions.set(definition.name, Object.freeze({ ...definition }));
+}
+
+/**
+ * Get a defined permission
+ * @param name The name of the permission
+ * @returns {PermissionDefinition | undefined} The permission, if it is defined
+ */
+export function getPermission(name: string): PermissionDefinition | undefined {
+  return permissions.get(name);
+}
+
+// core permissions
+
+definePermission({ name: 'files:read', description: 'Read the files in its folders and in shared collections.' });
+definePermission({ name: 'files:write', description: 'Write and delete the files in its folders.', implies: ['files:read'] });
+definePermission({ name: 'db:kv:read', description: 'Read its key-value database.' });
+definePermission({ name: 'db:kv:write', description: 'Write to its key-value database.', implies: ['db:kv:read'] });
+definePermission({ name: 'db:dynamic:read', description: 'Read its tables.' });
+definePermission({ name: 'db:dynamic:write', description: 'Add, change, and remove the rows of its tables.', implies: ['db:dynamic:read'] });
+definePermission({ name: 'db:dynamic:schema', description: 'Create, change, and drop its tables.', implies: ['db:dynamic:write'] });
+definePermission({ name: 'webfinger:write', description: 'Change your WebFinger profile.' });
+
+/**
+ * Whether or not the given permissions grant a permission, either directly, through a wildcard
+ * (e.x. `db:*` grants `db:kv:write`), or through what they imply
+ *
+ * @param granted The permissions which were granted
+ * @param permission The permission to check
+ * @returns {boolean} Whether or not it is granted
+ */
+export function grantsPermission(granted: readonly string[], permission: string): boolean {
+  const seen = new Set<string>();
+  const queue = [...granted];
+
+  while(queue.length) {
+    const perm = queue.shift()!;
+    if(seen.has(perm))
+      continue;
+
+    seen.add(perm);
+
+    if(perm === permission || perm === '*' || (perm.endsWith(':*') && permission.startsWith(perm.slice(0, -1))))
+      return true;
+
+    queue.push(...permissions.get(perm)?.implies ?? []);
+  }
+
+  return false;
+}
+
+/**
+ * Whether or not a session has a permission; user sessions have every permission
+ * @param session The session
+ * @param permission The permission
+ * @returns {boolean} Whether or not it has it
+ */
+export function hasPermission(session: Pick<Session, 'context' | 'permissions'>, permission: string): boolean {
+  return session.context === 'user' || grantsPermission(session.permissions, permission);
+}
+
+/**
+ * Describe the given permissions, e.x. for a handshake's consent screen
+ * @param names The names of the permissions
+ * @returns {PermissionInfo[]} The descriptions, in the same order
+ */
+export function describePermissions(names: readonly string[]): PermissionInfo[] {
+  return names.map(name => {
+    const definition = permissions.get(name);
+
+    return {
+      name,
+      description: definition?.description ?? (name.endsWith('*') ? `Everything under "${name.slice(0, -1)}".` : 'Unknown permission.'),
+      known: Boolean(definition) || name.endsWith('*')
+    };
+  });
+}
+
+/**
+ * Make sure a session has all of the given permissions, for when a middleware won't do (e.x.
+ * when it depends on the body)
+ *
+ * @param session The session
+ * @param required The permissions needed
+ * @throws {ForbiddenError} `missing_permission` if any are missing (listed in its `details`)
+ */
+export function checkPermission(session: Pick<Session, 'context' | 'permissions'>, ...required: string[]): void {
+  const missing = required.filter(perm => !hasPermission(session, perm));
+
+  if(missing.length)
+    throw new ForbiddenError(`Missing permission${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}.`, {
+      code: 'missing_permission',
+      details: { missing }
+    });
+}
+
+/**
+ * A middleware which makes sure the session (if any) has all of the given permissions (see `checkPermission`).
+ * Requests without a session are let through, as routes decide for themselves what anonymous requests can do.
+ *
+ * The permissions also describe the route (see `annotate`).
+ *
+ * @example
+ * ```typescript
+ * router.put('/profile', requirePermission('webfinger:write'), req => ...);
+ * ```
+ * @param required The permissions needed
+ * @returns {SlimRouteHandler} Permission Check Middleware
+ */
+export function requirePermission<R extends SlimRequestStub & { session?: Session }>(...required: string[]): SlimRouteHandler<R> {
+  return annotate((req: R, next: () => Response | Promise<Response>) => {
+    if(req.session)
+      checkPermission(req.session, ...required);
+
+    return next();
+  }, { permissions: required });
+}
+
+Deno.test(function TestGrantsPermission() {
+  assert(grantsPermission(['files:write'], 'files:read'));
+  assert(grantsPermission(['db:dynamic:schema'], 'db:dynamic:read'));
+  assert(grantsPermission(['db:*'], 'db:kv:write'));
+  assert(!grantsPermission(['files:read'], 'files:write'));
+  assert(!grantsPermission(['db:kv:*'], 'db:dynamic:read'));
+  assert(!hasPermission({ context: 'app.co', permissions: [] }, 'files:read'));
+  assert(hasPermission({ context: 'user', permissions: [] }, 'files:read'));
+});
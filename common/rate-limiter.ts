@@ -0,0 +1,170 @@
+import type { SlimRequestStub, SlimRouteHandler } from '../api/types.ts';
+
+import { TooManyRequestsError } from './errors.ts';
+import type KeyValueStore from './key-value-store.ts';
+
+/**
+ * The stored state of a bucket
+ */
+interface Bucket {
+  /** The tokens left in the bucket */
+  tokens: number;
+  /** When the tokens were last counted */
+  updated: number;
+}
+
+/**
+ * The result of consuming tokens from a bucket
+ */
+export interface RateLimitResult {
+  /** Whether or not the tokens were consumed */
+  allowed: boolean;
+  /** The (whole) tokens left in the bucket */
+  remaining: number;
+  /** How long (in seconds) until there are enough tokens, if not allowed */
+  retryAfter: number;
+}
+
+/**
+ * A token-bucket rate limiter, with its buckets stored in a KeyValueStore so that state
+ * can be shared between routes (and nodes sharing the same store).
+ *
+ * Buckets hold up to `limit` tokens, and are refilled continuously so that they fill completely
+ * over `window` milliseconds.
+ */
+export class RateLimiter {
+
+  readonly #limit: number;
+  readonly #window: number;
+
+  /**
+   * @param store The store to keep the buckets in (scope it, e.x. via `ScopedKeyValueStore`)
+   * @param config The size of each bucket, and how long (in ms) it takes to refill
+   */
+  constructor(protected readonly store: KeyValueStore, config: { limit: number; window: number }) {
+    this.#limit = config.limit;
+    this.#window = config.window;
+  }
+
+  get limit(): number { return this.#limit; }
+  get window(): number { return this.#window; }
+
+  /**
+   * Try to consume tokens from a bucket.
+   *
+   * **Note:** this is a read-then-write, so concurrent requests can slip a token or two through.
+   *
+   * @param key The bucket (e.x. `login:127.0.0.1`)
+   * @param cost (optional) How many tokens to consume
+   * @returns {Promise<RateLimitResult>} Whether or not it was allowed
+   */
+  async consume(key: string, cost = 1): Promise<RateLimitResult> {
+    const now = Date.now();
+    const rate = this.#limit / this.#window; // tokens per ms
+
+    const bucket = await this.store.get<Bucket>(key) ?? { tokens: this.#limit, updated: now };
+    const tokens = Math.min(this.#limit, bucket.tokens + (now - bucket.updated) * rate);
+
+    if(tokens < cost) {
+      await this.store.put<Bucket>(key, { tokens, updated: now });
+
+      return { allowed: false, remaining: Math.floor(tokens), retryAfter: Math.ceil((cost - tokens) / rate / 1000) };
+    }
+
+    await this.store.put<Bucket>(key, { tokens: tokens - cost, updated: now });
+
+    return { allowed: true, remaining: Math.floor(tokens - cost), retryAfter: 0 };
+  }
+
+  /**
+   * Reset (refill) a bucket
+   * @param key The bucket
+   */
+  async reset(key: string): Promise<void> {
+    await this.store.del(key);
+  }
+}
+
+/**
+ * Get the IP address of a request; either from `remoteAddr` (set this from your server's
+ * connection info), or if behind a trusted proxy, the `X-Forwarded-For` header.
+ *
+ * @param req The request
+ * @param trustProxy Whether or not to trust the `X-Forwarded-For` header
+ * @returns {string | undefined} The IP address, if found
+ */
+export function getRequestIp(req: SlimRequestStub & {
+  readonly headers?: Headers;
+  readonly remoteAddr?: { hostname?: string };
+}, trustProxy = false): string | undefined {
+  if(trustProxy) {
+    const forwarded = req.headers?.get('X-Forwarded-For')?.split(',')[0]?.trim();
+    if(forwarded)
+      return forwarded;
+  }
+
+  return req.remoteAddr?.hostname;
+}
+
+/**
+ * A middleware to rate limit requests, throwing a `TooManyRequestsError` (429, with `Retry-After`)
+ * when a bucket is empty. Requests which have no key are not limited.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter(new ScopedKeyValueStore(kv, 'rate-limit'), { limit: 5, window: 900000 });
+ *
+ * router.post('/login', validate({ body: loginSchema }),
+ *   rateLimit(limiter, { name: 'login', key: req => req.context.body.username }),
+ *   req => ...);
+ * ```
+ * @param limiter The limiter to use
+ * @param options The name to prefix the bucket keys with, and how to key requests; by IP (the default),
+ * by session, or by a custom function (e.x. by username); with `resetOnSuccess`, the bucket is refilled
+ * when the request succeeds, so that only failed attempts (e.x. wrong passwords) count
+ * @returns {SlimRouteHandler} Rate Limiting Middleware
+ */
+export function rateLimit<R extends SlimRequestStub & {
+  readonly headers?: Headers;
+  readonly remoteAddr?: { hostname?: string };
+  session?: { id?: string };
+}>(limiter: RateLimiter, options: {
+  name: string;
+  key?: 'ip' | 'session' | ((req: R) => string | undefined | Promise<string | undefined>);
+  trustProxy?: boolean;
+  cost?: number;
+  resetOnSuccess?: boolean;
+}): SlimRouteHandler<R> {
+  const getKey = options.key === 'session'
+    ? (req: R) => req.session?.id
+    : typeof options.key === 'function'
+      ? options.key
+      : (req: R) => getRequestIp(req, options.trustProxy);
+
+  return async (req, next) => {
+    const key = await getKey(req);
+
+    if(!key)
+      return next();
+
+    const result = await limiter.consume(options.name + ':' + key, options.cost);
+
+    if(!result.allowed)
+      throw new TooManyRequestsError(`Too many requests; try again in ${result.retryAfter} seconds.`, {
+        code: 'rate_limited',
+        details: { retryAfter: result.retryAfter },
+        headers: { 'Retry-After': String(result.retryAfter) }
+      });
+
+    if(!options.resetOnSuccess)
+      return next();
+
+    const res = await next();
+    if(res.ok)
+      await limiter.reset(options.name + ':' + key);
+
+    return res;
+  };
+}
+
+export default RateLimiter;
@@ -0,0 +1,359 @@
+import { assertEquals } from '../deps/std.ts';
+
+import type KeyValueStore from './key-value-store.ts';
+
+/** When a job runs; either every so many ms, or a (5-field, UTC) cron expression, e.x. `0 3 * * *` */
+export type JobSchedule = number | string;
+
+/** A job's task */
+export type JobTask = () => void | Promise<void>;
+
+/**
+ * The stored state of a job, shared by every scheduler using the same store
+ */
+interface JobState {
+  /** When it last started */
+  last?: number;
+  /** How long (in ms) it last took */
+  duration?: number;
+  /** The error it last failed with, if any */
+  error?: string | null;
+  /** Who is running it, and until when they are assumed to be */
+  lock?: { owner: string; expires: number } | null;
+}
+
+/**
+ * The status of a job
+ */
+export interface JobStatus {
+  name: string;
+  schedule: JobSchedule;
+  /** When it last started */
+  last?: number;
+  /** When it will next run */
+  next: number;
+  /** How long (in ms) it last took */
+  duration?: number;
+  error?: string | null;
+  /** Whether or not it is being run (by any scheduler) */
+  running: boolean;
+}
+
+/**
+ * Something which has maintenance tasks to schedule (e.x. cleaning up expired rows), such as a db
+ */
+export interface Maintainable {
+  scheduleMaintenance(scheduler: Scheduler): void;
+}
+
+interface Job {
+  name: string;
+  schedule: JobSchedule;
+  cron?: CronSchedule;
+  task: JobTask;
+  lockTime: number;
+  /** When it was scheduled, which cron schedules (that have never run) count from */
+  created: number;
+}
+
+/**
+ * A parsed cron expression; the allowed values of each field
+ */
+export interface CronSchedule {
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  days: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  weekdays: ReadonlySet<number>;
+  /** Whether the days or weekdays fields were restricted, in which case either matching is enough */
+  anyDay: boolean;
+}
+
+const cronFields = Object.freeze([
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'weekday', min: 0, max: 7 }
+]);
+
+/**
+ * Parse a (5-field) cron expression; each field can be `*`, a number, a range (`1-5`), a step
+ * (`*\/15` or `0-30/10`), or a list of those (`1,15`). Sunday is both `0` and `7`.
+ *
+ * @param expr The cron expression, e.x. `*\/15 * * * *`
+ * @returns {CronSchedule} The parsed schedule
+ */
+export function parseCron(expr: string): CronSchedule {
+  const parts = expr.trim().split(/\s+/);
+  if(parts.length !== 5)
+    throw new Error(`Invalid cron expression "${expr}"; it must have 5 fields!`);
+
+  const sets = parts.map((part, i) => {
+    const { name, min, max } = cronFields[i];
+    const values = new Set<number>();
+
+    for(const item of part.split(',')) {
+      const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(item);
+      if(!match)
+        throw new Error(`Invalid ${name} "${item}" in cron expression "${expr}"!`);
+
+      const start = match[1] === '*' ? min : Number(match[2]);
+      const end = match[1] === '*' ? max : match[3] ? Number(match[3]) : match[4] ? max : start;
+      const step = match[4] ? Number(match[4]) : 1;
+
+      if(start < min || end > max || start > end || step < 1)
+        throw new Error(`Invalid ${name} "${item}" in cron expression "${expr}"!`);
+
+      for(let v = start; v <= end; v += step)
+        values.add(v);
+    }
+
+    return values;
+  });
+
+  // sunday can be 0 or 7
+  if(sets[4].delete(7))
+    sets[4].add(0);
+
+  return {
+    minutes: sets[0],
+    hours: sets[1],
+    days: sets[2],
+    months: sets[3],
+    weekdays: sets[4],
+    anyDay: parts[2] !== '*' && parts[4] !== '*'
+  };
+}
+
+/**
+ * Get the next time (to the minute, in UTC) a cron schedule matches, after the given time
+ * @param cron The schedule
+ * @param after The time (in ms) to start from
+ * @returns {number} The next time (in ms)
+ */
+export function nextCronTime(cron: CronSchedule, after: number): number {
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+
+  // at most a year (+ a leap day) away
+  for(let i = 0; i < 527040; i++) {
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    if(!cron.months.has(date.getUTCMonth() + 1) || !cron.hours.has(date.getUTCHours()) || !cron.minutes.has(date.getUTCMinutes()))
+      continue;
+
+    const day = cron.days.has(date.getUTCDate());
+    const weekday = cron.weekdays.has(date.getUTCDay());
+
+    if(cron.anyDay ? day || weekday : day && weekday)
+      return date.getTime();
+  }
+
+  throw new Error('Cron schedule never matches!');
+}
+
+/**
+ * A job scheduler, which runs jobs on an interval or a cron schedule. Job state (when they last ran,
+ * and who is running them) is kept in a KeyValueStore, so that when several nodes share one store,
+ * each run of a job only happens on one of them.
+ *
+ * **Note:** locks are taken with a compare-and-set (see `KeyValueStore.putIf`), but expire after the job's
+ * `lockTime`, so jobs which can run longer than that should be safe to run twice.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new Scheduler(new ScopedKeyValueStore(kv, 'scheduler'));
+ *
+ * scheduler.schedule('clean-sessions', 3600000, () => authDb.cleanSessions());
+ * scheduler.schedule('report', '0 3 * * *', () => sendReport());
+ * authDb.scheduleMaintenance(scheduler);
+ *
+ * scheduler.start();
+ * ```
+ */
+export class Scheduler {
+
+  readonly #jobs = new Map<string, Job>();
+  /** Who this scheduler is, for locking */
+  readonly #owner = crypto.randomUUID();
+  readonly #tick: number;
+
+  #timer?: ReturnType<typeof setInterval>;
+  #ticking?: Promise<void>;
+
+  /**
+   * @param store The store to keep job state in (scope it, e.x. via `ScopedKeyValueStore`)
+   * @param config (optional) How often (in ms) to check for jobs which are due; cron schedules
+   * are to the minute, so this should be under a minute
+   */
+  constructor(protected readonly store: KeyValueStore, config: { tick?: number } = { }) {
+    this.#tick = config.tick ?? 15000;
+  }
+
+  /** Whether or not the scheduler has been started */
+  get running(): boolean { return this.#timer !== undefined; }
+
+  /**
+   * Schedule a job
+   * @param name The (unique) name of the job
+   * @param schedule Every how many ms to run it, or a cron expression
+   * @param task The task
+   * @param options (optional) How long (in ms) a run can take before it is assumed to have died
+   * and can be run elsewhere (10 minutes by default)
+   * @returns {this} The scheduler
+   */
+  schedule(name: string, schedule: JobSchedule, task: JobTask, options: { lockTime?: number } = { }): this {
+    if(this.#jobs.has(name))
+      throw new Error(`A job named "${name}" already exists!`);
+
+    if(typeof schedule === 'number' && !(schedule > 0))
+      throw new Error(`The interval of job "${name}" must be positive!`);
+
+    this.#jobs.set(name, {
+      name,
+      schedule,
+      cron: typeof schedule === 'string' ? parseCron(schedule) : undefined,
+      task,
+      lockTime: options.lockTime ?? 600000,
+      created: Date.now()
+    });
+
+    return this;
+  }
+
+  /**
+   * Unschedule a job (if it is running, it is not stopped)
+   * @param name The name of the job
+   */
+  unschedule(name: string): void {
+    this.#jobs.delete(name);
+  }
+
+  /**
+   * Start checking for (and running) jobs which are due
+   */
+  start(): void {
+    if(this.#timer !== undefined)
+      return;
+
+    this.#timer = setInterval(() => this.#runTick(), this.#tick);
+    this.#runTick();
+  }
+
+  /**
+   * Stop checking for jobs, waiting for any which are running to finish
+   */
+  async stop(): Promise<void> {
+    if(this.#timer !== undefined)
+      clearInterval(this.#timer);
+
+    this.#timer = undefined;
+    await this.#ticking;
+  }
+
+  #runTick(): void {
+    // don't overlap ticks
+    if(this.#ticking)
+      return;
+
+    this.#ticking = (async () => {
+      for(const job of this.#jobs.values()) {
+        try {
+          await this.#run(job, false);
+        } catch(e) {
+          console.error(`[Scheduler]: Error checking job "${job.name}"!`, e);
+        }
+      }
+    })().finally(() => this.#ticking = undefined);
+  }
+
+  /** Interval jobs run right away the first time; cron jobs wait for their time */
+  #getNext(job: Job, last?: number): number {
+    if(job.cron)
+      return nextCronTime(job.cron, last ?? job.created);
+
+    return last === undefined ? job.created : last + (job.schedule as number);
+  }
+
+  async #run(job: Job, force: boolean): Promise<boolean> {
+    const now = Date.now();
+    const state = await this.store.get<JobState>(job.name);
+
+    if(state?.lock && state.lock.owner !== this.#owner && state.lock.expires > now)
+      return false;
+
+    if(!force && this.#getNext(job, state?.last) > now)
+      return false;
+
+    // only if no one else has taken it since
+    const locked: JobState = { ...state, lock: { owner: this.#owner, expires: now + job.lockTime } };
+    if(!await this.store.putIf<JobState>(job.name, state, locked))
+      return false;
+
+    let error: string | null = null;
+
+    try {
+      await job.task();
+    } catch(e) {
+      console.error(`[Scheduler]: Error running job "${job.name}"!`, e);
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    // unless the lock expired and someone else has taken it since
+    await this.store.putIf<JobState>(job.name, locked, { last: now, duration: Date.now() - now, error, lock: null });
+
+    return true;
+  }
+
+  /**
+   * Run a job now, regardless of its schedule (unless it is already running)
+   * @param name The name of the job
+   * @returns {Promise<boolean>} Whether or not it was run
+   */
+  async run(name: string): Promise<boolean> {
+    const job = this.#jobs.get(name);
+    if(!job)
+      throw new Error(`No job named "${name}" exists!`);
+
+    return await this.#run(job, true);
+  }
+
+  /**
+   * Get the status of every job
+   * @returns {Promise<JobStatus[]>} The statuses
+   */
+  async status(): Promise<JobStatus[]> {
+    const now = Date.now();
+    const statuses: JobStatus[] = [];
+
+    for(const job of this.#jobs.values()) {
+      const state = await this.store.get<JobState>(job.name) ?? { };
+
+      statuses.push({
+        name: job.name,
+        schedule: job.schedule,
+        last: state.last,
+        next: this.#getNext(job, state.last),
+        duration: state.duration,
+        error: state.error,
+        running: Boolean(state.lock && state.lock.expires > now)
+      });
+    }
+
+    return statuses;
+  }
+}
+
+Deno.test(function TestNextCronTime() {
+  const start = Date.UTC(2024, 0, 1, 12, 7); // a monday
+
+  assertEquals(nextCronTime(parseCron('*/15 * * * *'), start), Date.UTC(2024, 0, 1, 12, 15));
+  assertEquals(nextCronTime(parseCron('0 3 * * *'), start), Date.UTC(2024, 0, 2, 3, 0));
+  assertEquals(nextCronTime(parseCron('30 9 * * 0'), start), Date.UTC(2024, 0, 7, 9, 30));
+  assertEquals(nextCronTime(parseCron('0 0 29 2 *'), start), Date.UTC(2024, 1, 29, 0, 0));
+  // either the day or the weekday can match
+  assertEquals(nextCronTime(parseCron('0 0 15 * 5'), start), Date.UTC(2024, 0, 5, 0, 0));
+});
+
+export default Scheduler;
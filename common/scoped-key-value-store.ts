@@ -22,6 +22,11 @@ export class ScopedKeyValueStore<T = any> extends KeyValueStore<T> {
     return await this.store.put<U>(this.prefix + this.separator + key, value);
   }
 
+  /** Insert, update or delete a key, only if its value is (still) `expected` */
+  public async putIf<U = T>(key: string, expected: U | null, value: U | null): Promise<boolean> {
+    return await this.store.putIf<U>(this.prefix + this.separator + key, expected, value);
+  }
+
   /** Delete a key */
   public async del(key: string): Promise<void> {
     return await this.store.del(this.prefix + this.separator + key);
@@ -1,7 +1,9 @@
+import { assertEquals } from '../deps/std.ts';
+
 import {
   gql, makeExecutableSchema,
 
-  graphql,
+  graphql, parse,
   GraphQLError,
   GraphQLScalarType, GraphQLNonNull, GraphQLList,
   isWrappingType
@@ -233,3 +235,29 @@ export function makeSchema(tables: GQLTable[]): GraphQLSchema {
 export async function query(schema: GraphQLSchema, query: string, context: GQLContext, root?: any) {
   return await graphql({ schema, source: query, rootValue: root, contextValue: context });
 }
+
+/**
+ * Check whether or not a GraphQL document has any mutations, e.x. to check permissions before running it;
+ * documents which don't parse are assumed to (they would fail to run anyways)
+ * @param {string} document The GraphQL document
+ * @returns {boolean} Whether or not it has any mutations
+ */
+export function hasMutation(document: string): boolean {
+  try {
+    return parse(document).definitions.some(def =>
+      def.kind === 'OperationDefinition' && def.operation === 'mutation');
+  } catch {
+    return true;
+  }
+}
+
+Deno.test(function TestHasMutation() {
+  assertEquals(hasMutation('{ notes { id } }'), false);
+  assertEquals(hasMutation('query Notes { notes { id } }'), false);
+  assertEquals(hasMutation('mutation { addNote(input: { text: "hi" }) { id } }'), true);
+  // which a regex on the start of the document would miss
+  assertEquals(hasMutation('# a comment\nmutation { addNote(input: { text: "hi" }) { id } }'), true);
+  assertEquals(hasMutation(',mutation { addNote(input: { text: "hi" }) { id } }'), true);
+  assertEquals(hasMutation('query Notes { notes { id } } mutation Add { addNote(input: { text: "hi" }) { id } }'), true);
+  assertEquals(hasMutation('mutation {'), true);
+});
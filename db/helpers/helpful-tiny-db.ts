@@ -33,8 +33,9 @@ export class HelpfulTinyDb extends TinyDb {
   }
 
   public async delAllUserData(user: string, scope?: string): Promise<void> {
-    await this.keyValueStore.delPrefixed(this.#key(user, scope));
-    await this.dynTableStore.dropPrefixed(this.#table(user, scope));
+    // with the separator, so that e.x. `app.co` doesn't take `app.com` with it
+    await this.keyValueStore.delPrefixed(this.#key(user, scope) + this.keyValueStore.separator);
+    await this.dynTableStore.dropPrefixed(this.#table(user, scope) + this.dynTableStore.separator);
   }
 
   // #region key value
@@ -118,7 +119,7 @@ export class HelpfulTinyDb extends TinyDb {
   }
 
   public async getSchemas(user: string, scope?: string): Promise<GQLSchema[]> {
-    const schemas = await this.dynTableStore.list(this.#table(user, scope));
+    const schemas = await this.dynTableStore.list(this.#table(user, scope) + this.dynTableStore.separator);
     return schemas.map(s => this.#translateSchema(s));
   }
 
@@ -1,11 +1,50 @@
+import { ForbiddenError } from '../common/errors.ts';
 import type { SearchOptions, BatchOptions } from '../common/types.ts';
 
-import { Router, json, text, noContent, digestGraphQL } from '../api/mod.ts';
+import { Router, Schema, json, text, noContent, digestGraphQL, describe } from '../api/mod.ts';
 import { TinyContextualRequest } from '../common/types.ts';
-import { handleError } from '../common/middleware.ts';
+import { handleError, validate } from '../common/middleware.ts';
+import { checkPermission, requirePermission } from '../common/permissions.ts';
 
 import Api from '../common/api.ts';
 import type Db from './tiny-db.ts';
+import { hasMutation } from './graphql-util.ts';
+
+const schemaSchema: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    user: { type: 'string' },
+    scope: { type: 'string' },
+    name: { type: 'string' },
+    fields: {
+      type: 'array',
+      items: { type: 'object', properties: { key: { type: 'string' }, type: { type: 'string' } } }
+    }
+  }
+};
+
+const searchSchema: Schema = {
+  type: 'object',
+  properties: {
+    prefix: { type: 'string' },
+    query: { type: 'object' },
+    sort: { type: 'string' },
+    skip: { type: 'integer', minimum: 0 },
+    limit: { type: 'integer', minimum: 0 }
+  }
+};
+
+const batchSchema: Schema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: { type: { type: 'string', enum: ['put', 'del'] }, key: { type: 'string' }, value: { } },
+    required: ['type', 'key']
+  }
+};
+
+const graphQLBody = { type: 'text/plain', description: 'The GraphQL type definitions.', schema: { type: 'string' } } as const;
 
 /**
  * The Api for the DB Module of the Tiny suite
@@ -90,10 +129,21 @@ export class TinyDbApi<Req extends TinyContextualRequest = TinyContextualRequest
 
   // #endregion graphql
 
+  /**
+   * Delete all of an app's data (its key-value entries and tables), e.x. when it is removed
+   */
+  async deleteAppData(user: string, context: string, identifier: string) {
+    // the user scope is everything
+    if(context === 'user')
+      throw new ForbiddenError('Users are not apps!', { code: 'not_an_app' });
+
+    await this.db.delAllUserData(user, this.parseScope(context, identifier));
+  }
+
   /** @todo add security verification yikes */
   compile(router = new Router<Req>()): Router<Req> {
 
-    router.use(handleError('Db'));
+    router.use(describe({ tags: ['DB'], auth: 'optional' }), handleError('Db'));
 
     const keyValueRouter = new Router<Req>();
     keyValueRouter.use(handleError('key-value'));
@@ -103,33 +153,45 @@ export class TinyDbApi<Req extends TinyContextualRequest = TinyContextualRequest
     const storeRouter = new Router<Req>();
     storeRouter.use(handleError('key-value-store'));
 
-    storeRouter.get('/:key', async req => {
+    storeRouter.get('/:key', describe({ summary: 'Get the value of a key', responses: { 200: { description: 'The value (or null).' } } }), requirePermission('db:kv:read'), async req => {
       return json(await this.keyValueGet(req.user!.id, req.context.context, req.context.identifier, req.params.key!));
     });
 
-    storeRouter.post('', async req => {
-      const id = await this.keyValueAdd(req.user!.id, req.context.context, req.context.identifier, await req.json());
+    storeRouter.post('', describe({
+      summary: 'Add an object to the store with a generated key',
+      responses: { 200: { description: 'The generated key.', type: 'text/plain', schema: { type: 'string' } } }
+    }), requirePermission('db:kv:write'), validate<Record<string, unknown>, Req>({ body: { type: 'object' } }), async req => {
+      const id = await this.keyValueAdd(req.user!.id, req.context.context, req.context.identifier, req.context.body);
       return text(id);
     });
 
-    storeRouter.put('/:key', async req => {
-      await this.keyValuePut(req.user!.id, req.context.context, req.context.identifier, req.params.key!, await req.json());
+    storeRouter.put('/:key', describe({
+      summary: 'Set the value of a key',
+      responses: { 204: { description: 'Success.' } }
+    }), requirePermission('db:kv:write'), validate<unknown, Req>({ body: { } }), async req => {
+      await this.keyValuePut(req.user!.id, req.context.context, req.context.identifier, req.params.key!, req.context.body);
       return noContent();
     });
 
-    storeRouter.delete('/:key', async req => {
+    storeRouter.delete('/:key', describe({ summary: 'Delete a key', responses: { 204: { description: 'Success.' } } }), requirePermission('db:kv:write'), async req => {
       await this.keyValueDel(req.user!.id, req.context.context, req.context.identifier, req.params.key!);
       return noContent();
     });
 
     keyValueRouter.use('/store', storeRouter);
 
-    keyValueRouter.post('/search', async req => {
-      return json(await this.keyValueSearch(req.user!.id, req.context.context, req.context.identifier, await req.json()));
+    keyValueRouter.post('/search', describe({
+      summary: 'Search the store',
+      responses: { 200: { description: 'The values found.', schema: { type: 'array', items: { } } } }
+    }), requirePermission('db:kv:read'), validate<SearchOptions<unknown>, Req>({ body: searchSchema }), async req => {
+      return json(await this.keyValueSearch(req.user!.id, req.context.context, req.context.identifier, req.context.body));
     });
 
-    keyValueRouter.post('/batch', async req => {
-      await this.keyValueBatch(req.user!.id, req.context.context, req.context.identifier, await req.json());
+    keyValueRouter.post('/batch', describe({
+      summary: 'Batch put / delete keys in the store',
+      responses: { 204: { description: 'Success.' } }
+    }), requirePermission('db:kv:write'), validate<BatchOptions<unknown>, Req>({ body: batchSchema }), async req => {
+      await this.keyValueBatch(req.user!.id, req.context.context, req.context.identifier, req.context.body);
       return noContent();
     });
 
@@ -145,21 +207,32 @@ export class TinyDbApi<Req extends TinyContextualRequest = TinyContextualRequest
     const tablesRouter = new Router<Req>();
     tablesRouter.use(handleError('dynamic-tables'));
 
-    tablesRouter.get('/:name?', async req =>
+    tablesRouter.get('/:name?', describe({
+      summary: 'Get the schema of a table, or every table',
+      responses: { 200: { description: 'The schema(s).', schema: { type: 'array', items: schemaSchema } } }
+    }), requirePermission('db:dynamic:read'), async req =>
       json(await this.dynGetTable(req.user!.id, req.context.context, req.context.identifier, req.params.name)));
 
-    tablesRouter.post('/', async req =>
+    tablesRouter.post('/', describe({
+      summary: 'Register tables',
+      body: graphQLBody,
+      responses: { 200: { description: 'The registered schemas.', schema: { type: 'array', items: schemaSchema } } }
+    }), requirePermission('db:dynamic:schema'), async req =>
       json(await this.dynRegisterTables(req.user!.id, req.context.context, req.context.identifier, await req.text())));
 
-    tablesRouter.put('/:name', async req =>
+    tablesRouter.put('/:name', describe({
+      summary: 'Replace the schema of a table',
+      body: graphQLBody,
+      responses: { 200: { description: 'The new schema.', schema: schemaSchema } }
+    }), requirePermission('db:dynamic:schema'), async req =>
       json(await this.dynReplaceTable(req.user!.id, req.context.context, req.context.identifier, req.params.name!, await req.text())));
 
-    tablesRouter.delete('/:name', async req => {
+    tablesRouter.delete('/:name', describe({ summary: 'Drop a table', responses: { 204: { description: 'Success.' } } }), requirePermission('db:dynamic:schema'), async req => {
       await this.dynDropTable(req.user!.id, req.context.context, req.context.identifier, req.params.name!);
       return noContent();
     });
 
-    tablesRouter.delete('', async req => {
+    tablesRouter.delete('', describe({ summary: 'Drop every table', responses: { 204: { description: 'Success.' } } }), requirePermission('db:dynamic:schema'), async req => {
       await this.dynDropAll(req.user!.id, req.context.context, req.context.identifier);
       return noContent();
     });
@@ -179,6 +252,10 @@ export class TinyDbApi<Req extends TinyContextualRequest = TinyContextualRequest
           return new Response('No GraphiQL renderer!', { status: 500 });
       }
 
+      // mutations can be sent as a query too
+      if(req.session)
+        checkPermission(req.session, data.mutation || hasMutation(data.query ?? '') ? 'db:dynamic:write' : 'db:dynamic:read');
+
       const result = await this.db.query(req.user!.id, this.parseScope(req.context.context, req.context.identifier), (data.query || data.mutation)!);
 
       return new Response(JSON.stringify(result, null, 2), { status: 200, headers: { 'Content-Type': data.contentType } });
@@ -14,7 +14,7 @@ export { maylily };
 // graphql
 
 export type { ValueNode, ObjectValueNode, GraphQLSchema, GraphQLObjectType } from 'https://deno.land/x/graphql_deno@v15.0.0/mod.ts';
-export { graphql, GraphQLError, GraphQLScalarType, GraphQLNonNull, GraphQLList, isWrappingType } from 'https://deno.land/x/graphql_deno@v15.0.0/mod.ts';
+export { graphql, parse, GraphQLError, GraphQLScalarType, GraphQLNonNull, GraphQLList, isWrappingType } from 'https://deno.land/x/graphql_deno@v15.0.0/mod.ts';
 export type { ObjectTypeDefinitionNode } from 'https://deno.land/x/graphql_deno@v15.0.0/lib/language/ast.d.ts';
 
 export { gql } from 'https://deno.land/x/graphql_tag@0.0.1/mod.ts';
@@ -1,6 +1,6 @@
 
 export type { ValueNode, ObjectValueNode, GraphQLSchema, GraphQLObjectType } from '../deps.ts';
-export { graphql, GraphQLError, GraphQLScalarType, GraphQLNonNull, GraphQLList, isWrappingType } from '../deps.ts';
+export { graphql, parse, GraphQLError, GraphQLScalarType, GraphQLNonNull, GraphQLList, isWrappingType } from '../deps.ts';
 export type { ObjectTypeDefinitionNode } from '../deps.ts';
 
 export { gql } from '../deps.ts';
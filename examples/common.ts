@@ -1,17 +1,22 @@
 import { renderPlaygroundPage } from '../deps-testing/graphiql.ts';
 
 import { DB } from '../deps/sqlite.ts';
-import { Router, json } from '../api/mod.ts';
+import { Router, json, generateOpenApi, cors } from '../api/mod.ts';
 
 import { MalformedError } from '../common/errors.ts';
 import { TinyContextualRequest } from '../common/types.ts';
 import { ScopedKeyValueStore } from '../common/scoped-key-value-store.ts';
-import { makeContextIdentifierValidator } from '../common/middleware.ts';
+import { handleError, makeContextIdentifierValidator } from '../common/middleware.ts';
+import { RateLimiter, rateLimit } from '../common/rate-limiter.ts';
+import { accessLog, consoleSink, fileSink } from '../common/access-log.ts';
+import { Metrics, recordMetrics, serveMetrics } from '../common/metrics.ts';
+import { Scheduler } from '../common/scheduler.ts';
 
 import { AuthRequest, AuthUser } from '../auth/auth-types.ts';
-import { validateUserSession } from '../auth/auth-middleware.ts';
+import { validateUserSession, makeAppOriginValidator, requireAdmin } from '../auth/auth-middleware.ts';
 import AuthApi from '../auth/auth-api.ts';
 import CoreApi from '../auth/core-api.ts';
+import AdminApi from '../auth/admin-api.ts';
 import HelpfulAuthDb from '../auth/helpers/helpful-auth-db.ts';
 
 import TinyDbApi from '../db/tiny-db-api.ts';
@@ -47,6 +52,9 @@ if(Deno.args.includes('--persist')) {
     await Deno.mkdir('./dist');
 }
 
+/** The usernames given via `--admin <username>` (which can be repeated) */
+const admins = Deno.args.flatMap((arg, i) => arg === '--admin' && Deno.args[i + 1] ? [Deno.args[i + 1]] : []);
+
 const serverName = Deno.args.includes('--servername') ? Deno.args[Deno.args.indexOf('--serverName') + 1] : 'localhost';
 
 const db = new DB(Deno.args.includes('--persist') ? './dist/database.sqlite' : ':memory:');
@@ -58,7 +66,7 @@ const dts = new SQLiteDynTableStore(db, 'dyn');
 await dts.init();
 
 
-const authDb = new HelpfulAuthDb(dts, { });
+const authDb = new HelpfulAuthDb(dts, { slidingSessions: Deno.args.includes('--sliding-sessions') });
 await authDb.init();
 
 const tinyDb = new HelpfulTinyDb(kv, dts, id => authDb.getUser(id));
@@ -76,8 +84,25 @@ const storageRoot = Deno.args.includes('--persist')
 console.log('Using storage root:', storageRoot);
 const fileStore = new DiskFileStore({ storageRoot });
 
-const coreApi = new CoreApi(authDb, 'complete');
-const authApi = new AuthApi(authDb);
+const rateLimitKv = new ScopedKeyValueStore(kv, 'rateLimit');
+
+const scheduler = new Scheduler(new ScopedKeyValueStore(kv, 'scheduler'));
+authDb.scheduleMaintenance(scheduler);
+scheduler.start();
+
+/** Whether or not to run as a Home node, which keeps master keys for dedicated nodes rather than making them */
+const homeNode = Deno.args.includes('--home');
+
+const coreApi = new CoreApi(authDb, homeNode ? 'home' : 'complete');
+const authApi = new AuthApi(authDb, {
+  rateLimitStore: rateLimitKv,
+  homeNode,
+  inviteOnly: Deno.args.includes('--invite-only'),
+  signingAlg: Deno.args.includes('--signing-keys') ? 'ES256' : undefined,
+  // passkeys are bound to the domain (and the examples are served on port 3000)
+  webAuthn: { rpId: serverName, origins: [`http://${serverName}:3000`, `https://${serverName}`] }
+});
+const adminApi = new AdminApi(authDb, authApi, { admins });
 const dbApi = new TinyDbApi(tinyDb,
   req => {
     const playground = renderPlaygroundPage({ endpoint: new URL(req.url).pathname });
@@ -88,6 +113,16 @@ const dbApi = new TinyDbApi(tinyDb,
 const fileApi = new FileApi<TinyContextualRequest>(fileDb,
   fileStore);
 
+// removing an app (without `?soft`) deletes its data
+authApi.onAppDelete.attach(async app => {
+  try {
+    await dbApi.deleteAppData(app.user, app.context, app.identifier);
+    await fileApi.deleteAppData(app.user, app.context, app.identifier);
+  } catch(e) {
+    console.error(`Error deleting the data of app "${app.context}" for user "${app.user}"!`, e);
+  }
+});
+
 
 const getUserFromAddress = async (addr: string): Promise<AuthUser | null> => {
   const prefs = await kv.search<string>({ prefix: 'userpref', limit: 2, query: { value: 'gaia:' + addr } });
@@ -107,19 +142,40 @@ const gaiaApi = new GaiaApi<SuperRequest>(fileDb, fileStore, gaiaKv, getUserFrom
 const webFingerKv = new ScopedKeyValueStore(kv, 'webFinger');
 const webFingerApi = new WebFingerApi<SuperRequest>(webFingerKv, un => authDb.getUserFromUsername(un), validateUserSession(authDb));
 
+const metrics = new Metrics();
+metrics.gauge('sessions', 'The number of active sessions', () => authDb.countSessions());
+metrics.gauge('users', 'The number of users', () => authDb.getUserIds().then(ids => ids.length));
+metrics.gauge('storage_used_bytes', 'The storage used by each user', async () => await Promise.all(
+  (await authDb.getUserIds()).map(async user => ({
+    labels: { user },
+    // users who have never stored a file have no folder
+    value: await fileStore.getStorageStats(user).then(stats => stats.used, () => 0)
+  }))));
+
 const router = new Router<SuperRequest>();
-router.use((req, next) => {
-  console.log(`[${req.method}] ${req.url.replace(/\?sid=\w+$/, ' (auth\'d)')}`)
-  return next();
-});
+router.use(accessLog({
+  sink: Deno.args.includes('--persist') ? [consoleSink(), fileSink('./dist/access.log')] : consoleSink()
+}));
+router.use(recordMetrics(metrics));
+router.get('/metrics', handleError('metrics'), validateUserSession(authDb), requireAdmin(admins), serveMetrics(metrics));
 
 coreApi.compile(router);
 router.use('/auth', authApi.compile());
+router.use('/admin', adminApi.compile());
 
 const optionalValidateUserSession = validateUserSession(authDb, true);
-const contextIdentifierValidator = makeContextIdentifierValidator(async (via, identifier) => {
-  if(via === 'hash')
-    return null;
+const contextIdentifierValidator = makeContextIdentifierValidator<SuperRequest>(async (via, identifier, req) => {
+  // a secure app's data is that of the session's user
+  if(via === 'hash') {
+    if(!req.session || !await authDb.getSecureAppFromHash(identifier))
+      return null;
+
+    const user = await authDb.getUser(req.session.user);
+    if(!user)
+      return null;
+
+    return { user, app: 'secure' };
+  }
 
   if(via === 'username') {
     const user = await authDb.getUserFromUsername(identifier);
@@ -132,11 +188,22 @@ const contextIdentifierValidator = makeContextIdentifierValidator(async (via, id
   return null;
 });
 
-router.use('/:context/:identifier/db', optionalValidateUserSession, contextIdentifierValidator, dbApi.compile());
-router.use('/:context/:identifier/files', optionalValidateUserSession, contextIdentifierValidator, fileApi.compile());
+// apps which have been given sessions can access their data from the browser
+const appCors = cors<SuperRequest>({ origin: makeAppOriginValidator(authDb), router, maxAge: 600, exposedHeaders: ['ETag'] });
+// 300 requests a minute per IP
+const publicLimit = rateLimit<SuperRequest>(new RateLimiter(rateLimitKv, { limit: 300, window: 60000 }), { name: 'public' });
+
+router.use('/:context/:identifier/db', appCors, publicLimit, optionalValidateUserSession, contextIdentifierValidator, dbApi.compile());
+router.use('/:context/:identifier/files', appCors, publicLimit, optionalValidateUserSession, contextIdentifierValidator, fileApi.compile());
 router.use('/gaia', gaiaApi.compile());
 router.use(webFingerApi.compile());
 
+router.get('/openapi.json', req => json(generateOpenApi(router, {
+  title: 'Tiny Node',
+  version: '2.0.0',
+  description: 'A Tiny node, running every core feature.'
+}, { servers: [new URL(req.url).origin] })));
+
 router.get('/dump/key-value', async () => json(await kv.search({ })));
 router.get('/dump/key-value/:key', async req => json(await kv.get(req.params.key!)));
 router.get('/dump/dyn', async () => json(await dts.list()));
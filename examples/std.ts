@@ -1,7 +1,8 @@
 import { Server } from '../deps-testing/std.ts'
 import { serveFile } from '../deps/std.ts';
 
-import { text } from '../api/mod.ts';
+import { cors, compress, etag } from '../api/mod.ts';
+import { makeFetchHandler } from '../api/helpers/fetch.ts';
 
 import { handleError } from '../common/middleware.ts';
 import { MalformedError } from '../common/errors.ts';
@@ -37,30 +38,15 @@ router.get('/:path(.*)', async (req, next) => {
 // serve the root index.html file
 router.use((req, next) => req.method !== 'GET' ? next() : serveFile(req, realPagePath));
 
-const rootHandleError = handleError('root');
-
 const app = new Server({
-  handler: async req => {
-    const res = await rootHandleError(req, async () => {
-      let res: Response;
-
-      if(req.method === 'OPTIONS')
-        res = new Response(undefined, { status: 204, headers: { allow: router.parseOptions(req).methods } });
-      else {
-        res = await router.process(req) || text('Not Found', { status: 404 })
-      }
-
-      return res;
-    });
-
-    if(Deno.args.includes('--cors')) {
-      res.headers.append('access-control-allow-origin', '*');
-      res.headers.append('access-control-allow-methods', router.parseOptions(req).methods);
-      res.headers.append('access-control-allow-headers', '*');
-    }
-
-    return res;
-  },
+  handler: makeFetchHandler(router, {
+    middleware: [
+      ...(Deno.args.includes('--cors') ? [cors<Request>({ router, exposedHeaders: ['ETag'] })] : []),
+      compress<Request>(),
+      etag<Request>(),
+      handleError('root')
+    ]
+  }),
   port: 3000
 });
 
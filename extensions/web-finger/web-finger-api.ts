@@ -2,6 +2,7 @@ import { Router, RouteHandler, noContent, json, redirect } from '../../api/mod.t
 
 import { TinyRequest, User } from '../../common/types.ts';
 import { handleError } from '../../common/middleware.ts';
+import { requirePermission } from '../../common/permissions.ts';
 import { MalformedError, NotFoundError, NotSupportedError } from '../../common/errors.ts';
 
 import KeyValueStore from '../../common/key-value-store.ts';
@@ -93,7 +94,7 @@ export class WebFingerApi<Req extends TinyRequest> extends Api<Req> {
     /**
      * Add WebFinger information for the validated session.
      */
-    router.put(route, this.validateSession, async req => {
+    router.put(route, this.validateSession, requirePermission('webfinger:write'), async req => {
       const body: {
         alias: boolean;
         rel: string;
@@ -1,8 +1,9 @@
-import { ForbiddenError, MalformedError, NotFoundError } from '../common/errors.ts';
+import { ForbiddenError, NotFoundError } from '../common/errors.ts';
 
-import { Router, json, noContent } from '../api/mod.ts';
+import { Router, Schema, json, noContent, describe } from '../api/mod.ts';
 import { TinyRequest, TinyContextualRequest, Session } from '../common/types.ts';
-import { handleError } from '../common/middleware.ts';
+import { handleError, validate } from '../common/middleware.ts';
+import { requirePermission } from '../common/permissions.ts';
 import Api from '../common/api.ts';
 import type FileStore from '../common/file-store.ts';
 
@@ -11,6 +12,17 @@ import type FileDb from './file-db.ts';
 
 const roots = Object.freeze(['public', 'private', 'root', 'collections'] as const);
 
+const fileInfoSchema: Schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    path: { type: 'string' },
+    size: { type: 'integer' },
+    modified: { type: 'integer' },
+    type: { type: 'string' }
+  }
+};
+
 interface TinyRouteRequest extends TinyContextualRequest {
   params: TinyContextualRequest['params'] & { root: 'public' | 'private' | 'root' | 'collections'; path?: string };
 }
@@ -89,7 +101,7 @@ export class FileApi<Req extends TinyContextualRequest = TinyContextualRequest>
 
     // create the path
 
-    const absPath = this.makePath(userId, params.root, params.context, params.identifier, path);
+    const absPath = this.makePath(userId, params.root, context, identifier, path);
     const publicPath =`/${userId}/public/`;
 
     // if it's us, and we're a user session, always write access
@@ -173,6 +185,21 @@ export class FileApi<Req extends TinyContextualRequest = TinyContextualRequest>
     await this.db.delFileInfo(path);
   }
 
+  /**
+   * Delete all of an app's files (its private and public appdata folders), e.x. when it is removed
+   */
+  async deleteAppData(user: string, context: string, identifier: string): Promise<void> {
+    if(context === 'user')
+      throw new ForbiddenError('Users are not apps!', { code: 'not_an_app' });
+
+    for(const root of ['private', 'public'] as const) {
+      const path = this.makePath(user, root, context, identifier);
+
+      await this.fs.deleteFolder(path);
+      await this.db.delFileInfoRecurse(path);
+    }
+  }
+
   async list(path: string, page?: number, advance = false): Promise<FileList | FileListAdvance> {
     if(!path.startsWith('/'))
       path = '/' + path;
@@ -218,19 +245,28 @@ export class FileApi<Req extends TinyContextualRequest = TinyContextualRequest>
      * - `path`: `string | undefined`
      */
     router.use('/:root(public|private|root|collections)/:path(.*)',
+      describe({ tags: ['Files'], auth: 'optional' }),
       handleError('file-store'),
       new Router<TinyRouteRequest>()
         .use('', (req, next) => {
           const validated = this.validatePath(req.params, req.context.user.id!, req.session);
           if(!validated)
-            throw new ForbiddenError('Requested path is inaccessible.');
+            throw new ForbiddenError('Requested path is inaccessible.', { code: 'path_inaccessible' });
 
           req.context.path = validated.path;
           req.context.perm = validated.perm;
 
           return next();
         })
-        .get('', async req => {
+        .get('', describe({
+          summary: 'Read a file, or get its information',
+          query: { type: 'object', properties: { info: { type: 'string', description: 'If given, get the file information instead.' } } },
+          responses: {
+            200: { description: 'The file (or its information).', schema: fileInfoSchema },
+            403: { description: 'The path is inaccessible.' },
+            404: { description: 'The file does not exist.' }
+          }
+        }), requirePermission('files:read'), async req => {
           if(req.query.info == undefined)
             return await this.read(req, req.context.path as string);
 
@@ -241,24 +277,56 @@ export class FileApi<Req extends TinyContextualRequest = TinyContextualRequest>
 
           return json(info);
         })
-        .put('', async req => {
+        .put('', describe({
+          summary: 'Write (over) a file',
+          body: { type: 'application/octet-stream', schema: { type: 'string', format: 'binary' } },
+          responses: { 204: { description: 'Success.' }, 403: { description: 'The path is inaccessible or read-only.' } }
+        }), requirePermission('files:write'), async req => {
           if(req.context.perm !== 'write')
-            throw new ForbiddenError('Read access only.');
+            throw new ForbiddenError('Read access only.', { code: 'read_only' });
 
           await this.write(req.context.path as string, req.stream ?? await req.blob(), req.headers.get('Content-Type') || 'application/octet-stream');
 
           return noContent();
         })
-        .delete('', async req => {
+        .delete('', describe({
+          summary: 'Delete a file',
+          responses: { 204: { description: 'Success.' }, 403: { description: 'The path is inaccessible or read-only.' } }
+        }), requirePermission('files:write'), async req => {
           if(req.context.perm !== 'write')
-            throw new ForbiddenError('Read access only.');
+            throw new ForbiddenError('Read access only.', { code: 'read_only' });
 
           await this.delete(req.context.path as string);
 
           return noContent();
         }));
 
-    router.get('/list-files/:root(public|private|root|collections)?/:path(.*)?', async req => {
+    router.get('/list-files/:root(public|private|root|collections)?/:path(.*)?', describe({
+      summary: 'List the files of a path',
+      tags: ['Files'],
+      auth: 'optional',
+      responses: {
+        200: {
+          description: 'The file list.',
+          schema: {
+            type: 'object',
+            properties: {
+              entries: { description: 'A list of paths, or a map of paths to file information if `advance`.' },
+              page: { type: 'integer', description: 'The next page, if there is one.' }
+            }
+          }
+        },
+        403: { description: 'The path cannot be indexed.' }
+      }
+    }), requirePermission('files:read'), validate<unknown, Req>({
+      query: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer', minimum: 0, description: 'The page to get.' },
+          advance: { type: 'string', description: 'If given, return file information instead of just paths.' }
+        }
+      }
+    }), async req => {
       const validation = this.validatePath({
         context: req.context.context,
         identifier: req.context.identifier,
@@ -267,7 +335,7 @@ export class FileApi<Req extends TinyContextualRequest = TinyContextualRequest>
       }, req.context.user.id!, req.session);
 
       if(!validation || validation.perm !== 'write')
-        throw new ForbiddenError('Cannot index requested path.');
+        throw new ForbiddenError('Cannot index requested path.', { code: 'path_inaccessible' });
 
       const advance = Boolean(req.query.advance);
       const page = (req.query.page && Number.parseInt(req.query.page)) || 0;
@@ -288,16 +356,30 @@ export class FileApi<Req extends TinyContextualRequest = TinyContextualRequest>
       return json(list);
     });
 
-    router.get('/storage-stats', async req => json(!req.user ? null : await this.fs.getStorageStats(req.user)))
+    router.get('/storage-stats', describe({
+      summary: 'Get the storage stats of the user',
+      tags: ['Files'],
+      auth: 'optional',
+      responses: {
+        200: {
+          description: 'The storage stats (in bytes), or null.',
+          schema: {
+            type: 'object',
+            nullable: true,
+            properties: { used: { type: 'integer' }, available: { type: 'integer' }, max: { type: 'integer' } }
+          }
+        }
+      }
+    }), requirePermission('files:read'), async req => json(!req.user ? null : await this.fs.getStorageStats(req.user)))
 
     // POST /batch-info string[]
-    router.post('/batch-info', async req => {
-      const body: string[] = await req.json();
-
-      if(!body || !(body instanceof Array))
-        throw new MalformedError('Body must be a string[]!');
-
-      const validated = body.map(path => {
+    router.post('/batch-info', describe({
+      summary: 'Get the information of many files at once',
+      tags: ['Files'],
+      auth: 'optional',
+      responses: { 200: { description: 'The file information, in the same order.', schema: { type: 'array', items: fileInfoSchema } } }
+    }), requirePermission('files:read'), validate<string[], Req>({ body: { type: 'array', items: { type: 'string' } } }), async req => {
+      const validated = req.context.body.map(path => {
         if(!path.startsWith('/'))
           path = '/' + path;
 
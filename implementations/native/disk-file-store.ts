@@ -128,6 +128,18 @@ export class DiskFileStore extends FileStore {
     }
   }
 
+  async deleteFolder(path: string): Promise<void> {
+    const real = joinPath(this.#base, path);
+
+    if(!real.startsWith(this.#base + '/'))
+      throw new ForbiddenError('Path goes out of bounds!');
+
+    await Deno.remove(real, { recursive: true }).catch(e => {
+      if(!(e instanceof Deno.errors.NotFound))
+        throw e;
+    });
+  }
+
   async getStorageStats(user: string): Promise<{ used: number; available?: number; max?: number }> {
     const used = await sizeOf(await Deno.realPath(this.#base + '/' + user));
 
@@ -71,6 +71,21 @@ export class StorageKeyValueStore extends KeyValueStore {
     await this.#put(this.prefix + key, value);
   }
 
+  /** Insert, update or delete a key, only if its value is (still) `expected` */
+  public async putIf<T = unknown>(key: string, expected: T | null, value: T | null): Promise<boolean> {
+    // storage is synchronous, so nothing can change it in between
+    const current = this.store.getItem(this.prefix + key);
+    if(current !== (expected == null ? null : this.#encode(expected)))
+      return false;
+
+    if(value == null)
+      this.store.removeItem(this.prefix + key);
+    else
+      this.store.setItem(this.prefix + key, this.#encode(value));
+
+    return await Promise.resolve(true);
+  }
+
   /** Delete a key */
   public async del(key: string): Promise<void> {
     await this.#del(this.prefix + key);
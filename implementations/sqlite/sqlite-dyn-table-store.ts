@@ -10,6 +10,11 @@ import { type TableSchema, ColumnType } from '../../common/dyn-table.ts';
 
 import SQLiteDynTable from './sqlite-dyn-table.ts';
 
+/** Escape the wildcards of a `LIKE` pattern (with `ESCAPE '@'`), as the separator (`_`) is one */
+function escapeLike(str: string): string {
+  return str.replace(/[%_@]/g, '@$&');
+}
+
 export class SQLiteDynTableStore extends DynTableStore {
 
   public readonly separator = '_';
@@ -121,7 +126,7 @@ export class SQLiteDynTableStore extends DynTableStore {
 
     let rows: { name: string; columns: string; indexes: string; version: string }[];
     if(prefix)
-      rows = await this.client.all(query + ' WHERE name LIKE $1', prefix + '%');
+      rows = await this.client.all(query + ` WHERE name LIKE $1 ESCAPE '@'`, escapeLike(prefix) + '%');
     else
       rows = await this.client.all(query);
 
@@ -259,12 +264,12 @@ export class SQLiteDynTableStore extends DynTableStore {
       let stmt: PreparedQuery | undefined;
       try {
 
-        stmt = this.db.prepareQuery(`SELECT name FROM "${this.schemaTable}" WHERE name LIKE $1`);
-        const tables = stmt.all([ prefix + '%' ]).flat() as string[];
+        stmt = this.db.prepareQuery(`SELECT name FROM "${this.schemaTable}" WHERE name LIKE $1 ESCAPE '@'`);
+        const tables = stmt.all([ escapeLike(prefix) + '%' ]).flat() as string[];
         stmt.finalize();
 
-        stmt = this.db.prepareQuery(`DELETE FROM "${this.schemaTable}" WHERE name LIKE $1`);
-        stmt.execute([ prefix + '%' ]);
+        stmt = this.db.prepareQuery(`DELETE FROM "${this.schemaTable}" WHERE name LIKE $1 ESCAPE '@'`);
+        stmt.execute([ escapeLike(prefix) + '%' ]);
         stmt.finalize();
 
         for(let tbl of tables) {
@@ -148,6 +148,16 @@ export class SQLiteDynTable<T = any> extends DynTable<T> {
     return this.#decode(row)!;
   }
 
+  async putWhere(id: string, where: Partial<T>, input: Partial<T>): Promise<number> {
+    const { query, params } = mapToEntries(this.#encode(input), true);
+
+    let stmt = `UPDATE "${this.schema.name}" SET ${query} WHERE id = $${params.push(id)}`;
+    for(const [key, value] of Object.entries(this.#encode(where)))
+      stmt += ` AND ${key} ${value == null ? 'IS' : '='} $${params.push(value)}`;
+
+    return await this.client.all(stmt + ' RETURNING id;', ...params).then(res => res.length);
+  }
+
   async del(id: string): Promise<void> {
     await this.client.exec(`DELETE FROM "${this.schema.name}" WHERE id = $1`, id);
   }
@@ -235,6 +245,14 @@ Deno.test({
     console.log('Testing if put(id, { value: undefined }) => { id, key: "hi!", value: null }');
     assertEquals(await dyn.put(el.id, { value: undefined }), { id: el.id, key: "hi!", value: null });
 
+    console.log('Testing if putWhere(id, { value: "wow!" }, { value: "neat!" }) => 0');
+    assertEquals(await dyn.putWhere(el.id, { value: 'wow!' }, { value: 'neat!' }), 0);
+
+    console.log('Testing if putWhere(id, { value: null }, { value: "neat!" }) => 1');
+    assertEquals(await dyn.putWhere(el.id, { value: null }, { value: 'neat!' }), 1);
+    assertEquals(await dyn.putWhere(el.id, { value: null }, { value: 'oops!' }), 0);
+    assertEquals((await dyn.one(el.id))!.value, 'neat!');
+
     console.log('Testing if del(id) => void');
     assertEquals(await dyn.del(el.id), undefined);
 
@@ -0,0 +1,439 @@
+import { assert, assertEquals, assertRejects } from '../../deps/std.ts';
+import jose from '../../deps/jose.ts';
+
+import { DB } from '../../deps/sqlite.ts';
+
+import { AuthError, ForbiddenError, MalformedError, NotFoundError } from '../../common/errors.ts';
+
+import AuthApi from '../../auth/auth-api.ts';
+import type AuthDb from '../../auth/auth-db.ts';
+import CoreApi from '../../auth/core-api.ts';
+import { validateUserSession } from '../../auth/auth-middleware.ts';
+import type { AuthRequest } from '../../auth/auth-types.ts';
+import { generateTotp, getTotpStep } from '../../auth/auth-util.ts';
+import { base64UrlEncode, concatBytes, sha256 } from '../../auth/webauthn.ts';
+import HelpfulAuthDb from '../../auth/helpers/helpful-auth-db.ts';
+
+import SQLiteDynTableStore from './sqlite-dyn-table-store.ts';
+
+export class SQLiteHelpfulAuthDb extends HelpfulAuthDb {
+  constructor(db: DB, sqlitePrefix = '', config: ConstructorParameters<typeof AuthDb>[0] = { }) {
+    super(new SQLiteDynTableStore(db, sqlitePrefix), config);
+  }
+}
+
+export default SQLiteHelpfulAuthDb;
+
+Deno.test({
+  name: 'AuthApi Refresh Token Reuse Test',
+  async fn(): Promise<void> {
+    const db = new SQLiteHelpfulAuthDb(new DB(':memory:'), 'auth');
+    await db.init();
+
+    const api = new AuthApi(db);
+    await api.register('bob', 'password');
+
+    const first = await api.issueTokens(await api.login('bob', 'password') as string);
+    const second = await api.refreshToken(first.refresh_token);
+
+    console.log('Reusing a refresh token...');
+    await assertRejects(() => api.refreshToken(first.refresh_token));
+
+    // the whole family is revoked, along with the newest session
+    assertEquals(await db.getSession(jose.decodeJwt(second.access_token).jti!), null);
+    await assertRejects(() => api.refreshToken(second.refresh_token));
+
+    console.log('Using a refresh token twice at once...');
+    const third = await api.issueTokens(await api.login('bob', 'password') as string);
+    const results = await Promise.allSettled([api.refreshToken(third.refresh_token), api.refreshToken(third.refresh_token)]);
+
+    // at most one of them can rotate it
+    assert(results.some(res => res.status === 'rejected'));
+
+    console.log('Refreshing when the password must be reset...');
+    const fourth = await api.issueTokens(await api.login('bob', 'password') as string);
+    const bob = (await db.getUserFromUsername('bob'))!;
+    await db.putUser(bob.id!, { ...bob, resetPass: true });
+    await assertRejects(() => api.refreshToken(fourth.refresh_token), MalformedError, 'The password must be reset first.');
+  }
+});
+
+Deno.test({
+  name: 'AuthApi Session Revocation Test',
+  async fn(): Promise<void> {
+    const db = new SQLiteHelpfulAuthDb(new DB(':memory:'), 'auth');
+    await db.init();
+
+    const api = new AuthApi(db);
+    await api.register('bob', 'password');
+
+    const old = await api.issueTokens(await api.login('bob', 'password') as string);
+    const current = await api.issueTokens(await api.login('bob', 'password') as string);
+
+    // refresh tokens outlive their sessions, which get cleaned up
+    await db.delSession(jose.decodeJwt(old.access_token).jti!);
+
+    console.log('Changing the password...');
+    const sid = jose.decodeJwt(current.access_token).jti!;
+    await api.changePass((await db.getUserFromUsername('bob'))!, 'password', 'newpass', sid);
+
+    await assertRejects(() => api.refreshToken(old.refresh_token));
+    // the current session is kept
+    assert(await api.refreshToken(current.refresh_token));
+  }
+});
+
+Deno.test({
+  name: 'AuthApi Invite Test',
+  async fn(): Promise<void> {
+    const db = new SQLiteHelpfulAuthDb(new DB(':memory:'), 'auth');
+    await db.init();
+
+    const api = new AuthApi(db);
+    await api.register('alice', 'password');
+    const alice = (await db.getUserFromUsername('alice'))!;
+
+    console.log('Using an invite up...');
+    const invite = await api.createInvite(alice, { uses: 2 });
+    await api.register('bob', 'password', invite.code);
+    await api.register('carol', 'password', invite.code);
+    await assertRejects(() => api.register('dave', 'password', invite.code), ForbiddenError, 'Invite already used.');
+
+    assertEquals((await db.getInvite(invite.id))!.users.length, 2);
+    assertEquals((await db.getUserFromUsername('bob'))!.invitedBy, alice.id);
+    assertEquals(await db.getUserFromUsername('dave'), null);
+
+    console.log('Using an expired invite...');
+    const expired = await api.createInvite(alice, { expiresIn: -1 });
+    await assertRejects(() => api.register('dave', 'password', expired.code), ForbiddenError, 'Invalid or expired invite.');
+
+    console.log('Using an invite twice at once...');
+    const single = await api.createInvite(alice);
+    const results = await Promise.allSettled([api.register('erin', 'password', single.code), api.register('frank', 'password', single.code)]);
+
+    assertEquals(results.filter(res => res.status === 'fulfilled').length, 1);
+    assertEquals((await db.getInvite(single.id))!.users.length, 1);
+    // the other user isn't kept
+    assertEquals([await db.getUserFromUsername('erin'), await db.getUserFromUsername('frank')].filter(Boolean).length, 1);
+  }
+});
+
+Deno.test({
+  name: 'AuthApi TOTP Login Test',
+  async fn(): Promise<void> {
+    const db = new SQLiteHelpfulAuthDb(new DB(':memory:'), 'auth');
+    await db.init();
+
+    const api = new AuthApi(db);
+    await api.register('bob', 'password');
+
+    console.log('Enabling TOTP...');
+    const { secret } = await api.setupTotp((await db.getUserFromUsername('bob'))!);
+    const step = getTotpStep();
+    const code = await generateTotp(secret, step);
+    const recoveryCodes = await api.confirmTotp((await db.getUserFromUsername('bob'))!, code);
+
+    const login = async () => (await api.login('bob', 'password') as { challenge: string }).challenge;
+
+    console.log('Guessing a challenge...');
+    const guessed = await login();
+    for(let i = 0; i < 5; i++)
+      await assertRejects(() => api.completeLogin(guessed, '000000'));
+
+    // it is used up, even with the right code
+    await assertRejects(() => api.completeLogin(guessed, recoveryCodes[0]), NotFoundError);
+
+    console.log('Completing a challenge...');
+    // the code used to confirm cannot be replayed, but the next one can be used
+    await assertRejects(async () => api.completeLogin(await login(), code));
+    assert(await api.completeLogin(await login(), await generateTotp(secret, step + 1)));
+
+    console.log('Using a recovery code...');
+    assert(await api.completeLogin(await login(), recoveryCodes[0]));
+    await assertRejects(async () => api.completeLogin(await login(), recoveryCodes[0]));
+
+    console.log('Using a recovery code twice at once...');
+    const [first, second] = [await login(), await login()];
+    const results = await Promise.allSettled([api.completeLogin(first, recoveryCodes[2]), api.completeLogin(second, recoveryCodes[2])]);
+    assertEquals(results.filter(res => res.status === 'fulfilled').length, 1);
+
+    console.log('Completing an expired challenge...');
+    const expiring = new AuthApi(db, { challengeExpTime: -1 });
+    const { challenge } = await expiring.login('bob', 'password') as { challenge: string };
+    await assertRejects(() => expiring.completeLogin(challenge, recoveryCodes[1]), NotFoundError, 'Challenge expired!');
+  }
+});
+
+Deno.test({
+  name: 'AuthApi WebAuthn Login Test',
+  async fn(): Promise<void> {
+    const db = new SQLiteHelpfulAuthDb(new DB(':memory:'), 'auth');
+    await db.init();
+
+    const webAuthn = { rpId: 'localhost', origins: ['http://localhost'] };
+    const api = new AuthApi(db, { webAuthn });
+    await api.register('bob', 'password');
+    const bob = (await db.getUserFromUsername('bob'))!;
+
+    // an authenticator with an Ed25519 key
+    const keys = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    await db.addCredential({
+      user: bob.id!,
+      credentialId: 'credential',
+      publicKey: await crypto.subtle.exportKey('jwk', keys.publicKey),
+      alg: -8,
+      signCount: 0,
+      transports: [],
+      name: 'Authenticator',
+      created: Date.now()
+    });
+
+    const assertion = async (nonce: string, signCount: number) => {
+      const clientData = new TextEncoder().encode(JSON.stringify({ type: 'webauthn.get', challenge: nonce, origin: 'http://localhost' }));
+      const counter = new Uint8Array(4);
+      new DataView(counter.buffer).setUint32(0, signCount);
+      // user present & verified
+      const authData = concatBytes(await sha256('localhost'), Uint8Array.of(0x05), counter);
+      const signature = await crypto.subtle.sign('Ed25519', keys.privateKey, concatBytes(authData, await sha256(clientData)).buffer as ArrayBuffer);
+
+      return {
+        id: 'credential',
+        response: {
+          clientDataJSON: base64UrlEncode(clientData),
+          authenticatorData: base64UrlEncode(authData),
+          signature: base64UrlEncode(new Uint8Array(signature))
+        }
+      };
+    };
+
+    const start = async (authApi = api) => {
+      const { challenge, options } = await authApi.startWebAuthnLogin('bob');
+      return { challenge, nonce: options.challenge as string };
+    };
+
+    console.log('Logging in...');
+    const first = await start();
+    assert(await api.finishWebAuthnLogin(first.challenge, await assertion(first.nonce, 1)));
+
+    // challenges can only be used once
+    await assertRejects(async () => api.finishWebAuthnLogin(first.challenge, await assertion(first.nonce, 2)), NotFoundError);
+
+    console.log('Replaying a signature counter...');
+    const second = await start();
+    await assertRejects(async () => api.finishWebAuthnLogin(second.challenge, await assertion(second.nonce, 1)), AuthError);
+
+    console.log('Completing an expired challenge...');
+    const expiring = new AuthApi(db, { webAuthn, challengeExpTime: -1 });
+    const expired = await start(expiring);
+    await assertRejects(async () => expiring.finishWebAuthnLogin(expired.challenge, await assertion(expired.nonce, 2)),
+      NotFoundError, 'Challenge expired!');
+
+    console.log('Logging in when the password must be reset...');
+    await db.putUser(bob.id!, { ...(await db.getUser(bob.id!))!, resetPass: true });
+    const third = await start();
+    await assertRejects(async () => api.finishWebAuthnLogin(third.challenge, await assertion(third.nonce, 3)),
+      ForbiddenError, 'The password must be reset first.');
+  }
+});
+
+Deno.test({
+  name: 'AuthApi Secure Handshake Test',
+  async fn(): Promise<void> {
+    const db = new SQLiteHelpfulAuthDb(new DB(':memory:'), 'auth');
+    await db.init();
+
+    const api = new AuthApi(db);
+    await api.register('bob', 'password');
+    const bob = (await db.getUserFromUsername('bob'))!;
+
+    const keys = await jose.generateKeyPair('ES256');
+    const jwk = await jose.exportJWK(keys.publicKey);
+    const hash = await jose.calculateJwkThumbprint(jwk, 'sha256');
+    const redirect = 'http://localhost/callback';
+
+    const start = async (name: string) => {
+      const manifest = await new jose.SignJWT({ name, redirect }).setProtectedHeader({ alg: 'ES256', jwk }).setIssuedAt().sign(keys.privateKey);
+      const url = new URL(await api.startSecureHandshake(manifest, redirect), 'http://localhost');
+      return (await db.getHandshake(url.searchParams.get('handshake')!))!;
+    };
+
+    console.log('Starting a handshake...');
+    const handshake = await start('App');
+    // the app isn't registered until it is approved
+    assertEquals(await db.getSecureAppFromHash(hash), null);
+
+    console.log('Approving it...');
+    const code = new URL(await api.approveHandshake(handshake, bob)).searchParams.get('code')!;
+    assertEquals((await db.getSecureAppFromHash(hash))!.name, 'App');
+
+    const proof = await new jose.SignJWT({ code }).setProtectedHeader({ alg: 'ES256' }).setIssuedAt().sign(keys.privateKey);
+    assert(await api.completeHandshake(redirect, 'secure', code, { proof }));
+
+    console.log('Renaming it...');
+    const renamed = await start('Renamed App');
+    assertEquals((await db.getSecureAppFromHash(hash))!.name, 'App');
+    await api.approveHandshake(renamed, bob);
+    assertEquals((await db.getSecureAppFromHash(hash))!.name, 'Renamed App');
+  }
+});
+
+Deno.test({
+  name: 'AuthApi Signing Key Test',
+  async fn(): Promise<void> {
+    // a new key every 50ms
+    const db = new SQLiteHelpfulAuthDb(new DB(':memory:'), 'auth', { signingKeyRotation: 50 });
+    await db.init();
+
+    const api = new AuthApi(db, { signingAlg: 'ES256' });
+    const core = new CoreApi(db);
+    await api.register('bob', 'password');
+
+    const validate = async (token: string) => {
+      const req = Object.assign(new Request('http://localhost/', { headers: { Authorization: 'Bearer ' + token } }),
+        { params: { }, query: { }, context: { } }) as unknown as AuthRequest;
+
+      await validateUserSession(db)(req, () => new Response());
+      return req.user?.username;
+    };
+    const getKids = async () => (await core.jwks()).keys.map(key => (key as { kid?: string }).kid).sort();
+
+    const first = await api.login('bob', 'password') as string;
+    const { kid } = jose.decodeProtectedHeader(first);
+    assertEquals(await getKids(), [kid]);
+    assertEquals(await validate(first), 'bob');
+
+    console.log('Forging a token...');
+    const other = await jose.generateKeyPair('ES256');
+    const forge = (keyId: string) => new jose.SignJWT(jose.decodeJwt(first)).setProtectedHeader({ alg: 'ES256', kid: keyId }).sign(other.privateKey);
+
+    await assertRejects(async () => await validate(await forge(kid!)), AuthError, 'Token does not validate!');
+    await assertRejects(async () => await validate(await forge('unknown')), AuthError, 'Token does not validate!');
+
+    console.log('Rotating the key...');
+    await new Promise(res => setTimeout(res, 60));
+    const second = await api.login('bob', 'password') as string;
+    const next = jose.decodeProtectedHeader(second).kid;
+    assert(next !== kid);
+
+    // the old key is still published until its tokens could have expired
+    assertEquals(await getKids(), [kid, next].sort());
+    assertEquals(await validate(first), 'bob');
+    assertEquals(await validate(second), 'bob');
+  }
+});
+
+Deno.test({
+  name: 'AuthApi Master Key Test',
+  async fn(): Promise<void> {
+    const db = new SQLiteHelpfulAuthDb(new DB(':memory:'), 'auth');
+    await db.init();
+
+    const api = new AuthApi(db);
+    await api.register('bob', 'password');
+    const bob = (await db.getUserFromUsername('bob'))!;
+
+    console.log('Adding master keys...');
+    await assertRejects(() => api.addMasterKey(bob.id!, { type: 'file', contexts: ['app.co'], permissions: ['db:read'] }), MalformedError);
+    await assertRejects(() => api.addMasterKey(bob.id!, { type: 'file', contexts: ['user'] }), MalformedError);
+
+    const info = await api.addMasterKey(bob.id!, { type: 'file', contexts: ['app.co'], permissions: ['files:read'] });
+    const key = await api.verifyMasterKey(info.id, info.token);
+
+    console.log('Making sessions within its scope...');
+    const token = await api.generateSessionFromMasterKey(key, 'app.co', 'bob', { permissions: ['files:read'] });
+    const session = (await db.getSession(jose.decodeJwt(token).jti!))!;
+    assertEquals([session.context, session.permissions, session.masterKey], ['app.co', ['files:read'], info.id]);
+
+    await assertRejects(() => api.generateSessionFromMasterKey(key, 'other.co', 'bob'), ForbiddenError, 'Master key cannot make sessions for "other.co"!');
+    await assertRejects(() => api.generateSessionFromMasterKey(key, 'user', 'bob'), ForbiddenError);
+    await assertRejects(() => api.generateSessionFromMasterKey(key, 'app.co', 'alice'), MalformedError);
+    await assertRejects(() => api.generateSessionFromMasterKey(key, 'app.co', 'bob', { permissions: ['files:write'] }),
+      ForbiddenError, 'Master key cannot give: files:write.');
+
+    console.log('Using another key\'s token...');
+    const other = await api.addMasterKey(bob.id!, { type: 'file', contexts: ['*'] });
+    await assertRejects(() => api.verifyMasterKey(info.id, other.token), AuthError, 'Master key does not validate!');
+
+    console.log('Using an expired key...');
+    const expired = await api.addMasterKey(bob.id!, { type: 'file', contexts: ['*'], expiresIn: -1 });
+    await assertRejects(() => api.verifyMasterKey(expired.id, expired.token), AuthError, 'Master key expired!');
+
+    // deleting a key revokes its sessions
+    await api.deleteMasterKey(key);
+    assertEquals(await db.getSession(session.id!), null);
+  }
+});
+
+Deno.test({
+  name: 'AuthApi App Delete Test',
+  async fn(): Promise<void> {
+    const db = new SQLiteHelpfulAuthDb(new DB(':memory:'), 'auth');
+    await db.init();
+
+    const api = new AuthApi(db);
+    await api.register('bob', 'password');
+    const bob = (await db.getUserFromUsername('bob'))!;
+
+    const deleted: string[] = [];
+    api.onAppDelete.attach(app => deleted.push(app.context));
+
+    const info = await api.addMasterKey(bob.id!, { type: 'file', contexts: ['app.co', 'other.co'] });
+    const key = await api.verifyMasterKey(info.id, info.token);
+
+    const app = await api.issueTokens(await api.generateSessionFromMasterKey(key, 'app.co', 'bob'));
+    await api.generateSessionFromMasterKey(key, 'other.co', 'bob');
+    const user = await api.issueTokens(await api.login('bob', 'password') as string);
+
+    const apps = await db.getAppsForUser(bob.id!);
+    assertEquals(apps.map(a => a.context).sort(), ['app.co', 'other.co']);
+    const find = (context: string) => apps.find(a => a.context === context)!;
+
+    console.log('Removing an app softly...');
+    await api.deleteApp(find('other.co'), true);
+    assertEquals(deleted, []);
+    assertEquals(await db.getAppFor(bob.id!, 'other.co', 'bob'), null);
+
+    console.log('Removing an app...');
+    await api.deleteApp(find('app.co'));
+    assertEquals(deleted, ['app.co']);
+    assertEquals(await db.getAppsForUser(bob.id!), []);
+
+    // its sessions and refresh tokens are revoked, but not the user's
+    assertEquals(await db.getSession(jose.decodeJwt(app.access_token).jti!), null);
+    await assertRejects(() => api.refreshToken(app.refresh_token), MalformedError);
+    assert(await db.getSession(jose.decodeJwt(user.access_token).jti!));
+    assert(await api.refreshToken(user.refresh_token));
+  }
+});
+
+Deno.test({
+  name: 'AuthApi Recovery Key Test',
+  async fn(): Promise<void> {
+    const db = new SQLiteHelpfulAuthDb(new DB(':memory:'), 'auth');
+    await db.init();
+
+    const api = new AuthApi(db);
+    await api.register('bob', 'password');
+
+    const keys = await api.generateRecoveryKeys((await db.getUserFromUsername('bob'))!, 'password');
+    assertEquals(api.getRecoveryKeys((await db.getUserFromUsername('bob'))!), { recoveryKeys: keys.length });
+    const token = await api.login('bob', 'password') as string;
+
+    console.log('Recovering...');
+    await api.recover('bob', keys[0], 'newpass');
+
+    // the password is changed, and every session is revoked
+    await assertRejects(() => api.login('bob', 'password'), AuthError);
+    assert(await api.login('bob', 'newpass'));
+    assertEquals(await db.getSession(jose.decodeJwt(token).jti!), null);
+    assertEquals(api.getRecoveryKeys((await db.getUserFromUsername('bob'))!), { recoveryKeys: keys.length - 1 });
+
+    console.log('Reusing a recovery key...');
+    await assertRejects(() => api.recover('bob', keys[0], 'password'), AuthError, 'Invalid recovery key.');
+    await assertRejects(() => api.recover('alice', keys[1], 'password'), AuthError, 'Invalid recovery key.');
+
+    // the others still work
+    await api.recover('bob', keys[1], 'password');
+    assert(await api.login('bob', 'password'));
+  }
+});
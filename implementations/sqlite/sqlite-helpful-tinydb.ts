@@ -80,3 +80,29 @@ Deno.test({
     console.log('Added User', res);
   }
 });
+
+Deno.test({
+  name: 'SQLiteHelpfulTinyDb App Data Test',
+  async fn(): Promise<void> {
+    const db = new SQLiteHelpfulTinyDb(new DB(':memory:'), () => Promise.resolve(null), 'quite', 'tiny');
+    await db.init();
+
+    // apps whose domains share a prefix
+    const apps = ['app.co', 'app.com', 'app.co.uk'];
+    for(const app of apps) {
+      await db.put('user', app, 'key', app);
+      await db.registerSchemas('user', app, 'type Note { id: ID!, text: String }');
+    }
+
+    console.log('Deleting the data of one app...');
+    await db.delAllUserData('user', 'app.co');
+
+    assertEquals(await db.get('user', 'app.co', 'key'), null);
+    assertEquals(await db.getSchemas('user', 'app.co'), []);
+
+    for(const app of apps.slice(1)) {
+      assertEquals(await db.get('user', app, 'key'), app);
+      assertEquals((await db.getSchemas('user', app)).map(s => s.name), ['Note']);
+    }
+  }
+});
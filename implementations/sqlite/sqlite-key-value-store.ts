@@ -1,10 +1,13 @@
 // deno-lint-ignore-file no-explicit-any
-import { assertEquals } from '../../deps/std.ts';
+import { assert, assertEquals, assertRejects } from '../../deps/std.ts';
 import { DB } from '../../deps/sqlite.ts';
 
 import SQLiteClient from './clients/wasm-sqlite-client.ts';
 
 import KeyValueStore from '../../common/key-value-store.ts';
+import Scheduler from '../../common/scheduler.ts';
+import RateLimiter, { rateLimit } from '../../common/rate-limiter.ts';
+import { TooManyRequestsError } from '../../common/errors.ts';
 import type { SearchOptions, BatchOptions } from '../../common/types.ts';
 
 import { compileQuery } from '../../db/db-util.ts';
@@ -72,12 +75,30 @@ export class SQLiteKeyValueStore<T = any> extends KeyValueStore<T> {
     await this.client.exec(`INSERT INTO "${this.table}" (key, value) VALUES ($1, $2) ON CONFLICT DO UPDATE SET value = $2;`, key, this.#encode(value));
   }
 
+  async putIf(key: string, expected: any, value: any): Promise<boolean> {
+    // there is nothing to change
+    if(expected == null && value == null)
+      return await this.get(key) === null;
+
+    let stmt: string;
+    const params: unknown[] = [key];
+
+    if(expected == null)
+      stmt = `INSERT INTO "${this.table}" (key, value) VALUES ($1, $${params.push(this.#encode(value))}) ON CONFLICT DO NOTHING`;
+    else if(value == null)
+      stmt = `DELETE FROM "${this.table}" WHERE key = $1 AND value = $${params.push(this.#encode(expected))}`;
+    else
+      stmt = `UPDATE "${this.table}" SET value = $${params.push(this.#encode(value))} WHERE key = $1 AND value = $${params.push(this.#encode(expected))}`;
+
+    return await this.client.all(stmt + ' RETURNING key;', ...params).then(res => res.length > 0);
+  }
+
   async del(key: string): Promise<void> {
     await this.client.exec(`DELETE FROM "${this.table}" WHERE key=$1`, key);
   }
 
   async delPrefixed(prefix: string): Promise<void> {
-    await this.client.exec(`DELETE FROM "${this.table}" WHERE key LIKE $1`, prefix + '%');
+    await this.client.exec(`DELETE FROM "${this.table}" WHERE key LIKE $1 ESCAPE '@'`, prefix.replace(/[%_@]/g, '@$&') + '%');
   }
 
   async search<U = T>(search: SearchOptions<{ key: string; value: string }>): Promise<U[]> {
@@ -89,7 +110,7 @@ export class SQLiteKeyValueStore<T = any> extends KeyValueStore<T> {
       stmt += ' WHERE ';
 
     if(search.prefix)
-      stmt += `key LIKE $${params.push(search.prefix.replace(/[%_@]/g, '@$1') + '%')} ESCAPE '@'`;
+      stmt += `key LIKE $${params.push(search.prefix.replace(/[%_@]/g, '@$&') + '%')} ESCAPE '@'`;
 
     if(query && search.prefix)
       stmt += ' AND ';
@@ -242,5 +263,74 @@ Deno.test({
     console.log('Testing if batch worked (and skipped "wah").');
     assertEquals(await kv.get('neat'), 'nice');
     assertEquals(await kv.get('bool'), null);
+
+    console.log('Testing if putIf only changes values which are still as expected');
+    assertEquals(await kv.putIf('lock', null, { owner: 'a' }), true);
+    assertEquals(await kv.putIf('lock', null, { owner: 'b' }), false);
+    assertEquals(await kv.putIf('lock', { owner: 'b' }, { owner: 'c' }), false);
+    assertEquals(await kv.putIf('lock', { owner: 'a' }, { owner: 'c' }), true);
+    assertEquals(await kv.get('lock'), { owner: 'c' });
+    assertEquals(await kv.putIf('lock', { owner: 'a' }, null), false);
+    assertEquals(await kv.putIf('lock', { owner: 'c' }, null), true);
+    assertEquals(await kv.get('lock'), null);
+  }
+});
+
+Deno.test({
+  name: 'Scheduler Lock Test',
+  async fn(): Promise<void> {
+    const kv = new SQLiteKeyValueStore(new DB(':memory:'), 'scheduler');
+    await kv.init();
+
+    let runs = 0;
+    const task = async () => { runs++; await new Promise(res => setTimeout(res, 10)); };
+
+    // i.e. two nodes sharing a store
+    const a = new Scheduler(kv).schedule('job', 60000, task);
+    const b = new Scheduler(kv).schedule('job', 60000, task);
+
+    console.log('Running a job on two schedulers at once...');
+    assertEquals((await Promise.all([a.run('job'), b.run('job')])).filter(Boolean).length, 1);
+    assertEquals(runs, 1);
+
+    // once it is done, it can run again
+    assert(await b.run('job'));
+    assertEquals(runs, 2);
+  }
+});
+
+Deno.test({
+  name: 'RateLimiter Test',
+  async fn(): Promise<void> {
+    const kv = new SQLiteKeyValueStore(new DB(':memory:'), 'rateLimit');
+    await kv.init();
+
+    // two tokens, refilled over a second
+    const limiter = new RateLimiter(kv, { limit: 2, window: 1000 });
+
+    console.log('Emptying a bucket...');
+    assertEquals(await limiter.consume('a'), { allowed: true, remaining: 1, retryAfter: 0 });
+    assertEquals(await limiter.consume('a'), { allowed: true, remaining: 0, retryAfter: 0 });
+    assertEquals(await limiter.consume('a'), { allowed: false, remaining: 0, retryAfter: 1 });
+
+    // buckets are separate
+    assertEquals((await limiter.consume('b')).allowed, true);
+
+    console.log('Refilling it...');
+    await new Promise(res => setTimeout(res, 1100));
+    assertEquals(await limiter.consume('a'), { allowed: true, remaining: 1, retryAfter: 0 });
+
+    await limiter.consume('a');
+    await limiter.reset('a');
+    assertEquals((await limiter.consume('a')).remaining, 1);
+
+    console.log('Limiting requests...');
+    const middleware = rateLimit(limiter, { name: 'test', key: () => 'bob', cost: 2 });
+    const req = new Request('http://localhost/');
+
+    assertEquals((await middleware(req, () => new Response('ok'))).status, 200);
+    const err = await assertRejects(async () => await middleware(req, () => new Response('ok')), TooManyRequestsError);
+    assertEquals(err.code, 'rate_limited');
+    assertEquals(err.headers, { 'Retry-After': '1' });
   }
 });